@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import express from 'express';
+import type { RequestHandler } from 'express';
+import type { DeliveryQueue } from './delivery-queue';
+import { DELIVERY_STATUSES, getEventDetail, queryEvents } from './event-log';
+import type { DeliveryStatus, EventLog, EventQuery } from './event-log';
+import { MAX_IMPORT_ROWS, OFFLINE_ACTION_SOURCES, importOfflineConversions } from './offline-conversions';
+import type { ImportContext, ImportFormat, OfflineActionSource } from './offline-conversions';
+
+// Operator endpoints, enabled by setting ADMIN_TOKEN and called with
+// `Authorization: Bearer <ADMIN_TOKEN>`
+
+const requireAdmin: RequestHandler = (req, res, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    res.status(403).json({ error: 'Admin API disabled. Set ADMIN_TOKEN to enable it.' });
+    return;
+  }
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization || '');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    res.status(401).json({ error: 'Invalid admin token' });
+    return;
+  }
+  next();
+};
+
+// Optional { ids: string[] } body selecting jobs; all jobs when absent
+function selectedIds(body: unknown): string[] | undefined {
+  const ids = (body as { ids?: unknown } | undefined)?.ids;
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : undefined;
+}
+
+// Query string value as a time in ms: epoch milliseconds or an ISO date
+function parseTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// Event log filters from the query string, or an error message
+function parseEventQuery(query: Record<string, unknown>): EventQuery | string {
+  const parsed: EventQuery = {};
+  for (const field of ['event_name', 'event_id', 'user_id', 'destination'] as const) {
+    const value = query[field];
+    if (typeof value === 'string' && value !== '') parsed[field] = value;
+  }
+
+  if (query.status !== undefined) {
+    if (!DELIVERY_STATUSES.includes(query.status as DeliveryStatus)) {
+      return `status must be one of ${DELIVERY_STATUSES.join(', ')}`;
+    }
+    parsed.status = query.status as DeliveryStatus;
+  }
+
+  for (const field of ['from', 'to'] as const) {
+    if (query[field] === undefined) continue;
+    const time = parseTime(query[field]);
+    if (time === undefined) return `${field} must be a timestamp in ms or an ISO date`;
+    parsed[field] = time;
+  }
+
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) return 'limit must be between 1 and 1000';
+    parsed.limit = limit;
+  }
+  return parsed;
+}
+
+export function createAdminRouter(deliveryQueue: DeliveryQueue): express.Router {
+  const router = express.Router();
+  router.use(requireAdmin);
+
+  // Pending retries and dead letters
+  router.get('/deliveries', (_req, res) => {
+    res.json({ pending: deliveryQueue.pending(), deadLetters: deliveryQueue.deadLetters() });
+  });
+
+  // Move dead letters back to the queue and send them right away
+  router.post('/deliveries/redrive', async (req, res) => {
+    const jobs = deliveryQueue.redrive(selectedIds(req.body));
+    const run = await deliveryQueue.process();
+    console.log(`\n🔁 Redrive: ${jobs.length} jobs |`, run);
+    res.json({ redriven: jobs.length, ...run });
+  });
+
+  // Delete dead letters that should not be delivered
+  router.delete('/deliveries/dead-letters', (req, res) => {
+    res.json({ purged: deliveryQueue.purge(selectedIds(req.body)) });
+  });
+
+  return router;
+}
+
+// Event log: received events and every destination request, for debugging deliveries.
+// Payloads include hashed PII and IP addresses, so this is behind the admin token too.
+export function createEventsRouter(eventLog: EventLog): express.Router {
+  const router = express.Router();
+  router.use(requireAdmin);
+
+  // Received events, newest first, with each destination's latest outcome
+  router.get('/', async (req, res) => {
+    const query = parseEventQuery(req.query);
+    if (typeof query === 'string') {
+      res.status(400).json({ error: query });
+      return;
+    }
+    const events = queryEvents(await eventLog.records(), query);
+    res.json({ count: events.length, events });
+  });
+
+  // Everything logged for one event, including the exact outbound payloads
+  router.get('/:event_id', async (req, res) => {
+    const detail = getEventDetail(await eventLog.records(), req.params.event_id);
+    if (!detail) {
+      res.status(404).json({ error: `No log entries for event ${req.params.event_id}` });
+      return;
+    }
+    res.json(detail);
+  });
+
+  return router;
+}
+
+// File format from ?format=, else from the Content-Type
+function importFormat(req: express.Request): ImportFormat | undefined {
+  const format = req.query.format;
+  if (format === 'csv' || format === 'ndjson') return format;
+  if (req.is('text/csv')) return 'csv';
+  if (req.is('application/x-ndjson')) return 'ndjson';
+  return undefined;
+}
+
+// Offline conversions upload: the CSV or NDJSON file is the request body.
+// ?dry_run=true validates and reports without sending, ?action_source= sets the default.
+export function createOfflineConversionsRouter(context: ImportContext): express.Router {
+  const router = express.Router();
+  router.use(requireAdmin);
+
+  router.post('/', express.text({ type: ['text/csv', 'application/x-ndjson'], limit: '10mb' }), async (req, res) => {
+    const format = importFormat(req);
+    if (!format || typeof req.body !== 'string') {
+      res.status(400).json({ error: 'Send the file as text/csv or application/x-ndjson' });
+      return;
+    }
+
+    const actionSource = req.query.action_source;
+    if (actionSource !== undefined && !OFFLINE_ACTION_SOURCES.includes(actionSource as OfflineActionSource)) {
+      res.status(400).json({ error: `action_source must be one of ${OFFLINE_ACTION_SOURCES.join(', ')}` });
+      return;
+    }
+
+    const lines = req.body.split('\n').filter(line => line.trim() !== '').length;
+    if (lines > MAX_IMPORT_ROWS + 1) {
+      res.status(413).json({ error: `Too many rows: max ${MAX_IMPORT_ROWS} per import` });
+      return;
+    }
+
+    const report = await importOfflineConversions(req.body, {
+      format,
+      dryRun: req.query.dry_run === 'true' || req.query.dry_run === '1',
+      ...(actionSource !== undefined && { actionSource: actionSource as OfflineActionSource })
+    }, context);
+
+    console.log(
+      `\n📥 Offline Conversions${report.dryRun ? ' (dry run)' : ''}: ${report.total} rows | ${report.valid} valid | ` +
+      `${report.invalid} invalid | ${report.sent} sent | ${report.duplicates} duplicates | ${report.failed} failed`
+    );
+    res.json(report);
+  });
+
+  return router;
+}
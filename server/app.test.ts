@@ -0,0 +1,1083 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { createApp } from './app';
+import type { AppOptions } from './app';
+import { MemoryDedupStore } from './dedup';
+import { DeliveryQueue } from './delivery-queue';
+import { BotFilter } from './bot-filter';
+import { BackgroundDispatcher } from './dispatcher';
+import { MemoryEventLog } from './event-log';
+import { MemoryOrderSessionStore } from './order-sessions';
+import { generic } from './payment-providers/generic';
+import { loadFixture } from './payment-providers/fixtures';
+import { hashPII } from './pii';
+import { TrackingTokens } from './tracking-token';
+
+const CREDENTIALS = {
+  VITE_GA_MEASUREMENT_ID: 'G-TEST',
+  VITE_GA_API_SECRET: 'ga-secret',
+  VITE_META_PIXEL_ID: 'meta-pixel',
+  VITE_META_ACCESS_TOKEN: 'meta-token',
+  VITE_TIKTOK_PIXEL_ID: 'tiktok-pixel',
+  VITE_TIKTOK_ACCESS_TOKEN: 'tiktok-token'
+};
+
+const addToCart = {
+  event_name: 'add_to_cart',
+  event_id: 'evt-1',
+  currency: 'PHP',
+  value: 99.99,
+  items: [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }]
+};
+
+// Memory-only stores, so tests never write to data/ or start background timers
+function createTestApp(options: AppOptions = {}) {
+  return createApp({
+    dedupStore: new MemoryDedupStore(),
+    deliveryQueue: new DeliveryQueue(),
+    trackingTokens: null,
+    botFilter: null,
+    eventLog: new MemoryEventLog(),
+    orderSessions: new MemoryOrderSessionStore(),
+    ...options
+  });
+}
+
+// Answer every platform request the way the real APIs do on success
+function mockPlatforms() {
+  return vi.fn<typeof fetch>(async input => {
+    const url = String(input);
+    if (url.includes('google-analytics.com/debug')) return Response.json({ validationMessages: [] });
+    if (url.includes('google-analytics.com')) return new Response(null, { status: 204 });
+    if (url.includes('tiktok')) return Response.json({ code: 0, message: 'OK' });
+    return Response.json({ events_received: 1 });
+  });
+}
+
+function sentTo(fetchMock: ReturnType<typeof mockPlatforms>, host: string) {
+  return fetchMock.mock.calls
+    .filter(([input]) => String(input).includes(host))
+    .map(([input, init]) => ({ url: String(input), body: JSON.parse(String(init?.body)) }));
+}
+
+describe('server app', () => {
+  let fetchMock: ReturnType<typeof mockPlatforms>;
+
+  beforeEach(() => {
+    Object.entries(CREDENTIALS).forEach(([key, value]) => vi.stubEnv(key, value));
+    fetchMock = mockPlatforms();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('/api/track', () => {
+    it('should send an event to every configured destination', async () => {
+      const res = await request(createTestApp())
+        .post('/api/track')
+        .send({ event: addToCart, user: { client_id: 'client-123', email: 'Test@Example.com' } });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({
+        event_id: 'evt-1',
+        ga4: { success: true, status: 204 },
+        meta: { success: true, status: 200 },
+        tiktok: { success: true, status: 200 }
+      });
+
+      const [metaRequest] = sentTo(fetchMock, 'graph.facebook.com');
+      expect(metaRequest.body.data[0].event_name).toBe('AddToCart');
+      expect(metaRequest.body.data[0].user_data.em).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should map advanced matching fields to every platform, hashed', async () => {
+      await request(createTestApp())
+        .post('/api/track')
+        .send({
+          event: addToCart,
+          user: {
+            client_id: 'client-123',
+            user_id: 'user-42',
+            email: 'J.Doe@gmail.com',
+            first_name: 'Juan',
+            last_name: 'Dela Cruz',
+            date_of_birth: '1990-05-17',
+            gender: 'male',
+            city: 'Makati City',
+            state: 'Metro Manila',
+            zip_code: '1226',
+            country: 'PH'
+          }
+        });
+
+      const userData = sentTo(fetchMock, 'graph.facebook.com')[0].body.data[0].user_data;
+      for (const key of ['em', 'fn', 'ln', 'db', 'ge', 'ct', 'st', 'zp', 'country', 'external_id']) {
+        expect(userData[key]).toMatch(/^[a-f0-9]{64}$/);
+      }
+
+      const tiktokUser = sentTo(fetchMock, 'tiktok')[0].body.context.user;
+      expect(tiktokUser.external_id).toMatch(/^[a-f0-9]{64}$/);
+      expect(tiktokUser.first_name).toMatch(/^[a-f0-9]{64}$/);
+
+      // Google hashes the canonical Gmail address and the names, but not the rest of the address
+      const ga4UserData = sentTo(fetchMock, 'google-analytics.com')[0].body.user_data;
+      expect(ga4UserData.sha256_email_address).toEqual([hashPII('em', 'jdoe@gmail.com')]);
+      expect(ga4UserData.address[0]).toMatchObject({ city: 'makaticity', region: 'metromanila', postal_code: '1226', country: 'ph' });
+      expect(ga4UserData.address[0].sha256_first_name).toBe(userData.fn);
+    });
+
+    it('should strip personal data when ad_user_data is denied', async () => {
+      await request(createTestApp())
+        .post('/api/track')
+        .send({
+          event: addToCart,
+          user: { client_id: 'client-123', email: 'test@example.com', first_name: 'Juan', city: 'Makati' },
+          consent: { analytics: true, ads: true, ad_user_data: false, ad_personalization: false }
+        });
+
+      const userData = sentTo(fetchMock, 'graph.facebook.com')[0].body.data[0].user_data;
+      expect(userData.em).toBeUndefined();
+      expect(userData.fn).toBeUndefined();
+      expect(userData.ct).toBeUndefined();
+      expect(sentTo(fetchMock, 'tiktok')[0].body.context.user).toBeUndefined();
+      expect(sentTo(fetchMock, 'google-analytics.com')[0].body.user_data).toBeUndefined();
+    });
+
+    it('should send click IDs and UTMs to the platforms that use them', async () => {
+      await request(createTestApp())
+        .post('/api/track')
+        .send({
+          event: addToCart,
+          user: { client_id: 'client-123' },
+          attribution: { gclid: 'G-1', ttclid: 'TT-1', utm_source: 'google', utm_medium: 'cpc' }
+        });
+
+      expect(sentTo(fetchMock, 'tiktok')[0].body.context.ad).toEqual({ callback: 'TT-1' });
+      expect(sentTo(fetchMock, 'google-analytics.com')[0].body.events[0].params).toMatchObject({
+        gclid: 'G-1',
+        source: 'google',
+        medium: 'cpc'
+      });
+    });
+
+    it('should send GA4 items under its own parameter names', async () => {
+      await request(createTestApp())
+        .post('/api/track')
+        .send({
+          event: { ...addToCart, items: [{ id: 'PROD-001', name: 'Test', category: 'Shoes', price: 99.99, quantity: 1, position: 2 }] },
+          user: { client_id: 'client-123' }
+        });
+
+      expect(sentTo(fetchMock, 'google-analytics.com')[0].body.events[0].params.items).toEqual([
+        { item_id: 'PROD-001', item_name: 'Test', item_category: 'Shoes', price: 99.99, quantity: 1, index: 2 }
+      ]);
+    });
+
+    it('should use the client event time and page, clamped to the platform windows', async () => {
+      const now = Date.now();
+      const day = 24 * 60 * 60 * 1000;
+
+      await request(createTestApp())
+        .post('/api/track')
+        .send({
+          event: { ...addToCart, timestamp: now - 10 * day, page_location: 'https://shop.example.com/p/1', page_referrer: '' },
+          user: { client_id: 'client-123' }
+        });
+
+      const metaEvent = sentTo(fetchMock, 'graph.facebook.com')[0].body.data[0];
+      expect(metaEvent.event_source_url).toBe('https://shop.example.com/p/1');
+      expect(metaEvent.event_time).toBeGreaterThan((now - 7 * day) / 1000);
+      expect(metaEvent.event_time).toBeLessThan((now - 6 * day) / 1000);
+
+      const ga4Event = sentTo(fetchMock, 'google-analytics.com')[0].body.events[0];
+      expect(ga4Event.timestamp_micros).toBeGreaterThan((now - 3 * day) * 1000);
+      expect(ga4Event.params.page_location).toBe('https://shop.example.com/p/1');
+
+      expect(sentTo(fetchMock, 'tiktok')[0].body.context.page.url).toBe('https://shop.example.com/p/1');
+    });
+
+    it('should reject events from pages outside the allowed origins', async () => {
+      const res = await request(createTestApp({ allowedOrigins: ['https://shop.example.com'] }))
+        .post('/api/track')
+        .send({ event: { ...addToCart, page_location: 'https://other.example.net/' }, user: { client_id: 'client-123' } });
+
+      expect(res.status).toBe(400);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should use the shared event name mapping for custom events', async () => {
+      await request(createTestApp())
+        .post('/api/track')
+        .send({ event: { ...addToCart, event_name: 'view_cart' }, user: { client_id: 'client-123' } });
+
+      expect(sentTo(fetchMock, 'graph.facebook.com')[0].body.data[0].event_name).toBe('ViewCart');
+      expect(sentTo(fetchMock, 'tiktok')[0].body.event).toBe('ViewCart');
+    });
+
+    it('should reject conversion events from the frontend', async () => {
+      const res = await request(createTestApp())
+        .post('/api/track')
+        .send({ event: { ...addToCart, event_name: 'purchase' }, user: { client_id: 'client-123' } });
+
+      expect(res.status).toBe(400);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid events with the failing field paths', async () => {
+      const res = await request(createTestApp())
+        .post('/api/track')
+        .send({ event: { ...addToCart, items: undefined, value: -1 }, user: { client_id: 'client-123' } });
+
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({
+        error: 'Invalid event',
+        details: [
+          { path: 'event.value', message: 'must be a non-negative number' },
+          { path: 'event.items', message: 'is required' }
+        ]
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should acknowledge a duplicate event_id without resending it', async () => {
+      const app = createTestApp();
+      const payload = { event: addToCart, user: { client_id: 'client-123' } };
+
+      await request(app).post('/api/track').send(payload);
+      const res = await request(app).post('/api/track').send(payload);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ event_id: 'evt-1', deduplicated: true });
+      expect(sentTo(fetchMock, 'graph.facebook.com')).toHaveLength(1);
+    });
+
+    it('should let a retry through when every destination rejected the event', async () => {
+      const app = createTestApp();
+      const payload = { event: addToCart, user: { client_id: 'client-123' } };
+      fetchMock.mockImplementation(async () => Response.json({ error: { message: 'Bad request' } }, { status: 400 }));
+
+      await request(app).post('/api/track').send(payload);
+      fetchMock.mockImplementation(mockPlatforms());
+      const res = await request(app).post('/api/track').send(payload);
+
+      expect(res.body.meta.success).toBe(true);
+    });
+
+    it('should queue failed deliveries for retry instead of dropping them', async () => {
+      const deliveryQueue = new DeliveryQueue();
+      fetchMock.mockImplementation(async () => new Response('Service Unavailable', { status: 503 }));
+
+      const res = await request(createTestApp({ deliveryQueue }))
+        .post('/api/track')
+        .send({ event: addToCart, user: { client_id: 'client-123' } });
+
+      expect(res.body.ga4).toEqual({ success: false, status: 503, error: 'Status 503', queued: true });
+      expect(deliveryQueue.pending().map(job => job.destination)).toEqual(['ga4', 'meta', 'tiktok']);
+    });
+
+    it('should skip destinations without consent', async () => {
+      const res = await request(createTestApp())
+        .post('/api/track')
+        .send({
+          event: addToCart,
+          user: { client_id: 'client-123' },
+          consent: { analytics: true, ads: false, ad_user_data: false, ad_personalization: false }
+        });
+
+      expect(res.body.ga4.success).toBe(true);
+      expect(res.body.meta).toEqual({ success: false, skipped: true, error: 'No consent' });
+      expect(res.body.tiktok.skipped).toBe(true);
+    });
+
+    it('should leave out destinations the browser sends to itself', async () => {
+      const res = await request(createTestApp())
+        .post('/api/track')
+        .send({ event: addToCart, user: { client_id: 'client-123' }, destinations: ['meta'] });
+
+      expect(res.body.meta.success).toBe(true);
+      expect(res.body.ga4).toEqual({ success: false, skipped: true, error: 'Sent by the browser pixel' });
+      expect(sentTo(fetchMock, 'google-analytics.com')).toHaveLength(0);
+      expect(sentTo(fetchMock, 'tiktok')).toHaveLength(0);
+    });
+
+    it('should skip destinations without credentials', async () => {
+      vi.stubEnv('VITE_TIKTOK_ACCESS_TOKEN', '');
+
+      const res = await request(createTestApp())
+        .post('/api/track')
+        .send({ event: addToCart, user: { client_id: 'client-123' } });
+
+      expect(res.body).not.toHaveProperty('tiktok');
+      expect(sentTo(fetchMock, 'tiktok')).toHaveLength(0);
+    });
+
+    it('should accept text/plain bodies from sendBeacon', async () => {
+      const res = await request(createTestApp())
+        .post('/api/track')
+        .set('Content-Type', 'text/plain')
+        .send(JSON.stringify({ event: addToCart, user: { client_id: 'client-123' } }));
+
+      expect(res.status).toBe(200);
+      expect(res.body.event_id).toBe('evt-1');
+    });
+  });
+
+  describe('/api/track/batch', () => {
+    it('should return one result per event, in order', async () => {
+      const res = await request(createTestApp())
+        .post('/api/track/batch')
+        .send([
+          { event: addToCart, user: { client_id: 'client-123' } },
+          {
+            event: { ...addToCart, event_id: 'evt-2', event_name: 'purchase', transaction_id: 'ORDER-1' },
+            user: { client_id: 'client-123' }
+          },
+          { event: { ...addToCart, event_id: 'evt-3' }, user: { client_id: 'client-123' } }
+        ]);
+
+      expect(res.status).toBe(200);
+      expect(res.body.results.map((result: { event_id: string }) => result.event_id)).toEqual(['evt-1', 'evt-2', 'evt-3']);
+      expect(res.body.results[1].error).toContain('not allowed');
+      expect(res.body.results[2].meta.success).toBe(true);
+
+      // One native multi-event request per platform
+      expect(sentTo(fetchMock, 'google-analytics.com')[0].body.events).toHaveLength(2);
+      expect(sentTo(fetchMock, 'graph.facebook.com')[0].body.data).toHaveLength(2);
+      expect(sentTo(fetchMock, 'tiktok')[0].url).toContain('pixel/batch/');
+    });
+
+    it('should report invalid events in the batch without dropping the rest', async () => {
+      const res = await request(createTestApp())
+        .post('/api/track/batch')
+        .send([
+          { event: { ...addToCart, currency: 'PESO' }, user: { client_id: 'client-123' } },
+          { event: { ...addToCart, event_id: 'evt-2' }, user: { client_id: 'client-123' } }
+        ]);
+
+      expect(res.body.results[0]).toEqual({
+        event_id: 'evt-1',
+        error: 'Invalid event',
+        details: [{ path: 'event.currency', message: 'must be an ISO 4217 currency code' }]
+      });
+      expect(res.body.results[1].ga4.success).toBe(true);
+    });
+
+    it('should send an event_id repeated in a batch only once', async () => {
+      const res = await request(createTestApp())
+        .post('/api/track/batch')
+        .send([
+          { event: addToCart, user: { client_id: 'client-123' } },
+          { event: addToCart, user: { client_id: 'client-123' } }
+        ]);
+
+      expect(res.body.results[1]).toEqual({ event_id: 'evt-1', deduplicated: true });
+      expect(sentTo(fetchMock, 'graph.facebook.com')[0].body.data).toHaveLength(1);
+    });
+
+    it('should reject an empty batch', async () => {
+      const res = await request(createTestApp()).post('/api/track/batch').send([]);
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('business routes', () => {
+    let dispatcher: BackgroundDispatcher;
+
+    beforeEach(() => {
+      dispatcher = new BackgroundDispatcher();
+    });
+
+    it('should track begin_checkout from the checkout route', async () => {
+      const res = await request(createTestApp({ dispatcher }))
+        .post('/api/checkout')
+        .send({ items: addToCart.items, user: { client_id: 'client-123' } });
+      await dispatcher.idle();
+
+      expect(res.status).toBe(200);
+      const [ga4Request] = sentTo(fetchMock, 'google-analytics.com');
+      expect(ga4Request.body.events[0]).toMatchObject({ name: 'begin_checkout', params: { value: 99.99 } });
+    });
+
+    it('should track purchase with the order ID', async () => {
+      await request(createTestApp({ dispatcher }))
+        .post('/api/purchase/complete')
+        .send({ orderId: 'ORDER-1', items: addToCart.items, user: { client_id: 'client-123' } });
+      await dispatcher.idle();
+
+      expect(sentTo(fetchMock, 'graph.facebook.com')[0].body.data[0].custom_data.order_id).toBe('ORDER-1');
+    });
+
+    it('should read click IDs from the browser cookies', async () => {
+      await request(createTestApp({ dispatcher }))
+        .post('/api/purchase/complete')
+        .set('Cookie', '_fbc=fb.1.1700000000000.AbC; _trk_ttclid=TT-1; _trk_utm=%7B%22utm_source%22%3A%22tiktok%22%7D')
+        .send({ orderId: 'ORDER-1', items: addToCart.items, user: { client_id: 'client-123' } });
+      await dispatcher.idle();
+
+      expect(sentTo(fetchMock, 'graph.facebook.com')[0].body.data[0].user_data.fbc).toBe('fb.1.1700000000000.AbC');
+      expect(sentTo(fetchMock, 'tiktok')[0].body.context.ad).toEqual({ callback: 'TT-1' });
+      expect(sentTo(fetchMock, 'google-analytics.com')[0].body.events[0].params.source).toBe('tiktok');
+    });
+
+    it('should respond before the ad platforms answer', async () => {
+      // Platforms that never answer
+      fetchMock.mockImplementation(() => new Promise(() => {}));
+
+      const res = await request(createTestApp({ dispatcher }))
+        .post('/api/purchase/complete')
+        .send({ orderId: 'ORDER-1', items: addToCart.items, user: { client_id: 'client-123' } });
+
+      expect(res.body.status).toBe('completed');
+      expect(fetchMock).toHaveBeenCalled();
+      expect(dispatcher.size()).toBe(1);
+    });
+  });
+
+  describe('refund routes', () => {
+    let eventLog: MemoryEventLog;
+    let dispatcher: BackgroundDispatcher;
+
+    // Purchase of two items, logged so refunds can be checked against it
+    async function purchasedApp() {
+      const app = createTestApp({ dispatcher, eventLog });
+      await request(app)
+        .post('/api/purchase/complete')
+        .send({
+          orderId: 'ORDER-1',
+          items: [...addToCart.items, { id: 'PROD-002', name: 'Other', price: 50, quantity: 2 }],
+          user: { client_id: 'client-123' }
+        });
+      await dispatcher.idle();
+      fetchMock.mockClear();
+      return app;
+    }
+
+    beforeEach(() => {
+      eventLog = new MemoryEventLog();
+      dispatcher = new BackgroundDispatcher({ dispatchOptions: { eventLog } });
+    });
+
+    it('should not let concurrent refunds of an order pass the same check', async () => {
+      const app = await purchasedApp();
+      // A slow log read, as with a large event log file
+      const records = eventLog.records.bind(eventLog);
+      vi.spyOn(eventLog, 'records').mockImplementation(async () => {
+        const snapshot = await records();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return snapshot;
+      });
+
+      const responses = await Promise.all([
+        request(app).post('/api/orders/ORDER-1/cancel').send({}),
+        request(app).post('/api/orders/ORDER-1/cancel').send({})
+      ]);
+
+      expect(responses.map(res => res.status).sort()).toEqual([200, 400]);
+    });
+
+    it('should refund items at their purchase price for the purchasing client', async () => {
+      const res = await request(await purchasedApp())
+        .post('/api/orders/ORDER-1/refund')
+        .send({ items: [{ id: 'PROD-002', quantity: 1 }] });
+      await dispatcher.idle();
+
+      expect(res.body).toMatchObject({ orderId: 'ORDER-1', status: 'refunded', verified: true, refund: { value: 50 } });
+      const [ga4Request] = sentTo(fetchMock, 'google-analytics.com');
+      expect(ga4Request.body.client_id).toBe('client-123');
+      expect(ga4Request.body.events[0]).toMatchObject({
+        name: 'refund',
+        params: { transaction_id: 'ORDER-1', value: 50, items: [{ item_id: 'PROD-002', quantity: 1 }] }
+      });
+      expect(sentTo(fetchMock, 'graph.facebook.com')[0].body.data[0]).toMatchObject({
+        event_name: 'Refund',
+        action_source: 'system_generated',
+        custom_data: { order_id: 'ORDER-1', value: 50 }
+      });
+      expect(sentTo(fetchMock, 'tiktok')[0].body).toMatchObject({ event: 'Refund', properties: { order_id: 'ORDER-1' } });
+    });
+
+    it('should cancel what is left of the order and reject refunds after it', async () => {
+      const app = await purchasedApp();
+      await request(app).post('/api/orders/ORDER-1/refund').send({ items: [{ id: 'PROD-001', quantity: 1 }] });
+      await dispatcher.idle();
+
+      const cancelled = await request(app).post('/api/orders/ORDER-1/cancel').send({});
+      await dispatcher.idle();
+      const refunded = await request(app).post('/api/orders/ORDER-1/refund').send({ value: 10 });
+
+      expect(cancelled.body).toMatchObject({ status: 'cancelled', refund: { currency: 'PHP', value: 100 } });
+      expect(refunded.status).toBe(400);
+      expect(refunded.body.details).toEqual([{ path: 'transaction_id', message: 'has already been fully refunded' }]);
+    });
+
+    it('should reject more items than were purchased', async () => {
+      const res = await request(await purchasedApp())
+        .post('/api/orders/ORDER-1/refund')
+        .send({ items: [{ id: 'PROD-002', quantity: 3 }] });
+
+      expect(res.status).toBe(400);
+      expect(res.body.details).toEqual([{ path: 'items[0].quantity', message: 'must not exceed the 2 left to refund' }]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should need the user for orders missing from the event log', async () => {
+      const res = await request(createTestApp({ dispatcher, eventLog }))
+        .post('/api/orders/ORDER-9/refund')
+        .send({ value: 10, currency: 'PHP' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.details).toEqual([{ path: 'user', message: 'is required when the purchase is not in the event log' }]);
+    });
+  });
+
+  describe('/api/webhooks', () => {
+    let dispatcher: BackgroundDispatcher;
+
+    function postWebhook(app: ReturnType<typeof createTestApp>, fixture: string, orderId: string) {
+      return postSigned(app, loadFixture('generic', fixture, orderId));
+    }
+
+    function postSigned(app: ReturnType<typeof createTestApp>, body: string) {
+      return request(app)
+        .post('/api/webhooks/generic')
+        .set('Content-Type', 'application/json')
+        .set(generic.sign(body))
+        .send(body);
+    }
+
+    function purchasesSentToMeta() {
+      return sentTo(fetchMock, 'graph.facebook.com').filter(({ body }) => body.data[0].event_name === 'Purchase');
+    }
+
+    beforeEach(() => {
+      vi.stubEnv('GENERIC_WEBHOOK_SECRET', 'whsec-test');
+      dispatcher = new BackgroundDispatcher();
+    });
+
+    it('should track a paid order with its checkout session', async () => {
+      const app = createTestApp({ dispatcher });
+      await request(app)
+        .post('/api/checkout')
+        .set('Cookie', '_fbc=fb.1.1700000000000.AbC; _fbp=fb.1.1700000000000.123')
+        .set('User-Agent', 'Mozilla/5.0 (iPhone)')
+        .send({ orderId: 'ORDER-1', items: [{ ...addToCart.items[0], price: 1999.5 }], user: { client_id: 'client-123' } });
+
+      const res = await postWebhook(app, 'payment-succeeded', 'ORDER-1');
+      await dispatcher.idle();
+
+      expect(res.body).toEqual({ received: true, tracked: true, event_id: 'purchase_ORDER-1', stitched: true });
+      const [purchase] = purchasesSentToMeta();
+      expect(purchase.body.data[0]).toMatchObject({
+        event_id: 'purchase_ORDER-1',
+        custom_data: { order_id: 'ORDER-1', value: 1999.5 },
+        user_data: { fbc: 'fb.1.1700000000000.AbC', fbp: 'fb.1.1700000000000.123', client_user_agent: 'Mozilla/5.0 (iPhone)' }
+      });
+      expect(purchase.body.data[0].user_data.em).toBe(hashPII('em', 'juan.delacruz@example.com'));
+      const ga4Purchase = sentTo(fetchMock, 'google-analytics.com').find(({ body }) => body.events[0].name === 'purchase');
+      expect(ga4Purchase?.body.client_id).toBe('client-123');
+    });
+
+    it('should send an order reported by the browser and the webhook once', async () => {
+      const app = createTestApp({ dispatcher });
+      const order = { items: addToCart.items, user: { client_id: 'client-123' } };
+
+      await request(app).post('/api/purchase/complete').send({ orderId: 'ORDER-1', ...order });
+      const late = await postWebhook(app, 'payment-succeeded', 'ORDER-1');
+      await postWebhook(app, 'payment-succeeded-with-items', 'ORDER-2');
+      const browser = await request(app).post('/api/purchase/complete').send({ orderId: 'ORDER-2', ...order });
+      await dispatcher.idle();
+
+      expect(late.body).toMatchObject({ tracked: false, reason: 'Purchase already tracked' });
+      expect(browser.body.status).toBe('completed');
+      const ga4Purchases = sentTo(fetchMock, 'google-analytics.com').filter(({ body }) => body.events[0].name === 'purchase');
+      expect(ga4Purchases.map(({ body }) => body.events[0].params.transaction_id)).toEqual(['ORDER-1', 'ORDER-2']);
+    });
+
+    it('should only send orders without a checkout session to GA4', async () => {
+      const res = await postWebhook(createTestApp({ dispatcher }), 'payment-succeeded-with-items', 'ORDER-1');
+      await dispatcher.idle();
+
+      expect(res.body).toMatchObject({ tracked: true, stitched: false });
+      expect(purchasesSentToMeta()).toHaveLength(0);
+      const ga4Purchase = sentTo(fetchMock, 'google-analytics.com').find(({ body }) => body.events[0].name === 'purchase');
+      expect(ga4Purchase?.body.client_id).toBe('webhook.ORDER-1');
+    });
+
+    it('should reject payments with invalid items', async () => {
+      const app = createTestApp({ dispatcher });
+      const payment = (items: unknown) => JSON.stringify({
+        id: 'evt_1',
+        type: 'payment.succeeded',
+        data: { order_id: 'ORDER-1', amount: 3000, currency: 'PHP', items }
+      });
+
+      const malformed = await postSigned(app, payment([{ id: 'SKU-1', price: -1, quantity: 1 }]));
+      const short = await postSigned(app, payment([{ id: 'SKU-1', name: 'Rice cooker', price: 10, quantity: 1 }]));
+      const valid = await postSigned(app, payment([{ id: 'SKU-1', name: 'Rice cooker', price: 1500, quantity: 2 }]));
+
+      expect(malformed.status).toBe(400);
+      expect(short.status).toBe(400);
+      expect(short.body).toEqual({
+        error: 'Invalid purchase',
+        details: [{ path: 'event.value', message: 'must not exceed the items total (10.00)' }]
+      });
+      // Rejected payments do not hold on to the order's event_id
+      expect(valid.body).toMatchObject({ tracked: true });
+    });
+
+    it('should leave orders without items to the browser', async () => {
+      const app = createTestApp({ dispatcher });
+
+      const res = await postWebhook(app, 'payment-succeeded', 'ORDER-1');
+      await request(app).post('/api/purchase/complete').send({ orderId: 'ORDER-1', items: addToCart.items });
+      await dispatcher.idle();
+
+      expect(res.status).toBe(503);
+      expect(res.body.error).toContain('No items for order ORDER-1');
+      expect(purchasesSentToMeta()).toHaveLength(1);
+    });
+
+    it('should ask the provider to retry a payment that arrives before its checkout', async () => {
+      const app = createTestApp({ dispatcher });
+
+      const early = await postWebhook(app, 'payment-succeeded', 'ORDER-1');
+      await request(app)
+        .post('/api/checkout')
+        .send({ orderId: 'ORDER-1', items: [{ ...addToCart.items[0], price: 1999.5 }], user: { client_id: 'client-123' } });
+      const retried = await postWebhook(app, 'payment-succeeded', 'ORDER-1');
+      await dispatcher.idle();
+
+      expect(early.status).toBe(503);
+      expect(retried.body).toMatchObject({ received: true, tracked: true, stitched: true });
+    });
+
+    it('should reject webhooks without a valid signature', async () => {
+      const res = await request(createTestApp({ dispatcher }))
+        .post('/api/webhooks/generic')
+        .set('Content-Type', 'application/json')
+        .set('X-Webhook-Signature', 't=1,v1=forged')
+        .send(loadFixture('generic', 'payment-succeeded'));
+
+      expect(res.status).toBe(401);
+      expect(dispatcher.size()).toBe(0);
+    });
+
+    it('should acknowledge notifications other than successful payments', async () => {
+      const res = await postWebhook(createTestApp({ dispatcher }), 'payment-failed', 'ORDER-1');
+
+      expect(res.body).toEqual({ received: true, tracked: false, reason: 'Ignored payment.failed' });
+    });
+
+    it('should answer for unknown and unconfigured providers', async () => {
+      const app = createTestApp({ dispatcher });
+
+      const unknown = await request(app).post('/api/webhooks/acme').send({});
+      vi.stubEnv('GENERIC_WEBHOOK_SECRET', '');
+      const disabled = await postWebhook(app, 'payment-succeeded', 'ORDER-1');
+
+      expect(unknown.status).toBe(404);
+      expect(disabled.status).toBe(503);
+    });
+  });
+
+  describe('request authentication', () => {
+    const trackingTokens = new TrackingTokens('test-secret');
+    const allowedOrigins = ['https://shop.example.com'];
+    const payload = { event: addToCart, user: { client_id: 'client-123' } };
+
+    it('should reject events without a valid token', async () => {
+      const app = createTestApp({ trackingTokens, allowedOrigins });
+
+      const missing = await request(app).post('/api/track').send(payload);
+      const forged = await request(app).post('/api/track').set('X-Tracking-Token', '1.2.3').send(payload);
+
+      expect(missing.status).toBe(401);
+      expect(forged.body).toEqual({ error: 'Invalid tracking token' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should accept a token from the token endpoint, as header or query', async () => {
+      const app = createTestApp({ trackingTokens, allowedOrigins });
+      const { body: issued } = await request(app).get('/api/track/token').set('Origin', 'https://shop.example.com');
+
+      const viaHeader = await request(app).post('/api/track').set('X-Tracking-Token', issued.token).send(payload);
+      const viaQuery = await request(app)
+        .post(`/api/track/batch?token=${issued.token}`)
+        .send([{ ...payload, event: { ...addToCart, event_id: 'evt-2' } }]);
+
+      expect(viaHeader.status).toBe(200);
+      expect(viaQuery.status).toBe(200);
+    });
+
+    it('should only issue tokens to pages on the allow-list', async () => {
+      const app = createTestApp({ trackingTokens, allowedOrigins });
+
+      const sameOrigin = await request(app).get('/api/track/token').set('Referer', 'https://shop.example.com/cart');
+      const foreign = await request(app).get('/api/track/token').set('Origin', 'https://evil.example.net');
+      const scripted = await request(app).get('/api/track/token');
+
+      expect(sameOrigin.body.token).toEqual(expect.any(String));
+      expect(foreign.status).toBe(403);
+      expect(scripted.status).toBe(403);
+    });
+
+    it('should not issue tokens without an allow-list', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const app = createTestApp({ trackingTokens });
+
+      const res = await request(app).get('/api/track/token').set('Origin', 'https://shop.example.com');
+
+      expect(res.status).toBe(503);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('ALLOWED_ORIGINS is empty'));
+    });
+
+    it('should refuse requests from origins outside the allow-list', async () => {
+      const app = createTestApp({ allowedOrigins: ['https://shop.example.com'] });
+
+      const foreign = await request(app).post('/api/track').set('Origin', 'https://evil.example.net').send(payload);
+      const own = await request(app).post('/api/track').set('Origin', 'https://shop.example.com').send(payload);
+
+      expect(foreign.status).toBe(403);
+      expect(own.headers['access-control-allow-origin']).toBe('https://shop.example.com');
+    });
+
+    it('should let allow-listed pages send cookies to business routes', async () => {
+      const preflight = (app: ReturnType<typeof createTestApp>) => request(app)
+        .options('/api/checkout')
+        .set('Origin', 'https://shop.example.com')
+        .set('Access-Control-Request-Method', 'POST');
+
+      const listed = await preflight(createTestApp({ allowedOrigins }));
+      const open = await preflight(createTestApp());
+
+      expect(listed.headers['access-control-allow-origin']).toBe('https://shop.example.com');
+      expect(listed.headers['access-control-allow-credentials']).toBe('true');
+      expect(open.headers['access-control-allow-origin']).toBe('*');
+      expect(open.headers['access-control-allow-credentials']).toBeUndefined();
+    });
+
+    it('should report disabled tokens on the token endpoint', async () => {
+      const res = await request(createTestApp()).get('/api/track/token');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('test events', () => {
+    const payload = { event: addToCart, user: { client_id: 'client-123' } };
+
+    beforeEach(() => {
+      vi.stubEnv('META_TEST_EVENT_CODE', 'TEST12345');
+      vi.stubEnv('TIKTOK_TEST_EVENT_CODE', 'TEST67890');
+    });
+
+    it('should send test event codes and validate GA4 on the debug endpoint', async () => {
+      fetchMock.mockImplementationOnce(async () => Response.json({
+        validationMessages: [{ fieldPath: 'events[0].params.currency', description: 'Invalid currency', validationCode: 'VALUE_INVALID' }]
+      }));
+
+      const res = await request(createTestApp()).post('/api/track').set('X-Tracking-Test', 'true').send(payload);
+
+      expect(res.body.ga4).toEqual({
+        success: false,
+        status: 200,
+        error: 'Invalid currency',
+        validationMessages: [{ fieldPath: 'events[0].params.currency', description: 'Invalid currency', validationCode: 'VALUE_INVALID' }]
+      });
+      expect(sentTo(fetchMock, 'google-analytics.com')[0].url).toContain('/debug/mp/collect?');
+      expect(sentTo(fetchMock, 'graph.facebook.com')[0].body.test_event_code).toBe('TEST12345');
+      expect(sentTo(fetchMock, 'tiktok')[0].body.test_event_code).toBe('TEST67890');
+    });
+
+    it('should not send test events to platforms without a test event code', async () => {
+      vi.stubEnv('META_TEST_EVENT_CODE', '');
+
+      const res = await request(createTestApp()).post('/api/track?test=true').send(payload);
+
+      expect(res.body.meta).toEqual({ success: false, skipped: true, error: 'Test mode needs META_TEST_EVENT_CODE' });
+      expect(sentTo(fetchMock, 'graph.facebook.com')).toEqual([]);
+    });
+
+    it('should use test mode for every request with TRACKING_TEST_MODE', async () => {
+      vi.stubEnv('TRACKING_TEST_MODE', 'true');
+      const deliveryQueue = new DeliveryQueue();
+      fetchMock.mockImplementation(async () => Response.json({ error: { message: 'Unavailable' } }, { status: 503 }));
+
+      const res = await request(createTestApp({ deliveryQueue })).post('/api/track').send(payload);
+
+      // Failed test events are not retried
+      expect(res.body.meta).toMatchObject({ success: false, status: 503 });
+      expect(res.body.meta.queued).toBeUndefined();
+      expect(deliveryQueue.pending()).toEqual([]);
+    });
+  });
+
+  describe('bot filtering', () => {
+    const payload = { event: addToCart, user: { client_id: 'client-123' } };
+    const browser = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36';
+
+    it('should acknowledge crawler events without forwarding them', async () => {
+      const app = createTestApp({ botFilter: new BotFilter() });
+
+      const res = await request(app)
+        .post('/api/track')
+        .set('User-Agent', 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')
+        .send(payload);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ event_id: 'evt-1', filtered: true, reason: 'bot_user_agent' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should filter per event in batches and count the reasons', async () => {
+      const app = createTestApp({ botFilter: new BotFilter({ maxPerClient: 1 }) });
+
+      const res = await request(app)
+        .post('/api/track/batch')
+        .set('User-Agent', browser)
+        .send([payload, { ...payload, event: { ...addToCart, event_id: 'evt-2' } }]);
+      const health = await request(app).get('/health');
+
+      expect(res.body.results[0].meta.success).toBe(true);
+      expect(res.body.results[1]).toEqual({ event_id: 'evt-2', filtered: true, reason: 'client_rate_limit' });
+      expect(health.body.filtered).toMatchObject({ client_rate_limit: 1, bot_user_agent: 0 });
+    });
+
+    it('should deliver queued add_to_cart events replayed in one batch', async () => {
+      const app = createTestApp({ botFilter: new BotFilter() });
+      const clickedAt = Date.now() - 60_000;
+      const replayed = [0, 1, 2, 3, 4, 5].map(i => ({
+        ...payload,
+        event: { ...addToCart, event_id: `evt-${i}`, timestamp: clickedAt + i * 3000 }
+      }));
+
+      const res = await request(app).post('/api/track/batch').set('User-Agent', browser).send(replayed);
+
+      expect(res.body.results.filter((result: { filtered?: boolean }) => result.filtered)).toEqual([]);
+      expect(res.body.results.every((result: { meta: { success: boolean } }) => result.meta.success)).toBe(true);
+    });
+
+    it('should not take client IPs from a forged X-Forwarded-For', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const post = (app: ReturnType<typeof createTestApp>, forwardedFor: string, clientId: string) => request(app)
+        .post('/api/track')
+        .set('User-Agent', browser)
+        .set('X-Forwarded-For', forwardedFor)
+        .send({ ...payload, user: { client_id: clientId } });
+
+      const direct = createTestApp({ botFilter: new BotFilter({ maxPerIp: 1 }) });
+      await post(direct, '198.51.100.1', 'client-1');
+      const rotated = await post(direct, '198.51.100.2', 'client-2');
+
+      // Behind one trusted proxy only the address it appended counts
+      const proxied = createTestApp({ botFilter: new BotFilter({ maxPerIp: 1 }), trustProxy: 1 });
+      await post(proxied, '198.51.100.1, 203.0.113.7', 'client-1');
+      const prepended = await post(proxied, '198.51.100.2, 203.0.113.7', 'client-2');
+
+      expect(rotated.body).toMatchObject({ filtered: true, reason: 'ip_rate_limit' });
+      expect(prepended.body).toMatchObject({ filtered: true, reason: 'ip_rate_limit' });
+    });
+
+    it('should warn once when X-Forwarded-For arrives without TRUST_PROXY', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const app = createTestApp();
+
+      await request(app).post('/api/track').set('User-Agent', browser).send(payload);
+      expect(warn).not.toHaveBeenCalled();
+
+      await request(app).post('/api/track').set('User-Agent', browser).set('X-Forwarded-For', '203.0.113.7').send(payload);
+      await request(app).post('/api/track').set('User-Agent', browser).set('X-Forwarded-For', '203.0.113.7').send(payload);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('TRUST_PROXY');
+    });
+  });
+
+  describe('/api/events', () => {
+    let eventLog: MemoryEventLog;
+
+    beforeEach(() => {
+      vi.stubEnv('ADMIN_TOKEN', 'admin-secret');
+      eventLog = new MemoryEventLog();
+    });
+
+    it('should require the admin token', async () => {
+      const res = await request(createTestApp({ eventLog })).get('/api/events');
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should list received events with their delivery outcomes', async () => {
+      vi.stubEnv('VITE_META_ACCESS_TOKEN', '');
+      const app = createTestApp({ eventLog });
+      await request(app).post('/api/track').send({ event: addToCart, user: { client_id: 'client-123', user_id: 'user-42' } });
+      await request(app).post('/api/track').send({ event: addToCart, user: { client_id: 'client-123', user_id: 'user-42' } });
+
+      const res = await request(app)
+        .get('/api/events?user_id=user-42&destination=tiktok&status=success')
+        .set('Authorization', 'Bearer admin-secret');
+
+      expect(res.body.count).toBe(1);
+      expect(res.body.events[0]).toMatchObject({ event_id: 'evt-1', event_name: 'add_to_cart', source: 'frontend', outcome: 'dispatched' });
+      expect(res.body.events[0].deliveries.map((delivery: { destination: string }) => delivery.destination)).toEqual(['ga4', 'tiktok']);
+    });
+
+    it('should show the exact outbound payloads of an event', async () => {
+      const app = createTestApp({ eventLog });
+      await request(app).post('/api/track').send({ event: addToCart, user: { client_id: 'client-123' } });
+
+      const res = await request(app).get('/api/events/evt-1').set('Authorization', 'Bearer admin-secret');
+      const meta = res.body.deliveries.find((delivery: { destination: string }) => delivery.destination === 'meta');
+
+      expect(meta.payload).toEqual(sentTo(fetchMock, 'graph.facebook.com')[0].body);
+      expect(meta.result).toEqual({ success: true, status: 200 });
+    });
+
+    it('should reject unknown statuses and report unknown events', async () => {
+      const app = createTestApp({ eventLog });
+
+      const invalid = await request(app).get('/api/events?status=lost').set('Authorization', 'Bearer admin-secret');
+      const missing = await request(app).get('/api/events/evt-404').set('Authorization', 'Bearer admin-secret');
+
+      expect(invalid.status).toBe(400);
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  describe('/api/admin/deliveries', () => {
+    let deliveryQueue: DeliveryQueue;
+
+    beforeEach(() => {
+      vi.stubEnv('ADMIN_TOKEN', 'admin-secret');
+      deliveryQueue = new DeliveryQueue();
+      deliveryQueue.add('meta', { data: [] }, ['evt-1'], { success: false, status: 400, error: 'Invalid token' });
+    });
+
+    it('should be disabled without ADMIN_TOKEN', async () => {
+      vi.stubEnv('ADMIN_TOKEN', '');
+
+      const res = await request(createTestApp({ deliveryQueue })).get('/api/admin/deliveries');
+
+      expect(res.status).toBe(403);
+    });
+
+    it('should require the admin token', async () => {
+      const res = await request(createTestApp({ deliveryQueue }))
+        .get('/api/admin/deliveries')
+        .set('Authorization', 'Bearer wrong');
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should list pending jobs and dead letters', async () => {
+      const res = await request(createTestApp({ deliveryQueue }))
+        .get('/api/admin/deliveries')
+        .set('Authorization', 'Bearer admin-secret');
+
+      expect(res.body.pending).toEqual([]);
+      expect(res.body.deadLetters).toHaveLength(1);
+      expect(res.body.deadLetters[0]).toMatchObject({ destination: 'meta', eventIds: ['evt-1'], lastError: 'Invalid token' });
+    });
+
+    it('should redrive dead letters', async () => {
+      const res = await request(createTestApp({ deliveryQueue }))
+        .post('/api/admin/deliveries/redrive')
+        .set('Authorization', 'Bearer admin-secret')
+        .send({});
+
+      expect(res.body).toEqual({ redriven: 1, delivered: 1, retried: 0, deadLettered: 0 });
+      expect(deliveryQueue.deadLetters()).toHaveLength(0);
+      expect(sentTo(fetchMock, 'graph.facebook.com')).toHaveLength(1);
+    });
+
+    it('should purge selected dead letters', async () => {
+      const [letter] = deliveryQueue.deadLetters();
+
+      const res = await request(createTestApp({ deliveryQueue }))
+        .delete('/api/admin/deliveries/dead-letters')
+        .set('Authorization', 'Bearer admin-secret')
+        .send({ ids: [letter.id] });
+
+      expect(res.body).toEqual({ purged: 1 });
+    });
+  });
+
+  describe('/api/admin/offline-conversions', () => {
+    const orders = [
+      'transaction_id,items,phone,action_source',
+      'COD-1,"[{""id"":""PROD-001"",""name"":""Test"",""price"":99.99,""quantity"":1}]",09171234567,physical_store',
+      'COD-2,,,'
+    ].join('\n');
+
+    beforeEach(() => {
+      vi.stubEnv('ADMIN_TOKEN', 'admin-secret');
+    });
+
+    it('should require the admin token', async () => {
+      const res = await request(createTestApp())
+        .post('/api/admin/offline-conversions')
+        .set('Content-Type', 'text/csv')
+        .send(orders);
+
+      expect(res.status).toBe(401);
+    });
+
+    it('should report a dry run without sending', async () => {
+      const res = await request(createTestApp())
+        .post('/api/admin/offline-conversions?dry_run=true')
+        .set('Authorization', 'Bearer admin-secret')
+        .set('Content-Type', 'text/csv')
+        .send(orders);
+
+      expect(res.body).toMatchObject({ dryRun: true, total: 2, valid: 1, invalid: 1 });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should send valid rows and deduplicate re-imports', async () => {
+      const app = createTestApp();
+      const upload = () => request(app)
+        .post('/api/admin/offline-conversions')
+        .set('Authorization', 'Bearer admin-secret')
+        .set('Content-Type', 'text/csv')
+        .send(orders);
+
+      const first = await upload();
+      const second = await upload();
+
+      expect(first.body).toMatchObject({ sent: 1, invalid: 1 });
+      expect(second.body).toMatchObject({ sent: 0, duplicates: 1 });
+      expect(sentTo(fetchMock, 'graph.facebook.com')[0].body.data[0]).toMatchObject({
+        event_name: 'Purchase',
+        action_source: 'physical_store',
+        custom_data: { order_id: 'COD-1', value: 99.99 }
+      });
+    });
+
+    it('should reject bodies that are not CSV or NDJSON', async () => {
+      const res = await request(createTestApp())
+        .post('/api/admin/offline-conversions')
+        .set('Authorization', 'Bearer admin-secret')
+        .send({ transaction_id: 'COD-1' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  it('should report configured credentials on /health', async () => {
+    vi.stubEnv('VITE_META_ACCESS_TOKEN', '');
+
+    const res = await request(createTestApp()).get('/health');
+
+    expect(res.body).toEqual({
+      status: 'ok',
+      credentials: { ga4: true, meta: false, tiktok: true },
+      deliveries: { pending: 0, deadLetters: 0 }
+    });
+  });
+});
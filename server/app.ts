@@ -0,0 +1,476 @@
+import cors from 'cors';
+import express from 'express';
+import type { Request, RequestHandler } from 'express';
+import type {
+  BeginCheckoutEvent,
+  ConsentState,
+  CurrencyCode,
+  PurchaseEvent,
+  TrackingEvent,
+  TrackingItem,
+  UserData
+} from '../src/types/tracking';
+import { createAdminRouter, createEventsRouter, createOfflineConversionsRouter } from './admin';
+import { getRequestAttribution, getRequestUser } from './attribution';
+import { createBotFilter } from './bot-filter';
+import type { BotFilter } from './bot-filter';
+import { createDedupStore, releaseIfUndelivered } from './dedup';
+import type { DedupStore } from './dedup';
+import { createDeliveryQueue } from './delivery-queue';
+import type { DeliveryQueue } from './delivery-queue';
+import { getDestinations } from './destinations';
+import { BackgroundDispatcher } from './dispatcher';
+import { createEventLog, receivedRecord } from './event-log';
+import type { EventLog } from './event-log';
+import { createOrderSessionStore } from './order-sessions';
+import type { OrderSessionStore } from './order-sessions';
+import { dispatchBatch, dispatchEvent, summarizeResults } from './pipeline';
+import { buildRefund, findOrder, orderUser } from './refunds';
+import type { RefundItem, RefundRequest } from './refunds';
+import type { DeduplicatedEvent, DispatchEntry, FilteredEvent, RejectedEvent, TrackResponse } from './types';
+import { isAllowedUrl, parseAllowedOrigins, requireAllowedOrigin, requirePageOrigin } from './origins';
+import { isTestRequest } from './test-mode';
+import { createTrackingTokens, requireTrackingToken } from './tracking-token';
+import type { TrackingTokens } from './tracking-token';
+import { KeyedQueue, generateEventId, getClientIp, isRecord, parseTrustProxy, purchaseEventId, warnUntrustedProxy } from './utils';
+import { validatePayload } from './validation';
+import { createWebhooksRouter } from './webhooks';
+
+// Only allow browsing and cart events from frontend - conversions (begin_checkout,
+// purchase, refund) must be tracked from the business routes
+const FRONTEND_ALLOWED_EVENTS: TrackingEvent['event_name'][] = [
+  'page_view',
+  'view_item_list',
+  'select_item',
+  'view_item',
+  'add_to_cart',
+  'remove_from_cart',
+  'view_cart',
+  'add_to_wishlist',
+  'add_shipping_info',
+  'add_payment_info'
+];
+const MAX_BATCH_SIZE = 100;
+
+interface CheckoutRequest {
+  items: TrackingItem[];
+  user: UserData;
+  consent?: ConsentState;
+  orderId?: string; // lets the payment webhook complete the purchase with this browser's click IDs
+}
+
+interface PurchaseRequest extends CheckoutRequest {
+  orderId: string;
+  paymentId?: string;
+}
+
+interface OrderUpdateRequest {
+  user?: UserData; // defaults to the purchase's client_id / user_id from the event log
+  consent?: ConsentState;
+}
+
+interface RefundRouteRequest extends OrderUpdateRequest {
+  items?: RefundItem[]; // omit for a full refund
+  value?: number;
+  currency?: CurrencyCode; // only needed when the purchase is not in the event log
+}
+
+function cartValue(items: TrackingItem[]): number {
+  return items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+}
+
+// Page a business route was called from (the Referer), when it is one of our pages
+function refererPage(req: express.Request, allowedOrigins: string[]): Pick<TrackingEvent, 'page_location'> {
+  const referer = req.headers.referer;
+  return referer && isAllowedUrl(referer, allowedOrigins) ? { page_location: referer } : {};
+}
+
+// Run a frontend event through the bot filter. Returns the response for a dropped event.
+function filterEvent(
+  botFilter: BotFilter | null,
+  eventLog: EventLog,
+  req: Request,
+  event: TrackingEvent,
+  user: UserData
+): FilteredEvent | undefined {
+  const verdict = botFilter?.check({
+    event,
+    clientId: user.client_id,
+    ip: getClientIp(req),
+    userAgent: req.get('user-agent')
+  });
+  if (!verdict || verdict.allowed) return undefined;
+
+  console.log(`\n🤖 Filtered Event: ${event.event_name} | ID: ${event.event_id} | Reason: ${verdict.reason}`);
+  eventLog.append(receivedRecord(event, user, 'frontend', 'filtered', verdict.reason));
+  return { event_id: event.event_id, filtered: true, reason: verdict.reason };
+}
+
+export interface AppOptions {
+  dedupStore?: DedupStore; // defaults to the store configured by DEDUP_* env vars
+  deliveryQueue?: DeliveryQueue; // defaults to a started queue configured by DELIVERY_QUEUE_* env vars
+  dispatcher?: BackgroundDispatcher; // background delivery for business routes
+  allowedOrigins?: string[]; // origins events may come from, defaults to ALLOWED_ORIGINS (any when empty)
+  trackingTokens?: TrackingTokens | null; // defaults to TRACKING_TOKEN_SECRET / TRACKING_AUTH, null disables the check
+  botFilter?: BotFilter | null; // defaults to BOT_FILTER_* env vars, null disables filtering
+  eventLog?: EventLog; // received events and destination requests, defaults to EVENT_LOG_* env vars
+  orderSessions?: OrderSessionStore; // checkout context for payment webhooks, defaults to ORDER_SESSION* env vars
+  trustProxy?: boolean | number | string; // Express 'trust proxy' for client IPs, defaults to TRUST_PROXY
+}
+
+// Build the Express app. Kept separate from listen() so tests can drive it directly.
+export function createApp(options: AppOptions = {}): express.Express {
+  const app = express();
+  const trustProxy = options.trustProxy ?? parseTrustProxy();
+  app.set('trust proxy', trustProxy);
+  if (!trustProxy) app.use(warnUntrustedProxy());
+  const dedupStore = options.dedupStore || createDedupStore();
+  const eventLog = options.eventLog || createEventLog();
+  const deliveryQueue = options.deliveryQueue || createDeliveryQueue(process.env, eventLog);
+  if (!options.deliveryQueue) deliveryQueue.start();
+  const dispatchOptions = { queue: deliveryQueue, eventLog };
+  const allowedOrigins = options.allowedOrigins || parseAllowedOrigins();
+  const trackingTokens = options.trackingTokens !== undefined ? options.trackingTokens : createTrackingTokens();
+  const botFilter = options.botFilter !== undefined ? options.botFilter : createBotFilter();
+  const orderSessions = options.orderSessions || createOrderSessionStore();
+
+  if (trackingTokens && allowedOrigins.length === 0) {
+    console.warn('⚠️ Tracking tokens are on but ALLOWED_ORIGINS is empty - no tokens will be issued');
+  }
+
+  // Only our own pages, holding a fresh token, may post tracking events
+  const trackingGuards: RequestHandler[] = [requireAllowedOrigin(allowedOrigins)];
+  if (trackingTokens) trackingGuards.push(requireTrackingToken(trackingTokens));
+  const dispatcher = options.dispatcher || new BackgroundDispatcher({
+    concurrency: Number(process.env.TRACKING_CONCURRENCY) || 4,
+    dispatchOptions
+  });
+
+  // Refunds of one order run one at a time: each reads what is left of the order from
+  // the event log, so two at once could both refund the same remainder
+  const refundQueue = new KeyedQueue();
+
+  // Track a refund or cancellation of an order, checked against its logged purchase.
+  // The refund is in the event log once tracked, so the next one for the order sees it.
+  function refundOrder(
+    req: Request,
+    res: express.Response,
+    request: RefundRequest,
+    status: 'refunded' | 'cancelled'
+  ): Promise<void> {
+    return refundQueue.run(request.transactionId, async () => {
+      const { user, consent } = (req.body || {}) as OrderUpdateRequest;
+      const order = findOrder(await eventLog.records(), request.transactionId);
+
+      const check = buildRefund(request, order);
+      const refundUser = user || orderUser(order);
+      if (!check.valid || !refundUser) {
+        const details = check.valid
+          ? [{ path: 'user', message: 'is required when the purchase is not in the event log' }]
+          : check.errors;
+        res.status(400).json({ error: 'Invalid refund', details });
+        return;
+      }
+
+      const event = { ...check.event, ...refererPage(req, allowedOrigins) };
+      dispatcher.track(event, refundUser, req, consent);
+
+      res.json({
+        orderId: request.transactionId,
+        status,
+        refund: { event_id: event.event_id, currency: event.currency, value: event.value, items: event.items },
+        verified: check.verified // false when the purchase was not in the event log
+      });
+    });
+  }
+
+  // Payment provider webhooks - before express.json(), their signatures cover the raw body
+  app.use('/api/webhooks', createWebhooksRouter({ dispatcher, dedupStore, orderSessions }));
+
+  // Middleware. Allow-listed pages may send cookies, so business routes see their
+  // attribution cookies; credentials are never allowed for any origin ('*').
+  app.use(cors(allowedOrigins.length > 0 ? { origin: allowedOrigins, credentials: true } : { origin: '*' }));
+  // navigator.sendBeacon posts text/plain to avoid a CORS preflight - parse it as JSON too
+  app.use(express.json({ type: ['application/json', 'text/plain'] }));
+
+  // ===== ROUTES =====
+
+  // Short-lived token for the tracking endpoints, fetched by our own pages
+  if (trackingTokens) {
+    app.get('/api/track/token', requirePageOrigin(allowedOrigins), (_req, res) => {
+      res.set('Cache-Control', 'no-store').json(trackingTokens.issue());
+    });
+  } else {
+    app.get('/api/track/token', (_req, res) => {
+      res.status(404).json({ error: 'Tracking tokens disabled' });
+    });
+  }
+
+  // Frontend tracking endpoint - ONLY for browsing and cart events
+  app.post('/api/track', ...trackingGuards, async (req, res) => {
+    const validation = validatePayload(req.body, { allowedOrigins });
+    if (!validation.valid) {
+      res.status(400).json({ error: 'Invalid event', details: validation.errors });
+      return;
+    }
+
+    const { event, user, consent, attribution, destinations } = validation.payload;
+
+    if (!FRONTEND_ALLOWED_EVENTS.includes(event.event_name)) {
+      res.status(400).json({
+        error: `Event '${event.event_name}' not allowed from frontend. Use server routes for checkout/purchase.`
+      });
+      return;
+    }
+
+    // Bots and floods are acknowledged but never reach the destinations
+    const filtered = filterEvent(botFilter, eventLog, req, event, user);
+    if (filtered) {
+      res.json(filtered);
+      return;
+    }
+
+    // Retries and replays of an event that was already sent are acknowledged, not resent
+    if (!(await dedupStore.claim(event.event_id))) {
+      console.log(`\n♻️ Duplicate Event: ${event.event_name} | ID: ${event.event_id}`);
+      eventLog.append(receivedRecord(event, user, 'frontend', 'deduplicated'));
+      const response: DeduplicatedEvent = { event_id: event.event_id, deduplicated: true };
+      res.json(response);
+      return;
+    }
+
+    // Get real IP
+    user.ip_address = getClientIp(req);
+    eventLog.append(receivedRecord(event, user, 'frontend'));
+
+    const test = isTestRequest(req);
+    const value = 'value' in event ? event.value : undefined;
+    console.log(`\n📨 Frontend Event: ${event.event_name} | ID: ${event.event_id} | Value: ₱${value || 0}${test ? ' (test)' : ''}`);
+
+    // Send to all configured platforms the user consented to, in parallel
+    const results = await dispatchEvent({ event, user, consent, attribution, destinations, test }, dispatchOptions);
+    await releaseIfUndelivered(dedupStore, event.event_id, results);
+    const response: TrackResponse = { event_id: event.event_id, ...results };
+
+    console.log('Results:', summarizeResults(results));
+
+    res.json(response);
+  });
+
+  // Frontend batch endpoint - an array of { event, user } payloads sent as one request.
+  // Responds with one result per event, in the same order.
+  app.post('/api/track/batch', ...trackingGuards, async (req, res) => {
+    const payloads: unknown = req.body;
+
+    if (!Array.isArray(payloads) || payloads.length === 0) {
+      res.status(400).json({ error: 'Expected a non-empty array of { event, user } payloads' });
+      return;
+    }
+    if (payloads.length > MAX_BATCH_SIZE) {
+      res.status(400).json({ error: `Batch too large: max ${MAX_BATCH_SIZE} events` });
+      return;
+    }
+
+    const ipAddress = getClientIp(req);
+    const test = isTestRequest(req);
+    const results: (TrackResponse | DeduplicatedEvent | FilteredEvent | RejectedEvent)[] = new Array(payloads.length);
+    const accepted: (DispatchEntry & { index: number })[] = [];
+
+    payloads.forEach((body: unknown, index) => {
+      const validation = validatePayload(body, { allowedOrigins });
+      if (!validation.valid) {
+        const event: unknown = isRecord(body) ? body.event : undefined;
+        results[index] = {
+          event_id: isRecord(event) && typeof event.event_id === 'string' ? event.event_id : undefined,
+          error: 'Invalid event',
+          details: validation.errors
+        };
+        return;
+      }
+
+      const { event, user, consent, attribution, destinations } = validation.payload;
+      if (!FRONTEND_ALLOWED_EVENTS.includes(event.event_name)) {
+        results[index] = {
+          event_id: event.event_id,
+          error: `Event '${event.event_name}' not allowed from frontend. Use server routes for checkout/purchase.`
+        };
+        return;
+      }
+
+      const filtered = filterEvent(botFilter, eventLog, req, event, user);
+      if (filtered) {
+        results[index] = filtered;
+        return;
+      }
+      accepted.push({ index, event, user: { ...user, ip_address: ipAddress }, consent, attribution, destinations, test });
+    });
+
+    // Claimed one at a time, so the same event_id twice in one batch is sent once
+    const fresh: typeof accepted = [];
+    for (const entry of accepted) {
+      if (await dedupStore.claim(entry.event.event_id)) {
+        fresh.push(entry);
+        eventLog.append(receivedRecord(entry.event, entry.user, 'frontend'));
+      } else {
+        results[entry.index] = { event_id: entry.event.event_id, deduplicated: true };
+        eventLog.append(receivedRecord(entry.event, entry.user, 'frontend', 'deduplicated'));
+      }
+    }
+
+    console.log(`\n📦 Frontend Batch: ${payloads.length} events | ${accepted.length} accepted | ${accepted.length - fresh.length} duplicates`);
+
+    if (fresh.length > 0) {
+      const dispatched = await dispatchBatch(fresh, dispatchOptions);
+
+      await Promise.all(fresh.map(async (entry, position) => {
+        await releaseIfUndelivered(dedupStore, entry.event.event_id, dispatched[position]);
+        results[entry.index] = { event_id: entry.event.event_id, ...dispatched[position] };
+      }));
+    }
+
+    res.json({ results });
+  });
+
+  // ===== EXAMPLE: Real-world e-commerce routes =====
+
+  // Example: Checkout route (begin_checkout event)
+  app.post('/api/checkout', (req, res) => {
+    const { items, user, consent, orderId } = req.body as CheckoutRequest;
+
+    // Your checkout logic here...
+    // e.g., validate items, calculate totals, create checkout session
+
+    // Track the checkout event
+    const event: BeginCheckoutEvent = {
+      event_name: 'begin_checkout',
+      event_id: generateEventId(),
+      currency: 'PHP',
+      value: cartValue(items),
+      items: items,
+      timestamp: Date.now(),
+      ...refererPage(req, allowedOrigins)
+    };
+
+    // Remember the browser context, for a payment webhook that arrives without it
+    if (orderId) {
+      const { attribution, browserIds } = getRequestAttribution(req);
+      orderSessions.save({
+        orderId,
+        user: getRequestUser(req, user, browserIds),
+        items,
+        createdAt: Date.now(),
+        ...(consent && { consent }),
+        ...(attribution && { attribution }),
+        ...refererPage(req, allowedOrigins)
+      });
+    }
+
+    // Delivered in the background - the response does not wait for the ad platforms
+    dispatcher.track(event, user, req, consent);
+
+    // Return checkout session or redirect URL
+    res.json({
+      checkoutId: 'checkout_' + Date.now(),
+      message: 'Checkout session created',
+      // ... other checkout data
+    });
+  });
+
+  // Example: Purchase completion route (purchase event)
+  app.post('/api/purchase/complete', async (req, res) => {
+    const { orderId, items, user, consent } = req.body as PurchaseRequest;
+
+    // Your purchase completion logic here...
+    // e.g., verify payment, update inventory, create order record
+
+    // Track the purchase event - same event_id as the payment webhook's
+    const event: PurchaseEvent = {
+      event_name: 'purchase',
+      event_id: purchaseEventId(orderId),
+      transaction_id: orderId,
+      currency: 'PHP',
+      value: cartValue(items),
+      items: items,
+      timestamp: Date.now(),
+      ...refererPage(req, allowedOrigins)
+    };
+
+    // Delivered in the background - the response does not wait for the ad platforms.
+    // Skipped when the payment webhook reported the order first.
+    if (await dedupStore.claim(event.event_id)) dispatcher.track(event, user, req, consent);
+
+    // Return order confirmation
+    res.json({
+      orderId: orderId,
+      status: 'completed',
+      message: 'Thank you for your purchase!',
+      // ... other order details
+    });
+  });
+
+  // Example: Refund route (refund event) - items for a partial refund, none for a full one
+  app.post('/api/orders/:orderId/refund', async (req, res) => {
+    const { items, value, currency } = (req.body || {}) as RefundRouteRequest;
+
+    // Your refund logic here...
+    // e.g., refund the payment, restock the returned items
+
+    await refundOrder(req, res, { transactionId: req.params.orderId, items, value, currency }, 'refunded');
+  });
+
+  // Example: Order cancellation route - a full refund of whatever is left of the order
+  app.post('/api/orders/:orderId/cancel', async (req, res) => {
+    // Your cancellation logic here...
+    // e.g., void the payment, release reserved stock
+
+    await refundOrder(req, res, { transactionId: req.params.orderId }, 'cancelled');
+  });
+
+  // Offline conversions import - phone and cash-on-delivery orders
+  app.use('/api/admin/offline-conversions', createOfflineConversionsRouter({ dispatchOptions, dedupStore }));
+
+  // Delivery queue inspection and redrive
+  app.use('/api/admin', createAdminRouter(deliveryQueue));
+
+  // Event log queries - what was received and sent where
+  app.use('/api/events', createEventsRouter(eventLog));
+
+  // Health check
+  app.get('/health', (_req, res) => {
+    res.json({
+      status: 'ok',
+      credentials: Object.fromEntries(
+        getDestinations().map(destination => [destination.name, destination.isConfigured()])
+      ),
+      deliveries: {
+        pending: deliveryQueue.pending().length,
+        deadLetters: deliveryQueue.deadLetters().length
+      },
+      ...(botFilter && { filtered: botFilter.counts() })
+    });
+  });
+
+  return app;
+}
+
+// ===== BEST PRACTICES =====
+/**
+ * 1. The /api/track endpoint ONLY handles browsing and cart events (page_view, view_item, add_to_cart, ...)
+ * 2. checkout, purchase and refund events MUST be tracked from your actual business routes
+ * 3. Always include event_id for deduplication
+ * 4. Hash all PII (email, phone) before sending
+ * 5. Track events where they naturally occur in your business logic
+ * 6. Don't wait for tracking to complete before responding to users - dispatcher.track()
+ *    delivers in the background
+ * 7. Include as much product detail as possible
+ * 8. Use consistent currency codes (PHP for Philippines)
+ * 9. Log tracking errors but don't let them break your checkout flow
+ * 10. Forward the client's consent state - opted-out users are dropped per destination, and
+ *     without ad_user_data consent no PII reaches the ad platforms
+ * 11. New platforms are destination modules in server/destinations/ - register them there and
+ *     every route picks them up
+ * 12. Failed deliveries are retried from the delivery queue - check its dead letters
+ *     (npm run deliveries -- list) after platform outages or credential changes
+ * 13. Track refunds and cancellations with the purchase's transaction_id - otherwise the
+ *     platforms keep counting the refunded revenue
+ */
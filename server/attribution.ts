@@ -0,0 +1,80 @@
+import type { Request } from 'express';
+import { ATTRIBUTION_COOKIES } from '../src/types/tracking';
+import type { AttributionData, UserData } from '../src/types/tracking';
+import { getClientIp, isRecord } from './utils';
+
+// Click IDs for events raised by server routes (checkout, purchase). The browser keeps
+// them in first-party cookies (src/lib/attribution.ts), which same-origin requests carry.
+// Cross-origin calls need `credentials: 'include'` and an origin in ALLOWED_ORIGINS.
+
+const CLICK_ID_PARAMS = ['gclid', 'gbraid', 'wbraid', 'ttclid'] as const;
+
+const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+export interface RequestAttribution {
+  attribution: AttributionData | undefined; // undefined when no cookie was set
+  browserIds: Pick<UserData, 'fbc' | 'fbp'>;
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator < 1) continue;
+    try {
+      cookies[part.slice(0, separator).trim()] = decodeURIComponent(part.slice(separator + 1).trim());
+    } catch {
+      // Malformed escape sequence - skip the cookie
+    }
+  }
+  return cookies;
+}
+
+function parseUtm(value: string | undefined): Partial<Record<(typeof UTM_PARAMS)[number], string>> {
+  if (!value) return {};
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!isRecord(parsed)) return {};
+    return Object.fromEntries(UTM_PARAMS.flatMap(param => {
+      const utm = parsed[param];
+      return typeof utm === 'string' ? [[param, utm]] : [];
+    }));
+  } catch {
+    return {};
+  }
+}
+
+// Click IDs, UTMs and Meta browser IDs from the request's cookies
+export function getRequestAttribution(req: Request): RequestAttribution {
+  const cookies = parseCookies(req.headers.cookie);
+
+  const attribution: AttributionData = parseUtm(cookies[ATTRIBUTION_COOKIES.utm]);
+  for (const param of CLICK_ID_PARAMS) {
+    const value = cookies[ATTRIBUTION_COOKIES[param]];
+    if (value) attribution[param] = value;
+  }
+
+  const browserIds: Pick<UserData, 'fbc' | 'fbp'> = {};
+  const fbc = cookies[ATTRIBUTION_COOKIES.fbc];
+  const fbp = cookies[ATTRIBUTION_COOKIES.fbp];
+  if (fbc) browserIds.fbc = fbc;
+  if (fbp) browserIds.fbp = fbp;
+
+  return {
+    attribution: Object.keys(attribution).length > 0 ? attribution : undefined,
+    browserIds
+  };
+}
+
+// User of a business-route request: the route's user data plus the browser's Meta IDs,
+// IP address and user agent
+export function getRequestUser(req: Request, userData: UserData, browserIds: RequestAttribution['browserIds']): UserData {
+  return {
+    ...browserIds,
+    ...userData,
+    ip_address: getClientIp(req),
+    user_agent: req.headers['user-agent'] || 'Unknown'
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { AddToCartEvent, TrackingEvent, ViewItemEvent } from '../src/types/tracking';
+import { BotFilter, createBotFilter } from './bot-filter';
+import type { FilterRequest } from './bot-filter';
+
+const CHROME = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36';
+
+const viewItem: ViewItemEvent = {
+  event_name: 'view_item',
+  event_id: 'evt-1',
+  currency: 'PHP',
+  value: 99.99,
+  items: [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }]
+};
+
+function addToCart(timestamp: number): AddToCartEvent {
+  return { ...viewItem, event_name: 'add_to_cart', event_id: `evt-${timestamp}`, timestamp };
+}
+
+function from(event: TrackingEvent, overrides: Partial<FilterRequest> = {}): FilterRequest {
+  return { event, clientId: 'client-123', ip: '203.0.113.7', userAgent: CHROME, ...overrides };
+}
+
+describe('BotFilter', () => {
+  it('should allow regular browser events', () => {
+    expect(new BotFilter().check(from(viewItem))).toEqual({ allowed: true });
+  });
+
+  it('should filter crawlers, headless browsers and missing user agents', () => {
+    const filter = new BotFilter();
+
+    expect(filter.check(from(viewItem, { userAgent: 'Mozilla/5.0 (compatible; bingbot/2.0)' }))).toEqual({
+      allowed: false,
+      reason: 'bot_user_agent'
+    });
+    expect(filter.check(from(viewItem, { userAgent: 'Mozilla/5.0 (X11; Linux x86_64) HeadlessChrome/126.0' })).allowed).toBe(false);
+    expect(filter.check(from(viewItem, { userAgent: undefined }))).toEqual({ allowed: false, reason: 'missing_user_agent' });
+  });
+
+  it('should rate limit per IP and per client_id within the window', () => {
+    const filter = new BotFilter({ maxPerIp: 3, maxPerClient: 2, windowMs: 1000 });
+
+    expect(filter.check(from(viewItem), 0).allowed).toBe(true);
+    expect(filter.check(from(viewItem), 10).allowed).toBe(true);
+    expect(filter.check(from(viewItem), 20)).toEqual({ allowed: false, reason: 'client_rate_limit' });
+    expect(filter.check(from(viewItem, { clientId: 'client-456' }), 30)).toEqual({ allowed: false, reason: 'ip_rate_limit' });
+
+    // A new window starts over
+    expect(filter.check(from(viewItem), 1000).allowed).toBe(true);
+  });
+
+  it('should filter impossibly fast add_to_cart bursts by receive time', () => {
+    const filter = new BotFilter({ burstLimit: 3, burstWindowMs: 1000 });
+
+    // Client timestamps spaced a minute apart do not hide the burst
+    const verdicts = [0, 100, 200, 300].map(time => filter.check(from(addToCart(time * 600)), time));
+
+    expect(verdicts.map(verdict => verdict.allowed)).toEqual([true, true, true, false]);
+    expect(filter.check(from(addToCart(5000)), 5000).allowed).toBe(true);
+  });
+
+  it('should let queued add_to_cart events replayed together through', () => {
+    const filter = new BotFilter();
+
+    // Six clicks a few seconds apart, held by the offline queue and replayed at once
+    const verdicts = [0, 3000, 6000, 9000, 12000, 15000].map(time => filter.check(from(addToCart(time)), 60_000));
+
+    expect(verdicts.every(verdict => verdict.allowed)).toBe(true);
+  });
+
+  it('should count filtered events per reason', () => {
+    const filter = new BotFilter();
+    filter.check(from(viewItem, { userAgent: 'curl/8.4.0' }));
+    filter.check(from(viewItem, { userAgent: '' }));
+
+    expect(filter.counts()).toMatchObject({ bot_user_agent: 1, missing_user_agent: 1, ip_rate_limit: 0 });
+  });
+});
+
+describe('createBotFilter', () => {
+  it('should be on unless BOT_FILTER=off', () => {
+    expect(createBotFilter({})).toBeInstanceOf(BotFilter);
+    expect(createBotFilter({ BOT_FILTER: 'off' })).toBeNull();
+  });
+});
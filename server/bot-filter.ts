@@ -0,0 +1,149 @@
+import { isbot } from 'isbot';
+import type { TrackingEvent } from '../src/types/tracking';
+
+// Filtering stage in front of the destinations for /api/track. Crawlers, headless
+// browsers and scripted floods would otherwise reach the ad platforms and skew their
+// optimization; their events are counted and dropped instead.
+
+export type FilterReason =
+  | 'missing_user_agent'
+  | 'bot_user_agent'
+  | 'ip_rate_limit'
+  | 'client_rate_limit'
+  | 'add_to_cart_burst';
+
+export interface FilterRequest {
+  event: TrackingEvent;
+  clientId: string | undefined;
+  ip: string;
+  userAgent: string | undefined;
+}
+
+export type FilterVerdict = { allowed: true } | { allowed: false; reason: FilterReason };
+
+export interface BotFilterConfig {
+  windowMs?: number; // rate limit window
+  maxPerIp?: number; // events per IP per window - offices and mobile carriers share IPs
+  maxPerClient?: number; // events per client_id per window
+  burstLimit?: number; // add_to_cart events one client can raise within burstWindowMs
+  burstWindowMs?: number;
+}
+
+interface RateWindow {
+  start: number;
+  count: number;
+}
+
+export class BotFilter {
+  private readonly windowMs: number;
+  private readonly maxPerIp: number;
+  private readonly maxPerClient: number;
+  private readonly burstLimit: number;
+  private readonly burstWindowMs: number;
+  private ipWindows = new Map<string, RateWindow>();
+  private clientWindows = new Map<string, RateWindow>();
+  // client_id -> receive times of its recent add_to_cart events
+  private cartTimes = new Map<string, number[]>();
+  private lastPrune = 0;
+  private filtered: Record<FilterReason, number> = {
+    missing_user_agent: 0,
+    bot_user_agent: 0,
+    ip_rate_limit: 0,
+    client_rate_limit: 0,
+    add_to_cart_burst: 0
+  };
+
+  constructor(config: BotFilterConfig = {}) {
+    this.windowMs = config.windowMs ?? 60 * 1000;
+    this.maxPerIp = config.maxPerIp ?? 300;
+    this.maxPerClient = config.maxPerClient ?? 120;
+    this.burstLimit = config.burstLimit ?? 5;
+    this.burstWindowMs = config.burstWindowMs ?? 2000;
+  }
+
+  // Every event counts towards the rate limits, filtered ones included, so a flood
+  // stays limited for the rest of the window
+  check(request: FilterRequest, now: number = Date.now()): FilterVerdict {
+    this.prune(now);
+
+    const reason = this.findReason(request, now);
+    if (!reason) return { allowed: true };
+
+    this.filtered[reason] += 1;
+    return { allowed: false, reason };
+  }
+
+  // Filtered events per reason since startup
+  counts(): Record<FilterReason, number> {
+    return { ...this.filtered };
+  }
+
+  private findReason(request: FilterRequest, now: number): FilterReason | undefined {
+    if (!request.userAgent) return 'missing_user_agent';
+    if (isbot(request.userAgent)) return 'bot_user_agent';
+
+    const ipCount = this.hit(this.ipWindows, request.ip, now);
+    const clientCount = request.clientId ? this.hit(this.clientWindows, request.clientId, now) : 0;
+    if (ipCount > this.maxPerIp) return 'ip_rate_limit';
+    if (clientCount > this.maxPerClient) return 'client_rate_limit';
+
+    const { event, clientId } = request;
+    if (event.event_name === 'add_to_cart' && clientId && !this.isReplay(event, now) && this.isCartBurst(clientId, now)) {
+      return 'add_to_cart_burst';
+    }
+    return undefined;
+  }
+
+  // Count a hit in the key's current window and return the window's total
+  private hit(windows: Map<string, RateWindow>, key: string, now: number): number {
+    const window = windows.get(key);
+    if (!window || now - window.start >= this.windowMs) {
+      windows.set(key, { start: now, count: 1 });
+      return 1;
+    }
+    window.count += 1;
+    return window.count;
+  }
+
+  // Events raised before the burst window are replays - the offline queue, a batch flush
+  // or a pagehide beacon delivering genuine clicks together. They still count towards
+  // the rate limits.
+  private isReplay(event: TrackingEvent, now: number): boolean {
+    return event.timestamp !== undefined && event.timestamp <= now - this.burstWindowMs;
+  }
+
+  // Compared by receive time - event timestamps come from the client and can be spaced out
+  private isCartBurst(clientId: string, time: number): boolean {
+    const times = this.cartTimes.get(clientId) || [];
+
+    const nearby = times.filter(other => Math.abs(other - time) < this.burstWindowMs).length;
+    times.push(time);
+    this.cartTimes.set(clientId, times.slice(-this.burstLimit * 4));
+
+    return nearby >= this.burstLimit;
+  }
+
+  // Forget windows and burst history that can no longer matter
+  private prune(now: number): void {
+    if (now - this.lastPrune < this.windowMs) return;
+    this.lastPrune = now;
+
+    for (const windows of [this.ipWindows, this.clientWindows]) {
+      for (const [key, window] of windows) {
+        if (now - window.start >= this.windowMs) windows.delete(key);
+      }
+    }
+    this.cartTimes.clear();
+  }
+}
+
+// Enabled unless BOT_FILTER=off. Limits come from BOT_FILTER_MAX_PER_IP and
+// BOT_FILTER_MAX_PER_CLIENT (events per minute).
+export function createBotFilter(env: NodeJS.ProcessEnv = process.env): BotFilter | null {
+  if (env.BOT_FILTER === 'off') return null;
+
+  const config: BotFilterConfig = {};
+  if (Number(env.BOT_FILTER_MAX_PER_IP) > 0) config.maxPerIp = Number(env.BOT_FILTER_MAX_PER_IP);
+  if (Number(env.BOT_FILTER_MAX_PER_CLIENT) > 0) config.maxPerClient = Number(env.BOT_FILTER_MAX_PER_CLIENT);
+  return new BotFilter(config);
+}
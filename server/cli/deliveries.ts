@@ -0,0 +1,69 @@
+import dotenv from 'dotenv';
+import type { DeadLetter, DeliveryJob } from '../delivery-queue';
+
+// Inspect and redrive the delivery queue of a running server through its admin API.
+//
+//   npm run deliveries -- list
+//   npm run deliveries -- redrive [jobId...]
+//   npm run deliveries -- purge [jobId...]
+//
+// Uses SERVER_URL (default http://localhost:3001) and ADMIN_TOKEN from the environment.
+
+dotenv.config();
+
+const SERVER_URL = process.env.SERVER_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+async function callAdmin(method: string, path: string, body?: unknown): Promise<unknown> {
+  const response = await fetch(`${SERVER_URL}/api/admin${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.ADMIN_TOKEN || ''}`
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) })
+  });
+
+  const result: unknown = await response.json();
+  if (!response.ok) {
+    throw new Error((result as { error?: string }).error || `Status ${response.status}`);
+  }
+  return result;
+}
+
+function describeJob(job: DeliveryJob | DeadLetter): string {
+  const status = job.lastStatus !== undefined ? ` [${job.lastStatus}]` : '';
+  return `${job.id}  ${job.destination.padEnd(8)} attempts=${job.attempts}  events=${job.eventIds.join(',')}${status}  ${job.lastError || ''}`;
+}
+
+async function main(): Promise<void> {
+  const [command = 'list', ...ids] = process.argv.slice(2);
+  const selection = ids.length > 0 ? { ids } : {};
+
+  switch (command) {
+    case 'list': {
+      const { pending, deadLetters } = await callAdmin('GET', '/deliveries') as {
+        pending: DeliveryJob[];
+        deadLetters: DeadLetter[];
+      };
+      console.log(`📬 Pending (${pending.length})`);
+      pending.forEach(job => console.log(`   ${describeJob(job)}  next=${new Date(job.nextAttemptAt).toISOString()}`));
+      console.log(`☠️ Dead letters (${deadLetters.length})`);
+      deadLetters.forEach(job => console.log(`   ${describeJob(job)}`));
+      break;
+    }
+    case 'redrive':
+      console.log('🔁 Redrive:', await callAdmin('POST', '/deliveries/redrive', selection));
+      break;
+    case 'purge':
+      console.log('🗑️ Purge:', await callAdmin('DELETE', '/deliveries/dead-letters', selection));
+      break;
+    default:
+      console.error(`Unknown command '${command}'. Use list, redrive [jobId...] or purge [jobId...].`);
+      process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
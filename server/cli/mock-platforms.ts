@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+import { MockPlatforms, createMockPlatformsApp } from '../mock-platforms';
+
+// Run the mock ad platforms on their own port, for end-to-end runs without live credentials.
+//
+//   npm run mock-platforms
+//
+// Uses MOCK_PLATFORMS_PORT (default 4001). MOCK_PLATFORMS_STRICT=true rejects invalid
+// GA4 payloads instead of answering 204 like the real endpoint.
+
+dotenv.config();
+
+const PORT = Number(process.env.MOCK_PLATFORMS_PORT) || 4001;
+const baseUrl = `http://localhost:${PORT}`;
+
+const mock = new MockPlatforms({ strict: process.env.MOCK_PLATFORMS_STRICT === 'true' });
+
+createMockPlatformsApp(mock).listen(PORT, () => {
+  console.log(`\n🧪 Mock ad platforms running on ${baseUrl}`);
+  console.log('\nStart the tracking server with:');
+  console.log(`   GA4_BASE_URL=${baseUrl}/ga4`);
+  console.log(`   META_BASE_URL=${baseUrl}/meta`);
+  console.log(`   TIKTOK_BASE_URL=${baseUrl}/tiktok`);
+  console.log(`\nRecorded requests: GET ${baseUrl}/_mock/requests`);
+});
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { summarizeResults } from '../pipeline';
+import type { ImportReport, ImportRowReport } from '../offline-conversions';
+
+// Import offline conversions (phone and cash-on-delivery orders) through the admin API
+// of a running server, so they share its delivery queue, event log and deduplication.
+//
+//   npm run offline-conversions -- orders.csv --dry-run
+//   npm run offline-conversions -- orders.ndjson --action-source physical_store
+//
+// The format follows the extension (.csv, .ndjson or .jsonl) unless --format is given.
+// Uses SERVER_URL (default http://localhost:3001) and ADMIN_TOKEN from the environment.
+
+dotenv.config();
+
+const SERVER_URL = process.env.SERVER_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+const CONTENT_TYPES = { csv: 'text/csv', ndjson: 'application/x-ndjson' } as const;
+
+interface Arguments {
+  file: string | undefined;
+  format: keyof typeof CONTENT_TYPES | undefined;
+  dryRun: boolean;
+  actionSource: string | undefined;
+}
+
+function parseArguments(args: string[]): Arguments {
+  const parsed: Arguments = { file: undefined, format: undefined, dryRun: false, actionSource: undefined };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dry-run') parsed.dryRun = true;
+    else if (arg === '--action-source') parsed.actionSource = args[++i];
+    else if (arg === '--format') parsed.format = args[++i] === 'csv' ? 'csv' : 'ndjson';
+    else parsed.file = arg;
+  }
+  if (!parsed.format && parsed.file) {
+    parsed.format = path.extname(parsed.file).toLowerCase() === '.csv' ? 'csv' : 'ndjson';
+  }
+  return parsed;
+}
+
+function describeRow(row: ImportRowReport): string {
+  const order = `line ${row.line}  ${(row.transaction_id || '-').padEnd(14)}`;
+  if (row.errors) return `${order} ${row.errors.map(error => `${error.path || 'row'} ${error.message}`).join('; ')}`;
+
+  const results = row.results ? `  ${JSON.stringify(summarizeResults(row.results))}` : '';
+  return `${order} ${row.currency} ${row.value}  ${row.action_source}  match=${row.match_keys?.join(',')}${results}`;
+}
+
+async function main(): Promise<void> {
+  const { file, format, dryRun, actionSource } = parseArguments(process.argv.slice(2));
+  if (!file || !format) {
+    console.error('Usage: npm run offline-conversions -- <orders.csv|orders.ndjson> [--dry-run] [--action-source physical_store|system_generated] [--format csv|ndjson]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const query = new URLSearchParams({ format });
+  if (dryRun) query.set('dry_run', 'true');
+  if (actionSource) query.set('action_source', actionSource);
+
+  const response = await fetch(`${SERVER_URL}/api/admin/offline-conversions?${query}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      Authorization: `Bearer ${process.env.ADMIN_TOKEN || ''}`
+    },
+    body: await fs.promises.readFile(file, 'utf8')
+  });
+
+  const result: unknown = await response.json();
+  if (!response.ok) {
+    throw new Error((result as { error?: string }).error || `Status ${response.status}`);
+  }
+
+  const report = result as ImportReport;
+  const groups: [string, ImportRowReport['status']][] = [
+    ['❌ Invalid', 'invalid'],
+    [dryRun ? '✅ Valid (not sent)' : '✅ Sent', dryRun ? 'valid' : 'sent'],
+    ['⚠️ Failed', 'failed'],
+    ['♻️ Already imported', 'duplicate']
+  ];
+  for (const [title, status] of groups) {
+    const rows = report.rows.filter(row => row.status === status);
+    if (rows.length === 0) continue;
+    console.log(`${title} (${rows.length})`);
+    rows.forEach(row => console.log(`   ${describeRow(row)}`));
+  }
+  console.log(
+    `\n📥 ${report.total} rows | ${report.valid} valid | ${report.invalid} invalid` +
+    (report.dryRun ? ' | dry run, nothing sent' : ` | ${report.sent} sent | ${report.failed} failed | ${report.duplicates} duplicates`)
+  );
+  if (report.skippedDestinations.length > 0) {
+    console.log(`⏭️ Not sent to ${report.skippedDestinations.join(', ')} - no offline events there`);
+  }
+  if (report.invalid > 0 || report.failed > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
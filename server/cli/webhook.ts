@@ -0,0 +1,53 @@
+import dotenv from 'dotenv';
+import { getPaymentProvider, getPaymentProviders } from '../payment-providers';
+import { listFixtures, loadFixture } from '../payment-providers/fixtures';
+
+// Replay a recorded payment webhook against a running server, signed with the provider's
+// secret from .env - for trying the webhook flow without the provider.
+//
+//   npm run webhook -- generic payment-succeeded --order ORDER-123
+//   npm run webhook -- generic                     lists the provider's fixtures
+//
+// Call /api/checkout with the same orderId first to see the purchase stitched to that
+// browser session. Uses SERVER_URL (default http://localhost:3001).
+
+dotenv.config();
+
+const SERVER_URL = process.env.SERVER_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const orderFlag = args.indexOf('--order');
+  const orderId = orderFlag >= 0 ? args.splice(orderFlag, 2)[1] : `ORDER-${Date.now()}`;
+  const [providerName, fixture] = args;
+
+  const provider = providerName ? getPaymentProvider(providerName) : undefined;
+  if (!provider) {
+    const names = getPaymentProviders().map(known => known.name).join(', ');
+    console.error(`Usage: npm run webhook -- <provider> <fixture> [--order ORDER-ID]. Providers: ${names}`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!fixture) {
+    console.log(`📂 ${provider.label} fixtures: ${listFixtures(provider.name).join(', ')}`);
+    return;
+  }
+  if (!provider.isConfigured()) {
+    throw new Error(`Set ${provider.requiredEnv.join(' & ')} to sign ${provider.label} webhooks`);
+  }
+
+  const body = loadFixture(provider.name, fixture, orderId);
+  const response = await fetch(`${SERVER_URL}/api/webhooks/${provider.name}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...provider.sign(body) },
+    body
+  });
+
+  console.log(`💳 ${provider.label} ${fixture} for ${orderId}: ${response.status}`, await response.json());
+  if (!response.ok) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
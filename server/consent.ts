@@ -0,0 +1,46 @@
+import type { ConsentState, UserData } from '../src/types/tracking';
+import type { Destination, DestinationResult } from './types';
+
+// Result reported for a destination the user did not consent to
+export const NO_CONSENT: DestinationResult = { success: false, skipped: true, error: 'No consent' };
+
+// Server-side orders with no browser choice on record (e.g. a payment webhook without
+// its checkout session): measured in analytics, kept away from the ad platforms
+export const UNKNOWN_CONSENT: ConsentState = {
+  analytics: true,
+  ads: false,
+  ad_user_data: false,
+  ad_personalization: false
+};
+
+// Payloads without consent (consent management disabled on the client) are treated
+// as fully granted. Analytics destinations need `analytics`, ad platforms need `ads`.
+export function allowsDestination(destination: Destination, consent?: ConsentState): boolean {
+  if (!consent) return true;
+  return destination.consentPurpose === 'analytics' ? consent.analytics : consent.ads;
+}
+
+// Everything that identifies a person, as opposed to a browser or a click
+const PERSONAL_FIELDS = [
+  'user_id',
+  'email',
+  'phone',
+  'first_name',
+  'last_name',
+  'date_of_birth',
+  'gender',
+  'street',
+  'city',
+  'state',
+  'zip_code',
+  'country'
+] as const satisfies readonly (keyof UserData)[];
+
+// Without ad_user_data consent, ad platforms must not receive PII or user IDs
+export function prepareUser(destination: Destination, user: UserData, consent?: ConsentState): UserData {
+  if (!consent || consent.ad_user_data || destination.consentPurpose !== 'ads') return user;
+
+  const stripped = { ...user };
+  for (const field of PERSONAL_FIELDS) delete stripped[field];
+  return stripped;
+}
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { FileDedupStore, MemoryDedupStore, createDedupStore, releaseIfUndelivered } from './dedup';
+
+describe('MemoryDedupStore', () => {
+  it('should claim an event_id only once within the TTL', async () => {
+    const store = new MemoryDedupStore({ ttlMs: 1000 });
+
+    expect(await store.claim('evt-1', 0)).toBe(true);
+    expect(await store.claim('evt-1', 500)).toBe(false);
+    expect(await store.claim('evt-2', 500)).toBe(true);
+  });
+
+  it('should accept the event_id again after the TTL', async () => {
+    const store = new MemoryDedupStore({ ttlMs: 1000 });
+    await store.claim('evt-1', 0);
+
+    expect(await store.claim('evt-1', 1000)).toBe(true);
+    expect(store.size()).toBe(1);
+  });
+
+  it('should forget released event_ids', async () => {
+    const store = new MemoryDedupStore();
+    await store.claim('evt-1');
+    await store.release('evt-1');
+
+    expect(await store.claim('evt-1')).toBe(true);
+  });
+
+  it('should forget the oldest event_ids beyond maxEntries', async () => {
+    const store = new MemoryDedupStore({ maxEntries: 2 });
+    await store.claim('evt-1', 0);
+    await store.claim('evt-2', 1);
+    await store.claim('evt-3', 2);
+    await store.claim('evt-4', 3);
+
+    expect(store.size()).toBe(2);
+    expect(await store.claim('evt-1', 4)).toBe(true);
+  });
+});
+
+describe('FileDedupStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dedup-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should remember event_ids across restarts', async () => {
+    const filePath = path.join(dir, 'nested', 'dedup.json');
+    const store = new FileDedupStore(filePath);
+    await store.claim('evt-1');
+    await store.flush();
+
+    const restarted = new FileDedupStore(filePath);
+    expect(await restarted.claim('evt-1')).toBe(false);
+    expect(await restarted.claim('evt-2')).toBe(true);
+    await restarted.flush();
+  });
+
+  it('should start empty when the file is corrupt', async () => {
+    const filePath = path.join(dir, 'dedup.json');
+    fs.writeFileSync(filePath, '{not json');
+
+    expect(new FileDedupStore(filePath).size()).toBe(0);
+  });
+});
+
+describe('createDedupStore', () => {
+  it('should default to the in-memory store', () => {
+    expect(createDedupStore({})).toBeInstanceOf(MemoryDedupStore);
+    expect(createDedupStore({})).not.toBeInstanceOf(FileDedupStore);
+  });
+
+  it('should use the file store when configured', () => {
+    const store = createDedupStore({ DEDUP_STORE: 'file', DEDUP_FILE: path.join(os.tmpdir(), 'dedup-test-unused.json') });
+
+    expect(store).toBeInstanceOf(FileDedupStore);
+  });
+});
+
+describe('releaseIfUndelivered', () => {
+  it('should release only when no destination succeeded', async () => {
+    const store = new MemoryDedupStore();
+    await store.claim('evt-1');
+    await store.claim('evt-2');
+
+    await releaseIfUndelivered(store, 'evt-1', { ga4: { success: true }, meta: { success: false } });
+    await releaseIfUndelivered(store, 'evt-2', { ga4: { success: false }, meta: { success: false } });
+
+    expect(await store.claim('evt-1')).toBe(false);
+    expect(await store.claim('evt-2')).toBe(true);
+  });
+});
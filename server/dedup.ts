@@ -0,0 +1,112 @@
+import { JsonFileWriter, readJsonFile } from './json-file';
+import type { DispatchResults } from './types';
+
+// event_id deduplication. Retries, double-clicks and offline-queue replays carry the
+// same event_id; only the first copy within the TTL is sent to the destinations.
+
+// Meta deduplicates browser and server events over 48h - match that by default
+export const DEFAULT_DEDUP_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Backend for seen event IDs. Implementations must make claim() atomic per event_id.
+export interface DedupStore {
+  // Mark an event_id as seen. Resolves false when it was already seen within the TTL.
+  claim(eventId: string, now?: number): Promise<boolean>;
+  // Forget an event_id so a retry can be sent (e.g. every destination failed)
+  release(eventId: string): Promise<void>;
+}
+
+export interface DedupStoreConfig {
+  ttlMs?: number;
+  maxEntries?: number; // oldest IDs are forgotten beyond this
+}
+
+// TTL-based in-memory store. Seen IDs are lost on restart.
+export class MemoryDedupStore implements DedupStore {
+  protected readonly ttlMs: number;
+  protected readonly maxEntries: number;
+  // event_id -> expiry time, in insertion (= claim) order
+  protected entries = new Map<string, number>();
+
+  constructor(config: DedupStoreConfig = {}) {
+    this.ttlMs = config.ttlMs ?? DEFAULT_DEDUP_TTL_MS;
+    this.maxEntries = config.maxEntries ?? 100_000;
+  }
+
+  async claim(eventId: string, now: number = Date.now()): Promise<boolean> {
+    this.prune(now);
+
+    const expiresAt = this.entries.get(eventId);
+    if (expiresAt !== undefined && expiresAt > now) return false;
+
+    this.entries.delete(eventId);
+    this.entries.set(eventId, now + this.ttlMs);
+    this.prune(now);
+    this.onChange();
+    return true;
+  }
+
+  async release(eventId: string): Promise<void> {
+    if (this.entries.delete(eventId)) this.onChange();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  // Hook for persistent subclasses
+  protected onChange(): void {}
+
+  // Drop expired IDs and enforce the size cap. Entries are in claim order, so
+  // expired ones are always at the front.
+  protected prune(now: number): void {
+    for (const [eventId, expiresAt] of this.entries) {
+      if (expiresAt > now && this.entries.size <= this.maxEntries) break;
+      this.entries.delete(eventId);
+    }
+  }
+}
+
+function isEntryList(value: unknown): value is [string, number][] {
+  return Array.isArray(value) && value.every(entry =>
+    Array.isArray(entry) && typeof entry[0] === 'string' && typeof entry[1] === 'number'
+  );
+}
+
+// In-memory store mirrored to a JSON file, so deduplication survives restarts
+export class FileDedupStore extends MemoryDedupStore {
+  private readonly writer: JsonFileWriter;
+
+  constructor(filePath: string, config: DedupStoreConfig = {}) {
+    super(config);
+    this.writer = new JsonFileWriter(filePath);
+    this.entries = new Map(readJsonFile(filePath, isEntryList, []));
+    this.prune(Date.now());
+  }
+
+  // Resolves once pending writes reached the file
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  protected override onChange(): void {
+    this.writer.write([...this.entries]);
+  }
+}
+
+// Let a retry through when no destination accepted the event or queued it for redelivery
+export async function releaseIfUndelivered(store: DedupStore, eventId: string, results: DispatchResults): Promise<void> {
+  if (!Object.values(results).some(result => result.success || result.queued)) {
+    await store.release(eventId);
+  }
+}
+
+// Store selected by environment: DEDUP_STORE=memory (default) or file (DEDUP_FILE),
+// DEDUP_TTL_MS for the window
+export function createDedupStore(env: NodeJS.ProcessEnv = process.env): DedupStore {
+  const ttlMs = env.DEDUP_TTL_MS ? Number(env.DEDUP_TTL_MS) : DEFAULT_DEDUP_TTL_MS;
+
+  if (env.DEDUP_STORE === 'file') {
+    return new FileDedupStore(env.DEDUP_FILE || 'data/dedup.json', { ttlMs });
+  }
+  return new MemoryDedupStore({ ttlMs });
+}
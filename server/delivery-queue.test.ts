@@ -0,0 +1,167 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DeliveryQueue, getRetryDelay, isRetryable } from './delivery-queue';
+import { MemoryEventLog } from './event-log';
+import type { Destination, DestinationResult } from './types';
+
+function createDestination(results: DestinationResult[]): Destination & { send: ReturnType<typeof vi.fn> } {
+  const send = vi.fn(async () => results.shift() || { success: true });
+  return {
+    name: 'test',
+    label: 'Test',
+    consentPurpose: 'ads',
+    requiredEnv: [],
+    isConfigured: () => true,
+    transform: () => ({}),
+    send
+  };
+}
+
+const SERVER_ERROR: DestinationResult = { success: false, status: 503, error: 'Status 503' };
+
+describe('isRetryable', () => {
+  it('should retry network errors, 5xx and 429 only', () => {
+    expect(isRetryable({ success: false, error: 'fetch failed' })).toBe(true);
+    expect(isRetryable(SERVER_ERROR)).toBe(true);
+    expect(isRetryable({ success: false, status: 429 })).toBe(true);
+    expect(isRetryable({ success: false, status: 400 })).toBe(false);
+    expect(isRetryable({ success: false, skipped: true })).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should jitter the exponential backoff between 50% and 100%', () => {
+    expect(getRetryDelay(3, 1000, 60000, 0, () => 0)).toBe(2000);
+    expect(getRetryDelay(3, 1000, 60000, 0, () => 1)).toBe(4000);
+  });
+
+  it('should wait at least the Retry-After delay', () => {
+    expect(getRetryDelay(1, 1000, 60000, 30000, () => 1)).toBe(30000);
+  });
+});
+
+describe('DeliveryQueue', () => {
+  let destination: ReturnType<typeof createDestination>;
+
+  beforeEach(() => {
+    destination = createDestination([]);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createQueue(maxAttempts = 3) {
+    return new DeliveryQueue({ maxAttempts, baseDelayMs: 1000, resolveDestination: () => destination });
+  }
+
+  it('should queue retryable failures', () => {
+    const queue = createQueue();
+
+    const result = queue.add('test', { data: 1 }, ['evt-1'], SERVER_ERROR, 0);
+
+    expect(result).toEqual({ ...SERVER_ERROR, queued: true });
+    expect(queue.pending()[0]).toMatchObject({ destination: 'test', eventIds: ['evt-1'], attempts: 1, lastStatus: 503 });
+  });
+
+  it('should dead-letter failures that will not succeed on retry', () => {
+    const queue = createQueue();
+
+    const result = queue.add('test', {}, ['evt-1'], { success: false, status: 400, error: 'Bad request' }, 0);
+
+    expect(result.deadLettered).toBe(true);
+    expect(queue.pending()).toHaveLength(0);
+    expect(queue.deadLetters()[0]).toMatchObject({ lastError: 'Bad request', deadLetteredAt: 0 });
+  });
+
+  it('should respect Retry-After on 429', () => {
+    const queue = createQueue();
+
+    queue.add('test', {}, ['evt-1'], { success: false, status: 429, retryAfterMs: 60000 }, 0);
+
+    expect(queue.pending()[0].nextAttemptAt).toBe(60000);
+  });
+
+  it('should resend due jobs and drop them once delivered', async () => {
+    const queue = createQueue();
+    queue.add('test', { data: 1 }, ['evt-1'], SERVER_ERROR, 0);
+
+    expect(await queue.process(500)).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+    expect(await queue.process(1000)).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+    expect(destination.send).toHaveBeenCalledWith({ data: 1 });
+    expect(queue.pending()).toHaveLength(0);
+  });
+
+  it('should record retries in the event log', async () => {
+    const eventLog = new MemoryEventLog();
+    const queue = new DeliveryQueue({ baseDelayMs: 1000, resolveDestination: () => destination, eventLog });
+    queue.add('test', { data: 1 }, ['evt-1'], SERVER_ERROR, 0);
+
+    await queue.process(1000);
+
+    expect(await eventLog.records()).toEqual([{
+      type: 'delivery',
+      at: 1000,
+      destination: 'test',
+      event_ids: ['evt-1'],
+      attempt: 2,
+      payload: { data: 1 },
+      result: { success: true }
+    }]);
+  });
+
+  it('should dead-letter jobs after maxAttempts failures', async () => {
+    destination = createDestination([SERVER_ERROR, SERVER_ERROR]);
+    const queue = createQueue(3);
+    queue.add('test', {}, ['evt-1'], SERVER_ERROR, 0);
+
+    expect(await queue.process(1000)).toMatchObject({ retried: 1 });
+    expect(await queue.process(10000)).toMatchObject({ deadLettered: 1 });
+    expect(queue.deadLetters()[0].attempts).toBe(3);
+  });
+
+  it('should redrive dead letters with fresh attempts', () => {
+    const queue = createQueue();
+    queue.add('test', {}, ['evt-1'], { success: false, status: 401 }, 0);
+    queue.add('test', {}, ['evt-2'], { success: false, status: 401 }, 0);
+    const [first] = queue.deadLetters();
+
+    const jobs = queue.redrive([first.id], 5000);
+
+    expect(jobs).toHaveLength(1);
+    expect(queue.pending()[0]).toMatchObject({ id: first.id, attempts: 0, nextAttemptAt: 5000 });
+    expect(queue.pending()[0]).not.toHaveProperty('deadLetteredAt');
+    expect(queue.deadLetters()).toHaveLength(1);
+  });
+
+  it('should purge dead letters', () => {
+    const queue = createQueue();
+    queue.add('test', {}, ['evt-1'], { success: false, status: 401 }, 0);
+    queue.add('test', {}, ['evt-2'], { success: false, status: 401 }, 0);
+
+    expect(queue.purge()).toBe(2);
+    expect(queue.deadLetters()).toHaveLength(0);
+  });
+
+  it('should persist jobs across restarts', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'delivery-queue-'));
+    const filePath = path.join(dir, 'queue.json');
+
+    try {
+      const queue = new DeliveryQueue({ filePath });
+      queue.add('test', { data: 1 }, ['evt-1'], SERVER_ERROR);
+      queue.add('test', {}, ['evt-2'], { success: false, status: 400 });
+      await queue.flush();
+
+      const restarted = new DeliveryQueue({ filePath });
+      expect(restarted.pending()[0].payload).toEqual({ data: 1 });
+      expect(restarted.deadLetters()[0].eventIds).toEqual(['evt-2']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
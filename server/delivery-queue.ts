@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+import { getBackoffDelay } from '../src/lib/event-queue';
+import { getDestinations } from './destinations';
+import type { EventLog } from './event-log';
+import { JsonFileWriter, readJsonFile } from './json-file';
+import type { Destination, DestinationResult } from './types';
+
+// Outbound delivery queue. Payloads a destination failed to accept are retried with
+// exponential backoff and jitter; payloads that keep failing (or are rejected outright)
+// move to a dead-letter store where they can be inspected and redriven.
+
+export interface DeliveryQueueConfig {
+  filePath?: string; // persist pending jobs and dead letters here; memory only when absent
+  maxAttempts?: number; // dead-letter after this many failed attempts
+  baseDelayMs?: number; // first retry delay, doubled on every failure
+  maxDelayMs?: number; // upper bound for the retry delay
+  resolveDestination?: (name: string) => Destination | undefined;
+  eventLog?: EventLog | undefined; // records every retry
+}
+
+// One destination payload waiting to be (re)sent
+export interface DeliveryJob {
+  id: string;
+  destination: string; // Destination.name
+  payload: unknown; // already transformed for the destination
+  eventIds: string[]; // events in the payload (several for batch payloads)
+  attempts: number; // failed attempts so far, including the original send
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  lastStatus?: number;
+}
+
+// A job that ran out of attempts or was rejected as invalid
+export interface DeadLetter extends DeliveryJob {
+  deadLetteredAt: number;
+}
+
+// Summary of one processing run
+export interface DeliveryRun {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+interface QueueState {
+  pending: DeliveryJob[];
+  deadLetters: DeadLetter[];
+}
+
+const DEFAULT_CONFIG = {
+  maxAttempts: 8,
+  baseDelayMs: 5000,
+  maxDelayMs: 60 * 60 * 1000
+};
+
+// Network errors, 5xx and 429 are worth retrying; other failures will not fix themselves
+export function isRetryable(result: DestinationResult): boolean {
+  if (result.success || result.skipped) return false;
+  return result.status === undefined || result.status >= 500 || result.status === 429;
+}
+
+// Backoff with jitter (50-100% of the delay) so retries of many jobs spread out.
+// A Retry-After from the platform is a lower bound.
+export function getRetryDelay(
+  attempts: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  retryAfterMs = 0,
+  random: () => number = Math.random
+): number {
+  const delay = getBackoffDelay(attempts, baseDelayMs, maxDelayMs);
+  return Math.max(Math.round(delay * (0.5 + random() * 0.5)), retryAfterMs);
+}
+
+function isQueueState(value: unknown): value is QueueState {
+  const state = value as QueueState;
+  return typeof value === 'object' && value !== null && Array.isArray(state.pending) && Array.isArray(state.deadLetters);
+}
+
+export class DeliveryQueue {
+  private readonly config: typeof DEFAULT_CONFIG;
+  private readonly resolveDestination: (name: string) => Destination | undefined;
+  private readonly writer: JsonFileWriter | null;
+  private readonly eventLog: EventLog | undefined;
+  private state: QueueState;
+  private processing = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: DeliveryQueueConfig = {}) {
+    this.config = {
+      maxAttempts: config.maxAttempts ?? DEFAULT_CONFIG.maxAttempts,
+      baseDelayMs: config.baseDelayMs ?? DEFAULT_CONFIG.baseDelayMs,
+      maxDelayMs: config.maxDelayMs ?? DEFAULT_CONFIG.maxDelayMs
+    };
+    this.resolveDestination = config.resolveDestination ||
+      (name => getDestinations().find(destination => destination.name === name));
+    this.writer = config.filePath ? new JsonFileWriter(config.filePath) : null;
+    this.eventLog = config.eventLog;
+    this.state = config.filePath
+      ? readJsonFile(config.filePath, isQueueState, { pending: [], deadLetters: [] })
+      : { pending: [], deadLetters: [] };
+  }
+
+  // Take over a payload whose first send failed. Returns the result to report,
+  // marked as queued or dead-lettered.
+  add(
+    destination: string,
+    payload: unknown,
+    eventIds: string[],
+    result: DestinationResult,
+    now: number = Date.now()
+  ): DestinationResult {
+    const job: DeliveryJob = {
+      id: crypto.randomUUID(),
+      destination,
+      payload,
+      eventIds,
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now
+    };
+
+    const outcome = this.recordFailure(job, result, now);
+    this.persist();
+    return outcome === 'retry' ? { ...result, queued: true } : { ...result, deadLettered: true };
+  }
+
+  // Send every job whose retry time has come
+  async process(now: number = Date.now()): Promise<DeliveryRun> {
+    const run: DeliveryRun = { delivered: 0, retried: 0, deadLettered: 0 };
+    if (this.processing) return run;
+    this.processing = true;
+
+    try {
+      const due = this.state.pending.filter(job => job.nextAttemptAt <= now);
+      for (const job of due) {
+        const destination = this.resolveDestination(job.destination);
+        if (!destination || !destination.isConfigured()) continue;
+
+        let result: DestinationResult;
+        try {
+          result = await destination.send(job.payload);
+        } catch (error) {
+          result = { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+        this.eventLog?.append({
+          type: 'delivery',
+          at: now,
+          destination: job.destination,
+          event_ids: job.eventIds,
+          attempt: job.attempts + 1,
+          payload: job.payload,
+          result
+        });
+
+        this.state.pending = this.state.pending.filter(existing => existing.id !== job.id);
+        if (result.success) {
+          run.delivered += 1;
+          console.log(`✅ Redelivered to ${destination.label}: ${job.eventIds.join(', ')}`);
+        } else if (this.recordFailure(job, result, now) === 'retry') {
+          run.retried += 1;
+        } else {
+          run.deadLettered += 1;
+        }
+      }
+    } finally {
+      this.processing = false;
+      this.persist();
+    }
+
+    return run;
+  }
+
+  // Process due jobs periodically. The timer does not keep the process alive.
+  start(intervalMs = 5000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.process().catch(error => console.error('❌ Delivery queue error:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  pending(): DeliveryJob[] {
+    return [...this.state.pending];
+  }
+
+  deadLetters(): DeadLetter[] {
+    return [...this.state.deadLetters];
+  }
+
+  // Move dead letters (all, or the given IDs) back to the pending queue with fresh attempts
+  redrive(ids?: string[], now: number = Date.now()): DeliveryJob[] {
+    const selected = this.state.deadLetters.filter(job => !ids || ids.includes(job.id));
+    if (selected.length === 0) return [];
+
+    this.state.deadLetters = this.state.deadLetters.filter(job => !selected.includes(job));
+    const jobs = selected.map(letter => {
+      const job: DeliveryJob & Partial<DeadLetter> = { ...letter, attempts: 0, nextAttemptAt: now };
+      delete job.deadLetteredAt;
+      return job;
+    });
+    this.state.pending.push(...jobs);
+    this.persist();
+    return jobs;
+  }
+
+  // Delete dead letters (all, or the given IDs). Returns how many were removed.
+  purge(ids?: string[]): number {
+    const before = this.state.deadLetters.length;
+    this.state.deadLetters = this.state.deadLetters.filter(job => ids !== undefined && !ids.includes(job.id));
+    this.persist();
+    return before - this.state.deadLetters.length;
+  }
+
+  // Resolves once pending writes reached the file
+  flush(): Promise<void> {
+    return this.writer ? this.writer.flush() : Promise.resolve();
+  }
+
+  // Schedule the next attempt, or dead-letter the job
+  private recordFailure(job: DeliveryJob, result: DestinationResult, now: number): 'retry' | 'dead_letter' {
+    job.attempts += 1;
+    job.lastError = result.error || 'Unknown error';
+    if (result.status !== undefined) job.lastStatus = result.status;
+
+    if (isRetryable(result) && job.attempts < this.config.maxAttempts) {
+      job.nextAttemptAt = now + getRetryDelay(job.attempts, this.config.baseDelayMs, this.config.maxDelayMs, result.retryAfterMs);
+      this.state.pending.push(job);
+      console.log(`🔁 ${job.destination} delivery failed (${job.lastError}) - retry #${job.attempts} scheduled`);
+      return 'retry';
+    }
+
+    this.state.deadLetters.push({ ...job, deadLetteredAt: now });
+    console.error(`☠️ ${job.destination} delivery dead-lettered after ${job.attempts} attempt(s): ${job.lastError}`);
+    return 'dead_letter';
+  }
+
+  private persist(): void {
+    this.writer?.write(this.state);
+  }
+}
+
+// Queue configured by environment: DELIVERY_QUEUE_FILE (default data/delivery-queue.json),
+// or DELIVERY_QUEUE_STORE=memory to keep it in memory only
+export function createDeliveryQueue(env: NodeJS.ProcessEnv = process.env, eventLog?: EventLog): DeliveryQueue {
+  if (env.DELIVERY_QUEUE_STORE === 'memory') return new DeliveryQueue({ eventLog });
+  return new DeliveryQueue({ filePath: env.DELIVERY_QUEUE_FILE || 'data/delivery-queue.json', eventLog });
+}
@@ -0,0 +1,296 @@
+import type { AttributionData, ConsentState, TrackingEvent, TrackingItem, UserData } from '../../src/types/tracking';
+import type { BatchRequest, Destination, DestinationResult, DispatchEntry, EventFields, GA4ValidationMessage } from '../types';
+import { hashPII, normalizePII } from '../pii';
+import { chunk, clampEventTime, failedResponse } from '../utils';
+
+// GA4 Measurement Protocol
+// https://developers.google.com/analytics/devguides/collection/protocol/ga4
+
+// GA4_BASE_URL points the adapter at another host, e.g. the mock platforms server
+const DEFAULT_BASE_URL = 'https://www.google-analytics.com';
+
+// Native multi-event limit per request
+const MAX_EVENTS_PER_REQUEST = 25;
+
+// The Measurement Protocol accepts timestamps up to 72 hours in the past
+const MAX_EVENT_AGE_MS = 72 * 60 * 60 * 1000;
+
+type GA4ConsentValue = 'GRANTED' | 'DENIED';
+
+// GA4 reads items by its own parameter names, each needs item_id or item_name
+interface GA4Item {
+  item_id: string;
+  item_name: string;
+  item_category?: string | undefined;
+  item_brand?: string | undefined;
+  item_variant?: string | undefined;
+  price: number;
+  quantity: number;
+  index?: number | undefined;
+}
+
+interface GA4Event {
+  name: string;
+  timestamp_micros: number;
+  params: {
+    event_id: string;
+    engagement_time_msec: number;
+    page_location?: string | undefined;
+    page_title?: string | undefined;
+    page_referrer?: string | undefined;
+    currency?: string | undefined;
+    value?: number | undefined;
+    items?: GA4Item[] | undefined;
+    transaction_id?: string | undefined;
+    affiliation?: string | undefined;
+    coupon?: string | undefined;
+    shipping?: number | undefined;
+    tax?: number | undefined;
+    item_list_id?: string | undefined;
+    item_list_name?: string | undefined;
+    shipping_tier?: string | undefined;
+    payment_type?: string | undefined;
+    // Traffic source of the landing page
+    gclid?: string | undefined;
+    source?: string | undefined;
+    medium?: string | undefined;
+    campaign?: string | undefined;
+    term?: string | undefined;
+    content?: string | undefined;
+  };
+}
+
+// User-provided data for enhanced conversions. Names and street are hashed,
+// the rest of the address is sent normalized but in clear text.
+// https://developers.google.com/analytics/devguides/collection/ga4/uid-data
+interface GA4UserData {
+  sha256_email_address?: string[];
+  sha256_phone_number?: string[];
+  address?: {
+    sha256_first_name: string | undefined;
+    sha256_last_name: string | undefined;
+    sha256_street: string | undefined;
+    city: string | undefined;
+    region: string | undefined;
+    postal_code: string | undefined;
+    country: string | undefined;
+  }[];
+}
+
+export interface GA4Payload {
+  client_id: string;
+  user_id: string | undefined;
+  consent: { ad_user_data: GA4ConsentValue; ad_personalization: GA4ConsentValue } | undefined;
+  user_data?: GA4UserData;
+  events: GA4Event[];
+}
+
+// Campaign parameters, only the ones that were captured
+function campaignParams(attribution?: AttributionData): Partial<GA4Event['params']> {
+  if (!attribution) return {};
+
+  const params: Partial<GA4Event['params']> = {
+    gclid: attribution.gclid,
+    source: attribution.utm_source,
+    medium: attribution.utm_medium,
+    campaign: attribution.utm_campaign,
+    term: attribution.utm_term,
+    content: attribution.utm_content
+  };
+  return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+}
+
+// When the event happened, not when it reached the server (queued and replayed events)
+function timestampMicros(event: TrackingEvent): number {
+  return clampEventTime(event.timestamp, MAX_EVENT_AGE_MS) * 1000;
+}
+
+function toGA4Item(item: TrackingItem): GA4Item {
+  return {
+    item_id: item.id,
+    item_name: item.name,
+    item_category: item.category,
+    item_brand: item.brand,
+    item_variant: item.variant,
+    price: item.price,
+    quantity: item.quantity,
+    index: item.position
+  };
+}
+
+function buildEvent(event: TrackingEvent, attribution?: AttributionData): GA4Event {
+  const fields: EventFields = event;
+
+  if (event.event_name === 'page_view') {
+    return {
+      name: 'page_view',
+      timestamp_micros: timestampMicros(event),
+      params: {
+        page_location: fields.page_location,
+        page_title: fields.page_title,
+        page_referrer: fields.page_referrer,
+        ...campaignParams(attribution),
+        event_id: event.event_id,
+        engagement_time_msec: 100
+      }
+    };
+  }
+
+  return {
+    name: event.event_name,
+    timestamp_micros: timestampMicros(event),
+    params: {
+      ...campaignParams(attribution),
+      page_location: fields.page_location,
+      page_referrer: fields.page_referrer,
+      currency: fields.currency,
+      value: fields.value,
+      items: fields.items?.map(toGA4Item),
+      transaction_id: fields.transaction_id,
+      affiliation: fields.affiliation,
+      coupon: fields.coupon,
+      shipping: fields.shipping,
+      tax: fields.tax,
+      item_list_id: fields.item_list_id,
+      item_list_name: fields.item_list_name,
+      shipping_tier: fields.shipping_tier,
+      payment_type: fields.payment_type,
+      event_id: event.event_id,
+      engagement_time_msec: 100
+    }
+  };
+}
+
+// Measurement Protocol consent field
+function toGA4Consent(consent?: ConsentState): GA4Payload['consent'] {
+  if (!consent) return undefined;
+  return {
+    ad_user_data: consent.ad_user_data ? 'GRANTED' : 'DENIED',
+    ad_personalization: consent.ad_personalization ? 'GRANTED' : 'DENIED'
+  };
+}
+
+function buildUserData(user: UserData): GA4UserData | undefined {
+  const pii = { platform: 'google', country: user.country } as const;
+  const userData: GA4UserData = {};
+
+  const email = hashPII('em', user.email, pii);
+  if (email) userData.sha256_email_address = [email];
+  const phone = hashPII('ph', user.phone, pii);
+  if (phone) userData.sha256_phone_number = [phone];
+
+  const address = {
+    sha256_first_name: hashPII('fn', user.first_name, pii),
+    sha256_last_name: hashPII('ln', user.last_name, pii),
+    sha256_street: hashPII('street', user.street, pii),
+    city: normalizePII('ct', user.city, pii),
+    region: normalizePII('st', user.state, pii),
+    postal_code: normalizePII('zp', user.zip_code, pii),
+    country: normalizePII('country', user.country, pii)
+  };
+  if (Object.values(address).some(value => value !== undefined)) userData.address = [address];
+
+  return Object.keys(userData).length > 0 ? userData : undefined;
+}
+
+function buildPayload(user: UserData, consent: ConsentState | undefined, events: GA4Event[]): GA4Payload {
+  const payload: GA4Payload = {
+    client_id: user.client_id,
+    user_id: user.user_id,
+    consent: toGA4Consent(consent),
+    events
+  };
+
+  // User-provided data is an ads feature, so it follows ad_user_data rather than analytics consent
+  const userData = !consent || consent.ad_user_data ? buildUserData(user) : undefined;
+  if (userData) payload.user_data = userData;
+
+  return payload;
+}
+
+// Result of the /debug/mp/collect validation server: success when it found nothing
+async function validationResult(response: Response): Promise<DestinationResult> {
+  const { validationMessages = [] } = (await response.json()) as { validationMessages?: GA4ValidationMessage[] };
+
+  if (response.ok && validationMessages.length === 0) {
+    console.log('✅ GA4: Valid (debug endpoint)');
+    return { success: true, status: response.status, validationMessages };
+  }
+  console.error('❌ GA4 Validation:', validationMessages);
+  return {
+    success: false,
+    status: response.status,
+    error: validationMessages[0]?.description || `Status ${response.status}`,
+    validationMessages
+  };
+}
+
+export const ga4: Destination<GA4Payload> = {
+  name: 'ga4',
+  label: 'GA4',
+  consentPurpose: 'analytics',
+  requiredEnv: ['VITE_GA_MEASUREMENT_ID', 'VITE_GA_API_SECRET'],
+
+  isConfigured() {
+    return !!(process.env.VITE_GA_MEASUREMENT_ID && process.env.VITE_GA_API_SECRET);
+  },
+
+  transform(event, user, consent, attribution) {
+    return buildPayload(user, consent, [buildEvent(event, attribution)]);
+  },
+
+  // GA4 batches events per user, so group entries by client_id/user_id (and consent) first
+  transformBatch(entries: DispatchEntry[]) {
+    const groups = new Map<string, number[]>();
+    entries.forEach((entry, index) => {
+      const key = `${entry.user.client_id}|${entry.user.user_id || ''}|${JSON.stringify(toGA4Consent(entry.consent))}`;
+      const group = groups.get(key) || [];
+      group.push(index);
+      groups.set(key, group);
+    });
+
+    const requests: BatchRequest<GA4Payload>[] = [];
+    for (const indexes of groups.values()) {
+      for (const part of chunk(indexes, MAX_EVENTS_PER_REQUEST)) {
+        const first = entries[part[0]];
+        requests.push({
+          payload: buildPayload(first.user, first.consent, part.map(index => buildEvent(entries[index].event, entries[index].attribution))),
+          indexes: part
+        });
+      }
+    }
+    return requests;
+  },
+
+  async send(payload, options = {}) {
+    const measurementId = process.env.VITE_GA_MEASUREMENT_ID;
+    const apiSecret = process.env.VITE_GA_API_SECRET;
+
+    try {
+      const baseUrl = process.env.GA4_BASE_URL || DEFAULT_BASE_URL;
+      // Test events go to the validation server, which checks them without recording them
+      const path = options.test ? 'debug/mp/collect' : 'mp/collect';
+      const url = `${baseUrl}/${path}?measurement_id=${measurementId}&api_secret=${apiSecret}`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+
+      if (options.test) return await validationResult(response);
+
+      if (response.status === 204) {
+        console.log('✅ GA4: Success');
+        return { success: true, status: response.status };
+      } else {
+        console.error('❌ GA4 Error:', response.status);
+        return failedResponse(response, `Status ${response.status}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('❌ GA4 Error:', message);
+      return { success: false, error: message };
+    }
+  }
+};
@@ -0,0 +1,23 @@
+import type { Destination } from '../types';
+import { ga4 } from './ga4';
+import { meta } from './meta';
+import { tiktok } from './tiktok';
+
+// Destination registry - every route sends to the configured destinations listed here
+const registry: Destination[] = [ga4, meta, tiktok];
+
+export function registerDestination(destination: Destination): void {
+  if (registry.some(existing => existing.name === destination.name)) {
+    throw new Error(`Destination '${destination.name}' is already registered`);
+  }
+  registry.push(destination);
+}
+
+export function getDestinations(): Destination[] {
+  return [...registry];
+}
+
+// Destinations with credentials - the only ones routes send to
+export function getEnabledDestinations(): Destination[] {
+  return registry.filter(destination => destination.isConfigured());
+}
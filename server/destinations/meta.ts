@@ -0,0 +1,169 @@
+import { EVENT_NAME_MAPPING } from '../../src/types/tracking';
+import type { TrackingEvent, UserData } from '../../src/types/tracking';
+import type { ActionSource, Destination, EventFields } from '../types';
+import { missingTestCode } from '../test-mode';
+import { hashPII } from '../pii';
+import { chunk, clampEventTime, failedResponse } from '../utils';
+
+// Meta Conversions API
+// https://developers.facebook.com/docs/marketing-api/conversions-api
+
+// META_BASE_URL points the adapter at another host, e.g. the mock platforms server
+const DEFAULT_BASE_URL = 'https://graph.facebook.com';
+
+const GRAPH_API_VERSION = 'v18.0';
+
+// Native multi-event limit per request
+const MAX_EVENTS_PER_REQUEST = 1000;
+
+// Meta rejects events older than 7 days
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface MetaEvent {
+  event_name: string;
+  event_time: number;
+  event_id: string;
+  event_source_url: string | undefined;
+  referrer_url: string | undefined;
+  action_source: ActionSource;
+  user_data: {
+    em: string | undefined;
+    ph: string | undefined;
+    fn: string | undefined;
+    ln: string | undefined;
+    db: string | undefined;
+    ge: string | undefined;
+    ct: string | undefined;
+    st: string | undefined;
+    zp: string | undefined;
+    country: string | undefined;
+    external_id: string | undefined;
+    client_ip_address: string | undefined;
+    client_user_agent: string | undefined;
+    fbc: string | undefined;
+    fbp: string | undefined;
+  };
+  custom_data?: {
+    currency: string | undefined;
+    value: number | undefined;
+    contents: { id: string; quantity: number; item_price: number }[];
+    content_type: 'product';
+    order_id: string | undefined;
+  };
+}
+
+export interface MetaPayload {
+  data: MetaEvent[];
+}
+
+interface MetaResponse {
+  error?: { message?: string };
+}
+
+function buildEvent(event: TrackingEvent, userData: UserData, actionSource?: ActionSource): MetaEvent {
+  const fields: EventFields = event;
+  const pii = { platform: 'meta', country: userData.country } as const;
+  const payload: MetaEvent = {
+    event_name: EVENT_NAME_MAPPING[event.event_name].meta,
+    event_time: Math.floor(clampEventTime(event.timestamp, MAX_EVENT_AGE_MS) / 1000),
+    event_id: event.event_id,
+    // SITE_URL stands in for server events that don't know their page
+    event_source_url: fields.page_location || process.env.SITE_URL,
+    referrer_url: fields.page_referrer || undefined,
+    // Refunds are raised by the shop, not by a visitor on the site
+    action_source: actionSource ?? (event.event_name === 'refund' ? 'system_generated' : 'website'),
+    user_data: {
+      em: hashPII('em', userData.email, pii),
+      ph: hashPII('ph', userData.phone, pii),
+      fn: hashPII('fn', userData.first_name, pii),
+      ln: hashPII('ln', userData.last_name, pii),
+      db: hashPII('db', userData.date_of_birth, pii),
+      ge: hashPII('ge', userData.gender, pii),
+      ct: hashPII('ct', userData.city, pii),
+      st: hashPII('st', userData.state, pii),
+      zp: hashPII('zp', userData.zip_code, pii),
+      country: hashPII('country', userData.country, pii),
+      external_id: hashPII('external_id', userData.user_id, pii),
+      client_ip_address: userData.ip_address,
+      client_user_agent: userData.user_agent,
+      fbc: userData.fbc,
+      fbp: userData.fbp
+    }
+  };
+
+  // Page views have no items, currency or value. Full refunds have no items.
+  if (event.event_name !== 'page_view') {
+    payload.custom_data = {
+      currency: fields.currency,
+      value: fields.value,
+      contents: (fields.items || []).map(item => ({
+        id: item.id,
+        quantity: item.quantity,
+        item_price: item.price
+      })),
+      content_type: 'product',
+      order_id: fields.transaction_id
+    };
+  }
+
+  return payload;
+}
+
+export const meta: Destination<MetaPayload> = {
+  name: 'meta',
+  label: 'Meta',
+  consentPurpose: 'ads',
+  requiredEnv: ['VITE_META_PIXEL_ID', 'VITE_META_ACCESS_TOKEN'],
+
+  isConfigured() {
+    return !!(process.env.VITE_META_PIXEL_ID && process.env.VITE_META_ACCESS_TOKEN);
+  },
+
+  transform(event, user, _consent, _attribution, actionSource) {
+    return { data: [buildEvent(event, user, actionSource)] };
+  },
+
+  // Meta accepts many events in one `data` array
+  transformBatch(entries) {
+    const indexes = entries.map((_, index) => index);
+    return chunk(indexes, MAX_EVENTS_PER_REQUEST).map(part => ({
+      payload: {
+        data: part.map(index => buildEvent(entries[index].event, entries[index].user, entries[index].actionSource))
+      },
+      indexes: part
+    }));
+  },
+
+  async send(payload, options = {}) {
+    const pixelId = process.env.VITE_META_PIXEL_ID;
+    const accessToken = process.env.VITE_META_ACCESS_TOKEN;
+    // Test events show in Events Manager > Test Events only
+    const testEventCode = process.env.META_TEST_EVENT_CODE;
+    if (options.test && !testEventCode) return missingTestCode('META_TEST_EVENT_CODE');
+
+    try {
+      const baseUrl = process.env.META_BASE_URL || DEFAULT_BASE_URL;
+      const url = `${baseUrl}/${GRAPH_API_VERSION}/${pixelId}/events?access_token=${accessToken}`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options.test ? { ...payload, test_event_code: testEventCode } : payload)
+      });
+
+      const result = (await response.json()) as MetaResponse;
+
+      if (response.ok) {
+        console.log('✅ Meta: Success', result);
+        return { success: true, status: response.status };
+      } else {
+        console.error('❌ Meta Error:', result);
+        return failedResponse(response, result.error?.message || `Status ${response.status}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('❌ Meta Error:', message);
+      return { success: false, error: message };
+    }
+  }
+};
@@ -0,0 +1,188 @@
+import { EVENT_NAME_MAPPING } from '../../src/types/tracking';
+import type { AttributionData, TrackingEvent, UserData } from '../../src/types/tracking';
+import type { Destination, EventFields } from '../types';
+import { missingTestCode } from '../test-mode';
+import { hashPII } from '../pii';
+import { chunk, clampEventTime, failedResponse } from '../utils';
+
+// TikTok Events API
+// https://business-api.tiktok.com/portal/docs?id=1741601162187777
+
+// TIKTOK_BASE_URL points the adapter at another host, e.g. the mock platforms server
+const DEFAULT_BASE_URL = 'https://business-api.tiktok.com/open_api/v1.3';
+
+// Native multi-event limit per request (pixel/batch endpoint)
+const MAX_EVENTS_PER_REQUEST = 1000;
+
+// TikTok only attributes events reported within 7 days
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface TikTokEvent {
+  event: string;
+  event_id: string;
+  timestamp: string;
+  context: {
+    user_agent: string | undefined;
+    ip: string | undefined;
+    page: { url: string | undefined; referrer: string };
+    ad?: { callback: string }; // ttclid of the ad click
+    user?: {
+      email: string | undefined;
+      phone_number: string | undefined;
+      external_id: string | undefined;
+      first_name: string | undefined;
+      last_name: string | undefined;
+      city: string | undefined;
+      state: string | undefined;
+      country: string | undefined;
+      zip_code: string | undefined;
+    };
+  };
+  properties?: {
+    currency: string | undefined;
+    value: number | undefined;
+    contents: {
+      content_id: string;
+      content_name: string;
+      content_category: string | undefined;
+      quantity: number;
+      price: number;
+    }[];
+    content_type: 'product';
+    order_id: string | undefined;
+  };
+}
+
+// Single events go to event/track/, batches (with `batch`) to pixel/batch/
+export type TikTokPayload =
+  | ({ pixel_code: string | undefined } & TikTokEvent)
+  | { pixel_code: string | undefined; batch: TikTokEvent[] };
+
+interface TikTokResponse {
+  code?: number;
+  message?: string;
+}
+
+// Event body shared by the single-event and batch endpoints
+function buildEvent(event: TrackingEvent, userData: UserData, attribution?: AttributionData): TikTokEvent {
+  const fields: EventFields = event;
+  const payload: TikTokEvent = {
+    event: EVENT_NAME_MAPPING[event.event_name].tiktok,
+    event_id: event.event_id,
+    timestamp: new Date(clampEventTime(event.timestamp, MAX_EVENT_AGE_MS)).toISOString(),
+    context: {
+      user_agent: userData.user_agent,
+      ip: userData.ip_address,
+      page: {
+        url: fields.page_location || process.env.SITE_URL,
+        referrer: fields.page_referrer || ''
+      }
+    }
+  };
+
+  if (attribution?.ttclid) {
+    payload.context.ad = { callback: attribution.ttclid };
+  }
+
+  // Page views have no items, currency or value. Full refunds have no items.
+  if (event.event_name !== 'page_view') {
+    payload.properties = {
+      currency: fields.currency,
+      value: fields.value,
+      contents: (fields.items || []).map(item => ({
+        content_id: item.id,
+        content_name: item.name,
+        content_category: item.category,
+        quantity: item.quantity,
+        price: item.price
+      })),
+      content_type: 'product',
+      order_id: fields.transaction_id
+    };
+  }
+
+  // Advanced matching, only sent when at least one identifier survived normalization
+  const pii = { platform: 'tiktok', country: userData.country } as const;
+  const user = {
+    email: hashPII('em', userData.email, pii),
+    phone_number: hashPII('ph', userData.phone, pii),
+    external_id: hashPII('external_id', userData.user_id, pii),
+    first_name: hashPII('fn', userData.first_name, pii),
+    last_name: hashPII('ln', userData.last_name, pii),
+    city: hashPII('ct', userData.city, pii),
+    state: hashPII('st', userData.state, pii),
+    country: hashPII('country', userData.country, pii),
+    zip_code: hashPII('zp', userData.zip_code, pii)
+  };
+  if (Object.values(user).some(value => value !== undefined)) {
+    payload.context.user = user;
+  }
+
+  return payload;
+}
+
+export const tiktok: Destination<TikTokPayload> = {
+  name: 'tiktok',
+  label: 'TikTok',
+  consentPurpose: 'ads',
+  // Pixel events are web events. Offline ones need an offline event set, not the pixel.
+  actionSources: ['website'],
+  requiredEnv: ['VITE_TIKTOK_PIXEL_ID', 'VITE_TIKTOK_ACCESS_TOKEN'],
+
+  isConfigured() {
+    return !!(process.env.VITE_TIKTOK_PIXEL_ID && process.env.VITE_TIKTOK_ACCESS_TOKEN);
+  },
+
+  transform(event, user, _consent, attribution) {
+    return {
+      pixel_code: process.env.VITE_TIKTOK_PIXEL_ID,
+      ...buildEvent(event, user, attribution)
+    };
+  },
+
+  // The pixel/batch endpoint takes many events per request
+  transformBatch(entries) {
+    const indexes = entries.map((_, index) => index);
+    return chunk(indexes, MAX_EVENTS_PER_REQUEST).map(part => ({
+      payload: {
+        pixel_code: process.env.VITE_TIKTOK_PIXEL_ID,
+        batch: part.map(index => buildEvent(entries[index].event, entries[index].user, entries[index].attribution))
+      },
+      indexes: part
+    }));
+  },
+
+  async send(payload, options = {}) {
+    const accessToken = process.env.VITE_TIKTOK_ACCESS_TOKEN || '';
+    // Test events show in Events Manager > Test Events only
+    const testEventCode = process.env.TIKTOK_TEST_EVENT_CODE;
+    if (options.test && !testEventCode) return missingTestCode('TIKTOK_TEST_EVENT_CODE');
+    const path = 'batch' in payload ? 'pixel/batch/' : 'event/track/';
+    const baseUrl = process.env.TIKTOK_BASE_URL || DEFAULT_BASE_URL;
+
+    try {
+      const response = await fetch(`${baseUrl}/${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Token': accessToken
+        },
+        body: JSON.stringify(options.test ? { ...payload, test_event_code: testEventCode } : payload)
+      });
+
+      const result = (await response.json()) as TikTokResponse;
+
+      if (response.ok && result.code === 0) {
+        console.log('✅ TikTok: Success');
+        return { success: true, status: response.status };
+      } else {
+        console.error('❌ TikTok Error:', result);
+        return failedResponse(response, result.message || `Status ${response.status}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('❌ TikTok Error:', message);
+      return { success: false, error: message };
+    }
+  }
+};
@@ -0,0 +1,99 @@
+import type { Request } from 'express';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AddToCartEvent } from '../src/types/tracking';
+import { BackgroundDispatcher } from './dispatcher';
+import type { DeliveryOutcome } from './dispatcher';
+
+const req = {
+  headers: { 'user-agent': 'Test Agent' },
+  ip: '203.0.113.7',
+  socket: {}
+} as unknown as Request;
+
+function createEvent(eventId: string): AddToCartEvent {
+  return {
+    event_name: 'add_to_cart',
+    event_id: eventId,
+    currency: 'PHP',
+    value: 10,
+    items: [{ id: 'PROD-001', name: 'Test', price: 10, quantity: 1 }]
+  };
+}
+
+describe('BackgroundDispatcher', () => {
+  let pending: (() => void)[];
+
+  beforeEach(() => {
+    vi.stubEnv('VITE_GA_MEASUREMENT_ID', 'G-TEST');
+    vi.stubEnv('VITE_GA_API_SECRET', 'ga-secret');
+    vi.stubEnv('VITE_META_PIXEL_ID', '');
+    vi.stubEnv('VITE_TIKTOK_PIXEL_ID', '');
+
+    // GA4 requests stay open until released by the test
+    pending = [];
+    vi.stubGlobal('fetch', vi.fn(() => new Promise<Response>(resolve => {
+      pending.push(() => resolve(new Response(null, { status: 204 })));
+    })));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  async function flushPromises() {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  it('should return the event_id without waiting for delivery', () => {
+    const dispatcher = new BackgroundDispatcher();
+
+    expect(dispatcher.track(createEvent('evt-1'), { client_id: 'client-123' }, req)).toBe('evt-1');
+    expect(dispatcher.size()).toBe(1);
+  });
+
+  it('should deliver at most `concurrency` events at a time', async () => {
+    const dispatcher = new BackgroundDispatcher({ concurrency: 2 });
+    ['evt-1', 'evt-2', 'evt-3'].forEach(id => dispatcher.track(createEvent(id), { client_id: 'client-123' }, req));
+    await flushPromises();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    pending.shift()?.();
+    await flushPromises();
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should emit the outcome and resolve idle() once delivered', async () => {
+    const dispatcher = new BackgroundDispatcher();
+    const outcomes: DeliveryOutcome[] = [];
+    dispatcher.on('delivered', outcome => outcomes.push(outcome));
+
+    dispatcher.track(createEvent('evt-1'), { client_id: 'client-123' }, req);
+    await flushPromises();
+    pending.forEach(release => release());
+    await dispatcher.idle();
+
+    expect(outcomes).toHaveLength(1);
+    expect(outcomes[0].event.event_id).toBe('evt-1');
+    expect(outcomes[0].results).toEqual({ ga4: { success: true, status: 204 } });
+  });
+
+  it('should capture IP and user agent from the request', async () => {
+    vi.stubEnv('VITE_META_PIXEL_ID', 'meta-pixel');
+    vi.stubEnv('VITE_META_ACCESS_TOKEN', 'meta-token');
+    const dispatcher = new BackgroundDispatcher();
+
+    dispatcher.track(createEvent('evt-1'), { client_id: 'client-123' }, req);
+    await flushPromises();
+
+    const metaCall = vi.mocked(fetch).mock.calls.find(([input]) => String(input).includes('graph.facebook.com'));
+    expect(JSON.parse(String(metaCall?.[1]?.body)).data[0].user_data).toMatchObject({
+      client_ip_address: '203.0.113.7',
+      client_user_agent: 'Test Agent'
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { EventEmitter } from 'events';
+import type { Request } from 'express';
+import type { ConsentState, TrackingEvent, UserData } from '../src/types/tracking';
+import { dispatchEvent, summarizeResults } from './pipeline';
+import type { DispatchOptions } from './pipeline';
+import type { DispatchEntry, DispatchResults } from './types';
+import { getRequestAttribution, getRequestUser } from './attribution';
+import { receivedRecord } from './event-log';
+import type { ReceivedRecord } from './event-log';
+import { isTestRequest } from './test-mode';
+
+// Fire-and-forget tracking for business routes. track() returns at once and the
+// destinations are called in the background, a bounded number of events at a time,
+// so checkout latency never includes third-party API round trips. Outcomes are
+// logged and emitted as events.
+
+export interface DispatcherConfig {
+  concurrency?: number; // events delivered at the same time
+  dispatchOptions?: DispatchOptions;
+}
+
+// Emitted once all destinations answered for an event
+export interface DeliveryOutcome {
+  event: TrackingEvent;
+  results: DispatchResults;
+  durationMs: number;
+}
+
+export interface DispatcherEvents {
+  delivered: [outcome: DeliveryOutcome];
+  failed: [event: TrackingEvent, error: unknown]; // dispatch itself threw
+}
+
+export class BackgroundDispatcher extends EventEmitter<DispatcherEvents> {
+  private readonly concurrency: number;
+  private readonly dispatchOptions: DispatchOptions;
+  private readonly waiting: DispatchEntry[] = [];
+  private running = 0;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(config: DispatcherConfig = {}) {
+    super();
+    this.concurrency = Math.max(1, config.concurrency ?? 4);
+    this.dispatchOptions = config.dispatchOptions || {};
+  }
+
+  // Schedule an event for delivery and return its event_id without waiting.
+  // IP, user agent and the browser's click ID cookies are read from the request now,
+  // before it is finished.
+  track(event: TrackingEvent, userData: UserData, req: Request, consent?: ConsentState): string {
+    const { attribution, browserIds } = getRequestAttribution(req);
+    const user = getRequestUser(req, userData, browserIds);
+    return this.schedule({ event, user, consent, attribution, test: isTestRequest(req) });
+  }
+
+  // Schedule an entry whose user and attribution were gathered elsewhere, e.g. a payment
+  // webhook completed with the checkout's browser context
+  schedule(entry: DispatchEntry, source: ReceivedRecord['source'] = 'server'): string {
+    const { event } = entry;
+    const value = 'value' in event ? event.value : undefined;
+    console.log(`\n📨 Server Event: ${event.event_name} | ID: ${event.event_id} | Value: ₱${value} (background)`);
+
+    this.dispatchOptions.eventLog?.append(receivedRecord(event, entry.user, source));
+    this.waiting.push(entry);
+    this.next();
+    return event.event_id;
+  }
+
+  // Events not yet finished (waiting or in flight)
+  size(): number {
+    return this.waiting.length + this.running;
+  }
+
+  // Resolves once every scheduled event has been delivered - for tests and graceful shutdown
+  idle(): Promise<void> {
+    if (this.size() === 0) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private next(): void {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      const task = this.waiting.shift() as DispatchEntry;
+      this.running += 1;
+      void this.run(task).finally(() => {
+        this.running -= 1;
+        this.next();
+        if (this.size() === 0) this.notifyIdle();
+      });
+    }
+  }
+
+  private async run(task: DispatchEntry): Promise<void> {
+    const startedAt = Date.now();
+    try {
+      const results = await dispatchEvent(task, this.dispatchOptions);
+      const durationMs = Date.now() - startedAt;
+      console.log(`📬 Delivered ${task.event.event_name} | ID: ${task.event.event_id} | ${durationMs}ms |`, summarizeResults(results));
+      this.emit('delivered', { event: task.event, results, durationMs });
+    } catch (error) {
+      console.error(`❌ Background delivery of ${task.event.event_id} failed:`, error);
+      this.emit('failed', task.event, error);
+    }
+  }
+
+  private notifyIdle(): void {
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
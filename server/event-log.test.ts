@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import type { AddToCartEvent } from '../src/types/tracking';
+import { FileEventLog, MemoryEventLog, getEventDetail, queryEvents, receivedRecord } from './event-log';
+import type { DeliveryRecord, LogRecord } from './event-log';
+
+const addToCart: AddToCartEvent = {
+  event_name: 'add_to_cart',
+  event_id: 'evt-1',
+  currency: 'PHP',
+  value: 99.99,
+  items: [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }]
+};
+
+function received(eventId: string, at: number, overrides: Partial<AddToCartEvent> = {}): LogRecord {
+  const record = receivedRecord({ ...addToCart, ...overrides, event_id: eventId }, { client_id: 'client-123', user_id: 'user-42' }, 'frontend');
+  return { ...record, at };
+}
+
+function delivery(destination: string, eventIds: string[], result: DeliveryRecord['result'], attempt = 1): DeliveryRecord {
+  return { type: 'delivery', at: 1000 + attempt, destination, event_ids: eventIds, attempt, payload: { data: eventIds }, result };
+}
+
+const RECORDS: LogRecord[] = [
+  received('evt-1', 1000),
+  delivery('meta', ['evt-1'], { success: false, status: 503, error: 'Status 503', queued: true }),
+  delivery('ga4', ['evt-1'], { success: true, status: 204 }),
+  received('evt-2', 2000, { event_name: 'add_to_cart' }),
+  delivery('meta', ['evt-2'], { success: false, skipped: true, error: 'No consent' }),
+  delivery('meta', ['evt-1'], { success: true, status: 200 }, 2)
+];
+
+describe('queryEvents', () => {
+  it('should list events newest first with the latest outcome per destination', () => {
+    const [latest, first] = queryEvents(RECORDS);
+
+    expect(latest.event_id).toBe('evt-2');
+    expect(first.deliveries).toEqual([
+      { destination: 'meta', status: 'success', attempts: 2, at: 1002, http_status: 200 },
+      { destination: 'ga4', status: 'success', attempts: 1, at: 1001, http_status: 204 }
+    ]);
+  });
+
+  it('should filter by destination status', () => {
+    expect(queryEvents(RECORDS, { destination: 'meta', status: 'skipped' }).map(event => event.event_id)).toEqual(['evt-2']);
+    expect(queryEvents(RECORDS, { status: 'failed' })).toEqual([]);
+  });
+
+  it('should filter by event, user and time range', () => {
+    expect(queryEvents(RECORDS, { event_id: 'evt-1' })).toHaveLength(1);
+    expect(queryEvents(RECORDS, { user_id: 'user-7' })).toEqual([]);
+    expect(queryEvents(RECORDS, { from: 1500, to: 2500 }).map(event => event.event_id)).toEqual(['evt-2']);
+    expect(queryEvents(RECORDS, { limit: 1 })).toHaveLength(1);
+  });
+});
+
+describe('getEventDetail', () => {
+  it('should return every request made for an event, batch payloads included', () => {
+    const records = [...RECORDS, delivery('tiktok', ['evt-0', 'evt-1'], { success: true, status: 200 })];
+
+    const detail = getEventDetail(records, 'evt-1');
+
+    expect(detail?.received).toHaveLength(1);
+    expect(detail?.deliveries.map(record => record.destination)).toEqual(['meta', 'ga4', 'meta', 'tiktok']);
+    expect(detail?.deliveries[3].payload).toEqual({ data: ['evt-0', 'evt-1'] });
+    expect(getEventDetail(records, 'evt-404')).toBeUndefined();
+  });
+});
+
+describe('MemoryEventLog', () => {
+  it('should keep the latest records only', async () => {
+    const log = new MemoryEventLog(2);
+    RECORDS.slice(0, 3).forEach(record => log.append(record));
+
+    expect(await log.records()).toEqual(RECORDS.slice(1, 3));
+  });
+});
+
+describe('FileEventLog', () => {
+  it('should append NDJSON and rotate by size, dropping the oldest file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-log-'));
+    const filePath = path.join(dir, 'events.ndjson');
+
+    try {
+      const log = new FileEventLog(filePath, { maxBytes: 400, maxFiles: 2 });
+      RECORDS.forEach(record => log.append(record));
+      const records = await log.records();
+
+      expect(fs.existsSync(`${filePath}.1`)).toBe(true);
+      expect(fs.existsSync(`${filePath}.2`)).toBe(false);
+      expect(records.length).toBeLessThan(RECORDS.length);
+      expect(records.at(-1)).toEqual(RECORDS.at(-1));
+
+      // A new instance reads what the previous one wrote
+      expect(await new FileEventLog(filePath, { maxBytes: 400, maxFiles: 2 }).records()).toEqual(records);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,315 @@
+import fs from 'fs';
+import path from 'path';
+import type { TrackingEvent, UserData } from '../src/types/tracking';
+import type { DestinationResult } from './types';
+import { isRecord } from './utils';
+
+// Record of what the server received and what it sent where. Every incoming event and
+// every destination request (payload plus outcome) is appended, so a missing conversion
+// can be traced: was it received, filtered, skipped for consent, rejected by the platform?
+
+// An event as it reached the server
+export interface ReceivedRecord {
+  type: 'event';
+  at: number;
+  source: 'frontend' | 'server' | 'import' | 'webhook'; // /api/track, a business route, an offline import or a payment webhook
+  event_id: string;
+  event_name: TrackingEvent['event_name'];
+  user_id?: string;
+  client_id?: string;
+  outcome: 'dispatched' | 'deduplicated' | 'filtered';
+  reason?: string; // why it was filtered
+  event: TrackingEvent;
+}
+
+// One request to a destination, or the reason none was made
+export interface DeliveryRecord {
+  type: 'delivery';
+  at: number;
+  destination: string;
+  event_ids: string[]; // several for batch payloads
+  attempt: number; // 1 for the first send, higher for delivery queue retries
+  payload?: unknown; // exact request body, absent when the destination was skipped
+  test?: boolean; // sent as a test event (the platform adds its test event code)
+  result: DestinationResult;
+}
+
+export type LogRecord = ReceivedRecord | DeliveryRecord;
+
+export type DeliveryStatus = 'success' | 'skipped' | 'queued' | 'dead_lettered' | 'failed';
+
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['success', 'skipped', 'queued', 'dead_lettered', 'failed'];
+
+export interface EventLog {
+  append(record: LogRecord): void;
+  // Every stored record, oldest first
+  records(): Promise<LogRecord[]>;
+  // Resolves once appended records are stored
+  flush(): Promise<void>;
+}
+
+// Latest records in memory - for tests and deployments without a writable disk
+export class MemoryEventLog implements EventLog {
+  private readonly maxRecords: number;
+  private entries: LogRecord[] = [];
+
+  constructor(maxRecords = 10_000) {
+    this.maxRecords = maxRecords;
+  }
+
+  append(record: LogRecord): void {
+    this.entries.push(record);
+    if (this.entries.length > this.maxRecords) this.entries.splice(0, this.entries.length - this.maxRecords);
+  }
+
+  async records(): Promise<LogRecord[]> {
+    return [...this.entries];
+  }
+
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+export interface FileEventLogConfig {
+  maxBytes?: number; // rotate the current file beyond this size
+  maxFiles?: number; // files kept, the current one included
+}
+
+function isLogRecord(value: unknown): value is LogRecord {
+  return isRecord(value) && (value.type === 'event' || value.type === 'delivery') && typeof value.at === 'number';
+}
+
+// NDJSON file, rotated by size: events.ndjson -> events.ndjson.1 -> ... -> dropped
+export class FileEventLog implements EventLog {
+  private readonly filePath: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private size: number;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, config: FileEventLogConfig = {}) {
+    this.filePath = filePath;
+    this.maxBytes = config.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = Math.max(1, config.maxFiles ?? 5);
+    try {
+      this.size = fs.statSync(filePath).size;
+    } catch {
+      this.size = 0;
+    }
+  }
+
+  append(record: LogRecord): void {
+    const line = `${JSON.stringify(record)}\n`;
+    this.writing = this.writing
+      .then(async () => {
+        if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxBytes) await this.rotate();
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, line);
+        this.size += Buffer.byteLength(line);
+      })
+      .catch(error => {
+        console.error(`❌ Write to ${this.filePath} failed:`, error instanceof Error ? error.message : error);
+      });
+  }
+
+  async records(): Promise<LogRecord[]> {
+    await this.flush();
+
+    const records: LogRecord[] = [];
+    for (let index = this.maxFiles - 1; index >= 0; index--) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(this.fileAt(index), 'utf8');
+      } catch {
+        continue;
+      }
+      for (const line of content.split('\n')) {
+        if (!line) continue;
+        try {
+          const parsed: unknown = JSON.parse(line);
+          if (isLogRecord(parsed)) records.push(parsed);
+        } catch {
+          // Partially written line - skip it
+        }
+      }
+    }
+    return records;
+  }
+
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private fileAt(index: number): string {
+    return index === 0 ? this.filePath : `${this.filePath}.${index}`;
+  }
+
+  private async rotate(): Promise<void> {
+    await fs.promises.rm(this.fileAt(this.maxFiles - 1), { force: true });
+    for (let index = this.maxFiles - 2; index >= 0; index--) {
+      await fs.promises.rename(this.fileAt(index), this.fileAt(index + 1)).catch(() => undefined);
+    }
+    this.size = 0;
+  }
+}
+
+// Status of a destination result, as used by the events API filters
+export function deliveryStatus(result: DestinationResult): DeliveryStatus {
+  if (result.success) return 'success';
+  if (result.skipped) return 'skipped';
+  if (result.queued) return 'queued';
+  if (result.deadLettered) return 'dead_lettered';
+  return 'failed';
+}
+
+export interface EventQuery {
+  event_name?: string;
+  event_id?: string;
+  user_id?: string;
+  destination?: string;
+  status?: DeliveryStatus; // latest status at `destination`, or at any destination
+  from?: number; // received at or after (ms)
+  to?: number; // received at or before (ms)
+  limit?: number;
+}
+
+// Latest outcome per destination, without the payloads
+export interface DeliverySummary {
+  destination: string;
+  status: DeliveryStatus;
+  attempts: number;
+  at: number;
+  http_status?: number;
+  error?: string;
+}
+
+export interface EventSummary {
+  event_id: string;
+  event_name: TrackingEvent['event_name'];
+  received_at: number;
+  source: ReceivedRecord['source'];
+  outcome: ReceivedRecord['outcome'];
+  reason?: string;
+  user_id?: string;
+  client_id?: string;
+  deliveries: DeliverySummary[];
+}
+
+// Full trail of one event: what was received and every request made for it
+export interface EventDetail {
+  event_id: string;
+  received: ReceivedRecord[]; // several when a retry was deduplicated or filtered
+  deliveries: DeliveryRecord[];
+}
+
+function summarizeDeliveries(deliveries: DeliveryRecord[]): DeliverySummary[] {
+  const latest = new Map<string, DeliverySummary>();
+  for (const delivery of deliveries) {
+    const summary: DeliverySummary = {
+      destination: delivery.destination,
+      status: deliveryStatus(delivery.result),
+      attempts: (latest.get(delivery.destination)?.attempts ?? 0) + (delivery.payload === undefined ? 0 : 1),
+      at: delivery.at
+    };
+    if (delivery.result.status !== undefined) summary.http_status = delivery.result.status;
+    if (delivery.result.error !== undefined) summary.error = delivery.result.error;
+    latest.set(delivery.destination, summary);
+  }
+  return [...latest.values()];
+}
+
+function deliveriesByEvent(records: LogRecord[]): Map<string, DeliveryRecord[]> {
+  const byEvent = new Map<string, DeliveryRecord[]>();
+  for (const record of records) {
+    if (record.type !== 'delivery') continue;
+    for (const eventId of record.event_ids) {
+      const deliveries = byEvent.get(eventId);
+      if (deliveries) deliveries.push(record);
+      else byEvent.set(eventId, [record]);
+    }
+  }
+  return byEvent;
+}
+
+// Received events matching the query, newest first, each with its latest delivery outcomes
+export function queryEvents(records: LogRecord[], query: EventQuery = {}): EventSummary[] {
+  const deliveries = deliveriesByEvent(records);
+  const matches: EventSummary[] = [];
+
+  for (const record of records) {
+    if (record.type !== 'event') continue;
+    if (query.event_name && record.event_name !== query.event_name) continue;
+    if (query.event_id && record.event_id !== query.event_id) continue;
+    if (query.user_id && record.user_id !== query.user_id) continue;
+    if (query.from !== undefined && record.at < query.from) continue;
+    if (query.to !== undefined && record.at > query.to) continue;
+
+    // Deliveries of a deduplicated copy belong to the copy that was dispatched
+    const summaries = record.outcome === 'dispatched' ? summarizeDeliveries(deliveries.get(record.event_id) || []) : [];
+    const relevant = summaries.filter(summary => !query.destination || summary.destination === query.destination);
+    if (query.destination && relevant.length === 0) continue;
+    if (query.status && !relevant.some(summary => summary.status === query.status)) continue;
+
+    const summary: EventSummary = {
+      event_id: record.event_id,
+      event_name: record.event_name,
+      received_at: record.at,
+      source: record.source,
+      outcome: record.outcome,
+      deliveries: summaries
+    };
+    if (record.reason !== undefined) summary.reason = record.reason;
+    if (record.user_id !== undefined) summary.user_id = record.user_id;
+    if (record.client_id !== undefined) summary.client_id = record.client_id;
+    matches.push(summary);
+  }
+
+  return matches.reverse().slice(0, query.limit ?? 100);
+}
+
+// Everything logged for one event_id, or undefined when it was never received or sent
+export function getEventDetail(records: LogRecord[], eventId: string): EventDetail | undefined {
+  const received = records.filter((record): record is ReceivedRecord =>
+    record.type === 'event' && record.event_id === eventId
+  );
+  const deliveries = records.filter((record): record is DeliveryRecord =>
+    record.type === 'delivery' && record.event_ids.includes(eventId)
+  );
+  if (received.length === 0 && deliveries.length === 0) return undefined;
+  return { event_id: eventId, received, deliveries };
+}
+
+// Received-event record for an event about to be dispatched (or dropped)
+export function receivedRecord(
+  event: TrackingEvent,
+  user: UserData,
+  source: ReceivedRecord['source'],
+  outcome: ReceivedRecord['outcome'] = 'dispatched',
+  reason?: string
+): ReceivedRecord {
+  const record: ReceivedRecord = {
+    type: 'event',
+    at: Date.now(),
+    source,
+    event_id: event.event_id,
+    event_name: event.event_name,
+    outcome,
+    event
+  };
+  if (user.user_id) record.user_id = user.user_id;
+  if (user.client_id) record.client_id = user.client_id;
+  if (reason) record.reason = reason;
+  return record;
+}
+
+// Log selected by environment: EVENT_LOG=file (default, EVENT_LOG_FILE) or memory.
+// EVENT_LOG_MAX_BYTES and EVENT_LOG_FILES control rotation.
+export function createEventLog(env: NodeJS.ProcessEnv = process.env): EventLog {
+  if (env.EVENT_LOG === 'memory') return new MemoryEventLog();
+
+  const config: FileEventLogConfig = {};
+  if (Number(env.EVENT_LOG_MAX_BYTES) > 0) config.maxBytes = Number(env.EVENT_LOG_MAX_BYTES);
+  if (Number(env.EVENT_LOG_FILES) > 0) config.maxFiles = Number(env.EVENT_LOG_FILES);
+  return new FileEventLog(env.EVENT_LOG_FILE || 'data/events.ndjson', config);
+}
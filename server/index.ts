@@ -0,0 +1,61 @@
+import dotenv from 'dotenv';
+import { createApp } from './app';
+import { createDeliveryQueue } from './delivery-queue';
+import { getDestinations } from './destinations';
+import { BackgroundDispatcher } from './dispatcher';
+import { createEventLog } from './event-log';
+import { getPaymentProviders } from './payment-providers';
+import { createTrackingTokens } from './tracking-token';
+
+// Load environment variables
+dotenv.config();
+
+const PORT = process.env.PORT || 3001;
+
+// Received events and destination requests, queried through /api/events
+const eventLog = createEventLog();
+
+// Retry failed deliveries in the background
+const deliveryQueue = createDeliveryQueue(process.env, eventLog);
+deliveryQueue.start();
+
+// Business routes hand their events to this and respond immediately
+const dispatcher = new BackgroundDispatcher({
+  concurrency: Number(process.env.TRACKING_CONCURRENCY) || 4,
+  dispatchOptions: { queue: deliveryQueue, eventLog }
+});
+
+// Tokens required on /api/track, unless TRACKING_AUTH=off or no secret is set
+const trackingTokens = createTrackingTokens();
+
+const server = createApp({ deliveryQueue, dispatcher, trackingTokens, eventLog }).listen(PORT, () => {
+  console.log(`\n🚀 Server running on http://localhost:${PORT}`);
+  console.log('\n📊 Tracking Status:');
+  getDestinations().forEach(destination => {
+    const status = destination.isConfigured() ? '✅' : `❌ Set ${destination.requiredEnv.join(' & ')}`;
+    console.log(`   ${destination.label}: ${status}`);
+  });
+  console.log('\n💳 Payment Webhooks:');
+  getPaymentProviders().forEach(provider => {
+    const status = provider.isConfigured() ? `✅ /api/webhooks/${provider.name}` : `❌ Set ${provider.requiredEnv.join(' & ')}`;
+    console.log(`   ${provider.label}: ${status}`);
+  });
+  console.log(`\n🧪 Test events: ${process.env.TRACKING_TEST_MODE === 'true' ? 'every request' : 'per request (X-Tracking-Test)'}`);
+  console.log(`\n🤖 Bot filter: ${process.env.BOT_FILTER === 'off' ? 'off' : 'on'}`);
+  console.log(`\n🔐 Tracking tokens: ${trackingTokens ? 'required' : 'off (set TRACKING_TOKEN_SECRET to require them)'}`);
+  console.log(`\n📬 Delivery queue: ${deliveryQueue.pending().length} pending | ${deliveryQueue.deadLetters().length} dead letters`);
+});
+
+// Finish background deliveries before exiting
+async function shutdown(signal: string): Promise<void> {
+  console.log(`\n👋 ${signal} received - waiting for ${dispatcher.size()} background deliveries`);
+  server.close();
+  deliveryQueue.stop();
+  await dispatcher.idle();
+  await deliveryQueue.flush();
+  await eventLog.flush();
+  process.exit(0);
+}
+
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
+process.once('SIGINT', () => void shutdown('SIGINT'));
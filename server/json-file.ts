@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+
+// Small JSON persistence helpers for the file-backed server stores
+
+// Parse a JSON file, falling back when it is missing or corrupt
+export function readJsonFile<T>(filePath: string, isValid: (value: unknown) => value is T, fallback: T): T {
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return isValid(parsed) ? parsed : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Serialises writes to one file so a slow write never lands after a newer one
+export class JsonFileWriter {
+  private readonly filePath: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  write(data: unknown): void {
+    const snapshot = JSON.stringify(data);
+    this.writing = this.writing
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, snapshot);
+      })
+      .catch(error => {
+        console.error(`❌ Write to ${this.filePath} failed:`, error instanceof Error ? error.message : error);
+      });
+  }
+
+  // Resolves once pending writes reached the file
+  flush(): Promise<void> {
+    return this.writing;
+  }
+}
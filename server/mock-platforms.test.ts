@@ -0,0 +1,194 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { createApp } from './app';
+import { MemoryDedupStore } from './dedup';
+import { DeliveryQueue } from './delivery-queue';
+import { MemoryEventLog } from './event-log';
+import { MockPlatforms, createMockPlatformsApp, validateGA4, validateMeta, validateTikTok } from './mock-platforms';
+import { MemoryOrderSessionStore } from './order-sessions';
+
+const HASH = 'a'.repeat(64);
+
+describe('platform schemas', () => {
+  const now = Date.UTC(2025, 5, 1);
+
+  it('should check GA4 credentials, event names, parameter limits and items', () => {
+    const issues = validateGA4({ measurement_id: 'G-TEST' }, {
+      client_id: 'client-123',
+      events: [
+        { name: 'add_to_cart', params: { currency: 'PHP', items: [{ item_id: 'PROD-001' }, { id: 'PROD-002', price: 10 }], item_list_name: 'x'.repeat(101) } },
+        { name: 'session_start' },
+        { name: 'add-to-cart' }
+      ]
+    }, now);
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      'api_secret',
+      'events[0].params.items[1]',
+      'events[0].params.item_list_name',
+      'events[1].name',
+      'events[2].name'
+    ]);
+  });
+
+  it('should check Meta event times, action source and hashing', () => {
+    const eventTime = Math.floor(now / 1000);
+    const [valid, stale] = [eventTime, eventTime - 8 * 24 * 60 * 60].map(time => ({
+      event_name: 'Purchase',
+      event_time: time,
+      action_source: 'website',
+      event_source_url: 'https://shop.example.com/checkout',
+      user_data: { em: HASH, client_user_agent: 'Mozilla/5.0' },
+      custom_data: { currency: 'PHP', value: 99.99 }
+    }));
+
+    expect(validateMeta('v18.0', { data: [valid] }, now)).toEqual([]);
+    expect(validateMeta('v18.0', { data: [{ ...stale, user_data: { em: 'test@example.com' } }] }, now).map(issue => issue.path)).toEqual([
+      'data[0].event_time',
+      'data[0].user_data.em',
+      'data[0].user_data.client_user_agent'
+    ]);
+  });
+
+  it('should check TikTok single and batch payloads', () => {
+    const event = { event: 'AddToCart', event_id: 'evt-1', timestamp: '2025-06-01T00:00:00.000Z', context: { user: { email: HASH } } };
+
+    expect(validateTikTok('event/track/', { pixel_code: 'PIXEL', ...event })).toEqual([]);
+    expect(validateTikTok('pixel/batch/', { pixel_code: 'PIXEL', batch: [event, { event: 'AddToCart' }] })).toEqual([
+      { path: 'batch[1].context', message: 'is required' }
+    ]);
+  });
+});
+
+describe('mock platforms server', () => {
+  let mock: MockPlatforms;
+
+  beforeEach(() => {
+    mock = new MockPlatforms();
+  });
+
+  it('should answer like each platform and record the requests', async () => {
+    const app = createMockPlatformsApp(mock);
+
+    const ga4 = await request(app).post('/ga4/mp/collect?measurement_id=G-TEST&api_secret=s').send({ events: [] });
+    const debug = await request(app).post('/ga4/debug/mp/collect?measurement_id=G-TEST&api_secret=s').send({ events: [] });
+    const tiktok = await request(app).post('/tiktok/event/track/').set('Access-Token', 'token').send({ pixel_code: 'PIXEL' });
+
+    expect(ga4.status).toBe(204);
+    expect(debug.body.validationMessages).toContainEqual({ fieldPath: 'client_id', description: 'is required', validationCode: 'VALUE_REQUIRED' });
+    expect(tiktok.body).toMatchObject({ code: 40002 });
+    expect(mock.requests('ga4')).toHaveLength(2);
+    expect(mock.requests('ga4')[0].issues).not.toEqual([]);
+  });
+
+  it('should reject invalid GA4 payloads in strict mode', async () => {
+    const res = await request(createMockPlatformsApp(new MockPlatforms({ strict: true })))
+      .post('/ga4/mp/collect?measurement_id=G-TEST&api_secret=s')
+      .send({ events: [] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should inject errors through the control API', async () => {
+    const app = createMockPlatformsApp(mock);
+    await request(app).post('/_mock/errors').send({ platform: 'meta', status: 503, retryAfter: 30 });
+
+    const failed = await request(app).post('/meta/v18.0/PIXEL/events?access_token=t').send({ data: [] });
+    const next = await request(app).post('/meta/v18.0/PIXEL/events?access_token=t').send({ data: [] });
+
+    expect(failed.status).toBe(503);
+    expect(failed.headers['retry-after']).toBe('30');
+    expect(next.status).toBe(400);
+    expect((await request(app).get('/_mock/requests?platform=meta')).body.requests).toHaveLength(2);
+  });
+});
+
+// The real destinations and pipeline against the mock over HTTP
+describe('end to end', () => {
+  let mock: MockPlatforms;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    mock = new MockPlatforms({ strict: true });
+    server = createMockPlatformsApp(mock).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    Object.entries({
+      VITE_GA_MEASUREMENT_ID: 'G-TEST',
+      VITE_GA_API_SECRET: 'ga-secret',
+      VITE_META_PIXEL_ID: 'meta-pixel',
+      VITE_META_ACCESS_TOKEN: 'meta-token',
+      VITE_TIKTOK_PIXEL_ID: 'tiktok-pixel',
+      VITE_TIKTOK_ACCESS_TOKEN: 'tiktok-token',
+      SITE_URL: 'https://shop.example.com',
+      GA4_BASE_URL: `${baseUrl}/ga4`,
+      META_BASE_URL: `${baseUrl}/meta`,
+      TIKTOK_BASE_URL: `${baseUrl}/tiktok`
+    }).forEach(([key, value]) => vi.stubEnv(key, value));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  // Memory-only stores, so tests never write to data/
+  function createTestApp(deliveryQueue = new DeliveryQueue()) {
+    return createApp({
+      dedupStore: new MemoryDedupStore(),
+      deliveryQueue,
+      trackingTokens: null,
+      botFilter: null,
+      eventLog: new MemoryEventLog(),
+      orderSessions: new MemoryOrderSessionStore()
+    });
+  }
+
+  const payload = {
+    event: {
+      event_name: 'add_to_cart',
+      event_id: 'evt-1',
+      currency: 'PHP',
+      value: 99.99,
+      items: [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }],
+      page_location: 'https://shop.example.com/products/1'
+    },
+    user: { client_id: 'client-123', email: 'Test@Example.com', phone: '09171234567', user_agent: 'Mozilla/5.0' }
+  };
+
+  it('should send schema-valid payloads to every platform', async () => {
+    const res = await request(createTestApp()).post('/api/track').set('User-Agent', 'Mozilla/5.0').send(payload);
+
+    expect(res.body).toMatchObject({ ga4: { success: true }, meta: { success: true }, tiktok: { success: true } });
+    // Destinations are called in parallel, so requests arrive in any order
+    const recorded = mock.requests().map(({ platform, issues }) => ({ platform, issues }));
+    expect(recorded.sort((a, b) => a.platform.localeCompare(b.platform))).toEqual([
+      { platform: 'ga4', issues: [] },
+      { platform: 'meta', issues: [] },
+      { platform: 'tiktok', issues: [] }
+    ]);
+  });
+
+  it('should queue deliveries the platform failed', async () => {
+    const deliveryQueue = new DeliveryQueue();
+    mock.injectError({ platform: 'tiktok', status: 500 });
+
+    const res = await request(createTestApp(deliveryQueue)).post('/api/track').set('User-Agent', 'Mozilla/5.0').send(payload);
+
+    expect(res.body.tiktok).toMatchObject({ success: false, status: 500, queued: true });
+    expect(deliveryQueue.pending()[0].destination).toBe('tiktok');
+  });
+});
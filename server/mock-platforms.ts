@@ -0,0 +1,518 @@
+import crypto from 'crypto';
+import express from 'express';
+import type { Request, Response } from 'express';
+import { isRecord } from './utils';
+import type { ValidationIssue } from './validation';
+
+// Local stand-in for the GA4, Meta and TikTok endpoints the destinations call, for
+// integration tests without live credentials. Payloads are checked against each
+// platform's documented schema, every request is recorded, and errors can be injected.
+// Point the destinations at it with GA4_BASE_URL, META_BASE_URL and TIKTOK_BASE_URL.
+//
+//   GA4     POST /ga4/mp/collect, /ga4/debug/mp/collect
+//           https://developers.google.com/analytics/devguides/collection/protocol/ga4/reference
+//   Meta    POST /meta/{version}/{pixel_id}/events
+//           https://developers.facebook.com/docs/marketing-api/conversions-api/parameters
+//   TikTok  POST /tiktok/event/track/, /tiktok/pixel/batch/
+//           https://business-api.tiktok.com/portal/docs?id=1771101303285761
+
+export type MockPlatform = 'ga4' | 'meta' | 'tiktok';
+
+export const MOCK_PLATFORMS: MockPlatform[] = ['ga4', 'meta', 'tiktok'];
+
+export interface RecordedRequest {
+  platform: MockPlatform;
+  path: string;
+  query: Record<string, unknown>;
+  headers: Record<string, string | undefined>; // auth headers only
+  body: unknown;
+  issues: ValidationIssue[]; // schema violations, empty for a valid payload
+  status: number; // HTTP status answered
+  injected: boolean; // answered with an injected error
+  at: number;
+}
+
+export interface InjectedError {
+  platform: MockPlatform;
+  status: number;
+  body?: unknown; // response body, the platform's error format when absent
+  times?: number; // requests answered with this error (default 1)
+  retryAfter?: number; // Retry-After header, in seconds
+}
+
+export interface MockPlatformsConfig {
+  // Reject invalid payloads even where the real API accepts them silently
+  // (GA4 /mp/collect always answers 204)
+  strict?: boolean;
+}
+
+const SHA256_HEX = /^[a-f0-9]{64}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Event names the Measurement Protocol drops
+const GA4_RESERVED_NAMES = [
+  'ad_activeview', 'ad_click', 'ad_exposure', 'ad_impression', 'ad_query', 'ad_reward', 'adunit_exposure',
+  'app_clear_data', 'app_exception', 'app_install', 'app_remove', 'app_store_refund', 'app_update',
+  'app_upgrade', 'dynamic_link_app_open', 'dynamic_link_app_update', 'dynamic_link_first_open', 'error',
+  'first_open', 'first_visit', 'in_app_purchase', 'notification_dismiss', 'notification_foreground',
+  'notification_open', 'notification_receive', 'os_update', 'session_start', 'session_start_with_rollout',
+  'user_engagement'
+];
+
+const GA4_RESERVED_PREFIXES = ['_', 'firebase_', 'ga_', 'google_', 'gtag.'];
+
+// String parameters allow 100 characters, except these
+const GA4_PARAM_LENGTHS: Record<string, number> = {
+  page_location: 1000,
+  page_referrer: 420,
+  page_title: 300
+};
+
+const META_ACTION_SOURCES = [
+  'email', 'website', 'app', 'phone_call', 'chat', 'physical_store', 'system_generated', 'business_messaging', 'other'
+];
+
+// Meta user_data fields that must be SHA-256 hashed
+const META_HASHED_FIELDS = ['em', 'ph', 'fn', 'ln', 'db', 'ge', 'ct', 'st', 'zp', 'country'];
+
+// Collects schema violations for one payload
+class Issues {
+  readonly list: ValidationIssue[] = [];
+
+  add(path: string, message: string): void {
+    this.list.push({ path, message });
+  }
+
+  requireString(value: unknown, path: string): void {
+    if (typeof value !== 'string' || value === '') this.add(path, 'is required');
+  }
+
+  optionalString(value: unknown, path: string, maxLength = Infinity): void {
+    if (value === undefined) return;
+    if (typeof value !== 'string') this.add(path, 'must be a string');
+    else if (value.length > maxLength) this.add(path, `must be at most ${maxLength} characters`);
+  }
+
+  optionalNumber(value: unknown, path: string): void {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) this.add(path, 'must be a number');
+  }
+
+  optionalCurrency(value: unknown, path: string): void {
+    if (value !== undefined && (typeof value !== 'string' || !/^[A-Z]{3}$/i.test(value))) {
+      this.add(path, 'must be a 3-letter ISO 4217 code');
+    }
+  }
+
+  optionalHash(value: unknown, path: string): void {
+    if (value === undefined) return;
+    const values = Array.isArray(value) ? value : [value];
+    if (!values.every(hash => typeof hash === 'string' && SHA256_HEX.test(hash))) {
+      this.add(path, 'must be a lowercase SHA-256 hex hash');
+    }
+  }
+
+  optionalUrl(value: unknown, path: string): void {
+    if (value === undefined || value === '') return;
+    try {
+      new URL(String(value));
+    } catch {
+      this.add(path, 'must be an absolute URL');
+    }
+  }
+
+  // Array with between 1 and max entries. Returns the entries to check further.
+  array(value: unknown, path: string, max: number): unknown[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      this.add(path, 'must be a non-empty array');
+      return [];
+    }
+    if (value.length > max) this.add(path, `must have at most ${max} entries`);
+    return value;
+  }
+}
+
+export function validateGA4(query: Record<string, unknown>, body: unknown, now: number = Date.now()): ValidationIssue[] {
+  const issues = new Issues();
+  issues.requireString(query.measurement_id, 'measurement_id');
+  issues.requireString(query.api_secret, 'api_secret');
+  if (!isRecord(body)) {
+    issues.add('body', 'must be a JSON object');
+    return issues.list;
+  }
+
+  issues.requireString(body.client_id, 'client_id');
+  issues.optionalString(body.user_id, 'user_id', 256);
+  issues.optionalNumber(body.timestamp_micros, 'timestamp_micros');
+
+  if (body.consent !== undefined) {
+    const consent = isRecord(body.consent) ? body.consent : {};
+    for (const field of ['ad_user_data', 'ad_personalization']) {
+      if (consent[field] !== undefined && consent[field] !== 'GRANTED' && consent[field] !== 'DENIED') {
+        issues.add(`consent.${field}`, 'must be GRANTED or DENIED');
+      }
+    }
+  }
+
+  if (body.user_data !== undefined) {
+    const userData = isRecord(body.user_data) ? body.user_data : {};
+    issues.optionalHash(userData.sha256_email_address, 'user_data.sha256_email_address');
+    issues.optionalHash(userData.sha256_phone_number, 'user_data.sha256_phone_number');
+  }
+
+  issues.array(body.events, 'events', 25).forEach((event, index) => {
+    const path = `events[${index}]`;
+    if (!isRecord(event)) {
+      issues.add(path, 'must be an object');
+      return;
+    }
+
+    const name = event.name;
+    if (typeof name !== 'string' || !/^[A-Za-z][A-Za-z0-9_]{0,39}$/.test(name)) {
+      issues.add(`${path}.name`, 'must be 1-40 letters, digits or underscores, starting with a letter');
+    } else if (GA4_RESERVED_NAMES.includes(name) || GA4_RESERVED_PREFIXES.some(prefix => name.startsWith(prefix))) {
+      issues.add(`${path}.name`, 'is reserved');
+    }
+
+    issues.optionalNumber(event.timestamp_micros, `${path}.timestamp_micros`);
+    if (typeof event.timestamp_micros === 'number' && event.timestamp_micros / 1000 < now - 3 * DAY_MS) {
+      issues.add(`${path}.timestamp_micros`, 'must be within the last 72 hours');
+    }
+
+    if (event.params === undefined) return;
+    if (!isRecord(event.params)) {
+      issues.add(`${path}.params`, 'must be an object');
+      return;
+    }
+    const params = Object.entries(event.params);
+    if (params.length > 25) issues.add(`${path}.params`, 'must have at most 25 parameters');
+    for (const [key, value] of params) {
+      if (!/^[A-Za-z][A-Za-z0-9_]{0,39}$/.test(key)) issues.add(`${path}.params.${key}`, 'has an invalid name');
+      if (key === 'items') {
+        issues.array(value, `${path}.params.items`, 200).forEach((item, itemIndex) => {
+          const itemPath = `${path}.params.items[${itemIndex}]`;
+          if (!isRecord(item)) {
+            issues.add(itemPath, 'must be an object');
+          } else if (!item.item_id && !item.item_name) {
+            issues.add(itemPath, 'must have an item_id or item_name');
+          }
+        });
+      } else {
+        issues.optionalString(typeof value === 'string' ? value : undefined, `${path}.params.${key}`, GA4_PARAM_LENGTHS[key] ?? 100);
+      }
+    }
+  });
+
+  return issues.list;
+}
+
+export function validateMeta(version: string, body: unknown, now: number = Date.now()): ValidationIssue[] {
+  const issues = new Issues();
+  if (!/^v\d+\.\d+$/.test(version)) issues.add('version', 'must be a Graph API version like v18.0');
+  if (!isRecord(body)) {
+    issues.add('body', 'must be a JSON object');
+    return issues.list;
+  }
+  issues.optionalString(body.test_event_code, 'test_event_code');
+
+  issues.array(body.data, 'data', 1000).forEach((event, index) => {
+    const path = `data[${index}]`;
+    if (!isRecord(event)) {
+      issues.add(path, 'must be an object');
+      return;
+    }
+
+    issues.requireString(event.event_name, `${path}.event_name`);
+    issues.optionalString(event.event_id, `${path}.event_id`);
+
+    const eventTime = event.event_time;
+    if (typeof eventTime !== 'number' || !Number.isInteger(eventTime)) {
+      issues.add(`${path}.event_time`, 'must be a Unix timestamp in seconds');
+    } else if (eventTime * 1000 < now - 7 * DAY_MS) {
+      issues.add(`${path}.event_time`, 'must be within the last 7 days');
+    } else if (eventTime * 1000 > now + 60 * 1000) {
+      issues.add(`${path}.event_time`, 'must not be in the future');
+    }
+
+    if (typeof event.action_source !== 'string' || !META_ACTION_SOURCES.includes(event.action_source)) {
+      issues.add(`${path}.action_source`, `must be one of ${META_ACTION_SOURCES.join(', ')}`);
+    }
+
+    const userData = event.user_data;
+    if (!isRecord(userData) || Object.values(userData).every(value => value === undefined)) {
+      issues.add(`${path}.user_data`, 'must contain at least one customer information parameter');
+    } else {
+      META_HASHED_FIELDS.forEach(field => issues.optionalHash(userData[field], `${path}.user_data.${field}`));
+      // Website events need the browser's user agent and the page URL
+      if (event.action_source === 'website') {
+        issues.requireString(userData.client_user_agent, `${path}.user_data.client_user_agent`);
+      }
+    }
+    if (event.action_source === 'website') issues.requireString(event.event_source_url, `${path}.event_source_url`);
+    issues.optionalUrl(event.event_source_url, `${path}.event_source_url`);
+
+    if (event.custom_data !== undefined) {
+      const customData = isRecord(event.custom_data) ? event.custom_data : {};
+      issues.optionalCurrency(customData.currency, `${path}.custom_data.currency`);
+      issues.optionalNumber(customData.value, `${path}.custom_data.value`);
+      if (event.event_name === 'Purchase' && (customData.currency === undefined || customData.value === undefined)) {
+        issues.add(`${path}.custom_data`, 'Purchase events require currency and value');
+      }
+      if (customData.contents !== undefined && !Array.isArray(customData.contents)) {
+        issues.add(`${path}.custom_data.contents`, 'must be an array');
+      }
+    }
+  });
+
+  return issues.list;
+}
+
+// One TikTok event, as sent to event/track/ or inside a pixel/batch/ payload
+function validateTikTokEvent(issues: Issues, event: unknown, path: string): void {
+  if (!isRecord(event)) {
+    issues.add(path || 'body', 'must be an object');
+    return;
+  }
+  const prefix = path ? `${path}.` : '';
+
+  issues.requireString(event.event, `${prefix}event`);
+  issues.optionalString(event.event_id, `${prefix}event_id`);
+  if (event.timestamp !== undefined && (typeof event.timestamp !== 'string' || Number.isNaN(Date.parse(event.timestamp)))) {
+    issues.add(`${prefix}timestamp`, 'must be an ISO 8601 date');
+  }
+
+  if (!isRecord(event.context)) {
+    issues.add(`${prefix}context`, 'is required');
+  } else {
+    const { page, user } = event.context;
+    if (isRecord(page)) issues.optionalUrl(page.url, `${prefix}context.page.url`);
+    if (isRecord(user)) {
+      issues.optionalHash(user.email, `${prefix}context.user.email`);
+      issues.optionalHash(user.phone_number, `${prefix}context.user.phone_number`);
+    }
+  }
+
+  if (event.properties !== undefined) {
+    const properties = isRecord(event.properties) ? event.properties : {};
+    issues.optionalCurrency(properties.currency, `${prefix}properties.currency`);
+    issues.optionalNumber(properties.value, `${prefix}properties.value`);
+    if (properties.contents !== undefined && !Array.isArray(properties.contents)) {
+      issues.add(`${prefix}properties.contents`, 'must be an array');
+    }
+  }
+}
+
+export function validateTikTok(path: 'event/track/' | 'pixel/batch/', body: unknown): ValidationIssue[] {
+  const issues = new Issues();
+  if (!isRecord(body)) {
+    issues.add('body', 'must be a JSON object');
+    return issues.list;
+  }
+
+  issues.requireString(body.pixel_code, 'pixel_code');
+  if (path === 'pixel/batch/') {
+    issues.array(body.batch, 'batch', 1000).forEach((event, index) => validateTikTokEvent(issues, event, `batch[${index}]`));
+  } else {
+    validateTikTokEvent(issues, body, '');
+  }
+  return issues.list;
+}
+
+function describeIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+}
+
+// Recorded requests and pending injected errors
+export class MockPlatforms {
+  readonly strict: boolean;
+  private recorded: RecordedRequest[] = [];
+  private errors: InjectedError[] = [];
+
+  constructor(config: MockPlatformsConfig = {}) {
+    this.strict = config.strict ?? false;
+  }
+
+  // Requests received so far, oldest first
+  requests(platform?: MockPlatform): RecordedRequest[] {
+    return this.recorded.filter(request => !platform || request.platform === platform);
+  }
+
+  // Answer the platform's next request(s) with an error
+  injectError(error: InjectedError): void {
+    this.errors.push({ ...error, times: error.times ?? 1 });
+  }
+
+  // Forget recorded requests and pending errors
+  reset(): void {
+    this.recorded = [];
+    this.errors = [];
+  }
+
+  // Next injected error for a platform, used up once its times run out
+  takeError(platform: MockPlatform): InjectedError | undefined {
+    const error = this.errors.find(candidate => candidate.platform === platform);
+    if (!error) return undefined;
+
+    error.times = (error.times ?? 1) - 1;
+    if (error.times <= 0) this.errors = this.errors.filter(candidate => candidate !== error);
+    return error;
+  }
+
+  record(request: RecordedRequest): void {
+    this.recorded.push(request);
+  }
+}
+
+// Error bodies in each platform's format
+function defaultErrorBody(platform: MockPlatform, status: number): unknown {
+  if (platform === 'ga4') return undefined;
+  if (platform === 'meta') {
+    return { error: { message: `Injected error (${status})`, type: 'OAuthException', code: status === 429 ? 4 : 1, fbtrace_id: fbtraceId() } };
+  }
+  return { code: status === 429 ? 40100 : 50000, message: `Injected error (${status})`, request_id: requestId(), data: {} };
+}
+
+function fbtraceId(): string {
+  return crypto.randomBytes(8).toString('base64url');
+}
+
+function requestId(): string {
+  return crypto.randomBytes(12).toString('hex');
+}
+
+interface Answer {
+  status: number;
+  body?: unknown;
+}
+
+// Record a request and send its answer - the injected error when one is pending
+function respond(
+  mock: MockPlatforms,
+  platform: MockPlatform,
+  req: Request,
+  res: Response,
+  issues: ValidationIssue[],
+  answer: Answer
+): void {
+  const error = mock.takeError(platform);
+  const sent: Answer = error
+    ? { status: error.status, body: error.body ?? defaultErrorBody(platform, error.status) }
+    : answer;
+
+  mock.record({
+    platform,
+    path: req.path,
+    query: { ...req.query },
+    headers: { 'access-token': req.get('access-token') },
+    body: req.body,
+    issues,
+    status: sent.status,
+    injected: !!error,
+    at: Date.now()
+  });
+
+  if (error?.retryAfter !== undefined) res.set('Retry-After', String(error.retryAfter));
+  if (sent.body === undefined) res.status(sent.status).end();
+  else res.status(sent.status).json(sent.body);
+}
+
+export function createMockPlatformsApp(mock: MockPlatforms = new MockPlatforms()): express.Express {
+  const app = express();
+  // Some clients post without a content type - parse every body as JSON
+  app.use(express.json({ type: () => true, limit: '5mb' }));
+
+  // GA4 answers 204 to anything, valid or not - only the debug endpoint reports problems
+  app.post('/ga4/mp/collect', (req, res) => {
+    const issues = validateGA4(req.query, req.body);
+    const answer: Answer = mock.strict && issues.length > 0
+      ? { status: 400, body: { validationMessages: ga4Messages(issues) } }
+      : { status: 204 };
+    respond(mock, 'ga4', req, res, issues, answer);
+  });
+
+  app.post('/ga4/debug/mp/collect', (req, res) => {
+    const issues = validateGA4(req.query, req.body);
+    respond(mock, 'ga4', req, res, issues, { status: 200, body: { validationMessages: ga4Messages(issues) } });
+  });
+
+  app.post('/meta/:version/:pixelId/events', (req, res) => {
+    if (!req.query.access_token) {
+      respond(mock, 'meta', req, res, [{ path: 'access_token', message: 'is required' }], {
+        status: 400,
+        body: { error: { message: 'An access token is required to request this resource.', type: 'OAuthException', code: 104, fbtrace_id: fbtraceId() } }
+      });
+      return;
+    }
+
+    const issues = validateMeta(req.params.version, req.body);
+    const events = isRecord(req.body) && Array.isArray(req.body.data) ? req.body.data.length : 0;
+    respond(mock, 'meta', req, res, issues, issues.length > 0
+      ? {
+        status: 400,
+        body: {
+          error: {
+            message: 'Invalid parameter',
+            type: 'OAuthException',
+            code: 100,
+            error_user_msg: describeIssues(issues),
+            fbtrace_id: fbtraceId()
+          }
+        }
+      }
+      : { status: 200, body: { events_received: events, messages: [], fbtrace_id: fbtraceId() } });
+  });
+
+  // TikTok reports errors in `code` with HTTP 200
+  for (const path of ['event/track/', 'pixel/batch/'] as const) {
+    app.post(`/tiktok/${path}`, (req, res) => {
+      if (!req.get('access-token')) {
+        respond(mock, 'tiktok', req, res, [{ path: 'Access-Token', message: 'is required' }], {
+          status: 200,
+          body: { code: 40105, message: 'Access token is incorrect or has been revoked.', request_id: requestId(), data: {} }
+        });
+        return;
+      }
+
+      const issues = validateTikTok(path, req.body);
+      respond(mock, 'tiktok', req, res, issues, {
+        status: 200,
+        body: issues.length > 0
+          ? { code: 40002, message: describeIssues(issues), request_id: requestId(), data: {} }
+          : { code: 0, message: 'OK', request_id: requestId(), data: {} }
+      });
+    });
+  }
+
+  // ===== Test control =====
+
+  app.get('/_mock/requests', (req, res) => {
+    const platform = MOCK_PLATFORMS.find(name => name === req.query.platform);
+    res.json({ requests: mock.requests(platform) });
+  });
+
+  app.delete('/_mock/requests', (_req, res) => {
+    mock.reset();
+    res.status(204).end();
+  });
+
+  app.post('/_mock/errors', (req, res) => {
+    const error: unknown = req.body;
+    if (!isRecord(error) || !MOCK_PLATFORMS.includes(error.platform as MockPlatform) || typeof error.status !== 'number') {
+      res.status(400).json({ error: `Expected { platform: ${MOCK_PLATFORMS.join(' | ')}, status: number, body?, times?, retryAfter? }` });
+      return;
+    }
+    mock.injectError(error as unknown as InjectedError);
+    res.status(201).json({ injected: error });
+  });
+
+  return app;
+}
+
+// Issues in the debug endpoint's validationMessages format
+function ga4Messages(issues: ValidationIssue[]): { fieldPath: string; description: string; validationCode: string }[] {
+  return issues.map(issue => ({
+    fieldPath: issue.path,
+    description: issue.message,
+    validationCode: issue.message === 'is required' ? 'VALUE_REQUIRED' : 'VALUE_INVALID'
+  }));
+}
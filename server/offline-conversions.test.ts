@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MemoryDedupStore } from './dedup';
+import { MemoryEventLog } from './event-log';
+import { importOfflineConversions, parseImportFile } from './offline-conversions';
+
+const NOW = Date.parse('2026-10-18T12:00:00Z');
+
+const ITEMS = '"[{""id"":""SKU-1"",""name"":""Rice cooker, 1L"",""price"":1500,""quantity"":2}]"';
+
+const CSV = [
+  'transaction_id,items,value,currency,email,phone,event_time,fbclid,action_source',
+  `PHONE-1,${ITEMS},3000,PHP,Juan@Example.com,0917 123 4567,2026-10-17T08:30:00Z,IwAR123,`,
+  `COD-2,${ITEMS},,php,,,1760700000,,physical_store`
+].join('\r\n');
+
+function mockPlatforms() {
+  return vi.fn<typeof fetch>(async input => {
+    const url = String(input);
+    if (url.includes('google-analytics.com')) return new Response(null, { status: 204 });
+    if (url.includes('tiktok')) return Response.json({ code: 0, message: 'OK' });
+    return Response.json({ events_received: 1 });
+  });
+}
+
+describe('parseImportFile', () => {
+  it('should read quoted CSV cells with commas and quotes', () => {
+    const { rows } = parseImportFile(CSV, 'csv');
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].line).toBe(2);
+    expect(rows[0].fields.transaction_id).toBe('PHONE-1');
+    expect(JSON.parse(String(rows[0].fields.items))[0].name).toBe('Rice cooker, 1L');
+  });
+
+  it('should report NDJSON lines that are not objects', () => {
+    const { rows, errors } = parseImportFile('{"transaction_id":"A"}\n\nnot json\n[1]\n', 'ndjson');
+
+    expect(rows.map(row => row.line)).toEqual([1]);
+    expect(errors.map(error => error.line)).toEqual([3, 4]);
+  });
+});
+
+describe('importOfflineConversions', () => {
+  let fetchMock: ReturnType<typeof mockPlatforms>;
+
+  beforeEach(() => {
+    vi.stubEnv('VITE_GA_MEASUREMENT_ID', 'G-TEST');
+    vi.stubEnv('VITE_GA_API_SECRET', 'ga-secret');
+    vi.stubEnv('VITE_META_PIXEL_ID', 'meta-pixel');
+    vi.stubEnv('VITE_META_ACCESS_TOKEN', 'meta-token');
+    vi.stubEnv('VITE_TIKTOK_PIXEL_ID', '');
+    fetchMock = mockPlatforms();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should report valid rows without sending on a dry run', async () => {
+    const report = await importOfflineConversions(CSV, { format: 'csv', dryRun: true, now: NOW });
+
+    expect(report).toMatchObject({ dryRun: true, total: 2, valid: 1, invalid: 1, sent: 0 });
+    expect(report.rows[0]).toEqual({
+      line: 2,
+      status: 'valid',
+      transaction_id: 'PHONE-1',
+      event_id: 'offline_PHONE-1',
+      value: 3000,
+      currency: 'PHP',
+      action_source: 'system_generated',
+      match_keys: ['email', 'phone', 'fbc']
+    });
+    expect(report.rows[1]).toMatchObject({
+      line: 3,
+      status: 'invalid',
+      transaction_id: 'COD-2',
+      errors: [
+        { path: 'event_time', message: 'must be within the last 7 days' },
+        { path: '', message: 'needs a customer identifier: email, phone, user_id, client_id or a click ID' }
+      ]
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should send rows as hashed offline purchases and log them', async () => {
+    const eventLog = new MemoryEventLog();
+    const report = await importOfflineConversions(
+      '{"transaction_id":"COD-3","value":450,"phone":"09171234567","user_id":"cust-9","items":[{"id":"SKU-2","name":"Fan","price":450,"quantity":1}]}',
+      { format: 'ndjson', actionSource: 'physical_store', now: NOW },
+      { dispatchOptions: { eventLog } }
+    );
+
+    expect(report).toMatchObject({ sent: 1, failed: 0 });
+    const meta = JSON.parse(String(fetchMock.mock.calls.find(([url]) => String(url).includes('facebook'))?.[1]?.body));
+    expect(meta.data[0]).toMatchObject({ event_name: 'Purchase', event_id: 'offline_COD-3', action_source: 'physical_store' });
+    expect(meta.data[0].user_data.ph).toMatch(/^[a-f0-9]{64}$/);
+    const ga4 = JSON.parse(String(fetchMock.mock.calls.find(([url]) => String(url).includes('google'))?.[1]?.body));
+    expect(ga4).toMatchObject({ client_id: 'offline.COD-3', user_id: 'cust-9' });
+    expect((await eventLog.records())[0]).toMatchObject({ type: 'event', source: 'import', event_id: 'offline_COD-3' });
+  });
+
+  it('should not send offline rows to TikTok', async () => {
+    vi.stubEnv('VITE_TIKTOK_PIXEL_ID', 'tiktok-pixel');
+    vi.stubEnv('VITE_TIKTOK_ACCESS_TOKEN', 'tiktok-token');
+
+    const report = await importOfflineConversions(
+      '{"transaction_id":"COD-5","email":"a@b.ph","items":[{"id":"SKU-2","name":"Fan","price":450,"quantity":1}]}',
+      { format: 'ndjson', now: NOW }
+    );
+
+    expect(report).toMatchObject({ sent: 1, skippedDestinations: ['tiktok'] });
+    expect(report.rows[0].results?.tiktok).toEqual({ success: false, skipped: true, error: 'Action source not supported' });
+    expect(fetchMock.mock.calls.some(([url]) => String(url).includes('tiktok'))).toBe(false);
+  });
+
+  it('should skip orders imported before', async () => {
+    const dedupStore = new MemoryDedupStore();
+    const file = '{"transaction_id":"COD-4","email":"a@b.ph","items":[{"id":"SKU-2","name":"Fan","price":450,"quantity":1}]}';
+
+    await importOfflineConversions(file, { format: 'ndjson', now: NOW }, { dedupStore });
+    const again = await importOfflineConversions(file, { format: 'ndjson', now: NOW }, { dedupStore });
+
+    expect(again).toMatchObject({ sent: 0, duplicates: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject unknown action sources and invalid contact details', async () => {
+    const report = await importOfflineConversions(
+      '{"transaction_id":"X","email":"not-an-email","action_source":"website","items":[{"id":"S","name":"N","price":1,"quantity":1}]}',
+      { format: 'ndjson', dryRun: true, now: NOW }
+    );
+
+    expect(report.rows[0].errors).toEqual([
+      { path: 'action_source', message: 'must be one of physical_store, system_generated' },
+      { path: 'email', message: 'is not a valid email address' }
+    ]);
+  });
+});
@@ -0,0 +1,369 @@
+import type { AttributionData, PurchaseEvent, TrackingItem, UserData } from '../src/types/tracking';
+import { releaseIfUndelivered } from './dedup';
+import type { DedupStore } from './dedup';
+import { getEnabledDestinations } from './destinations';
+import { receivedRecord } from './event-log';
+import { isHashed, normalizePII } from './pii';
+import { dispatchBatch, supportsActionSource } from './pipeline';
+import type { DispatchOptions } from './pipeline';
+import type { ActionSource, DispatchEntry, DispatchResults } from './types';
+import { chunk, isRecord } from './utils';
+import { validatePayload } from './validation';
+import type { ValidationIssue } from './validation';
+
+// Offline conversions: orders closed over the phone or confirmed on cash on delivery,
+// which never pass through /api/purchase/complete. A CSV or NDJSON file of orders is
+// mapped to purchase events and sent through the same pipeline as every other event.
+//
+// Columns (CSV header / NDJSON keys):
+//   transaction_id  required
+//   items           JSON array of { id, name, price, quantity } (a JSON string in CSV)
+//   value           defaults to the items total
+//   currency        defaults to PHP
+//   event_time      ISO date or epoch seconds/ms, defaults to now - at most 7 days old
+//   action_source   physical_store or system_generated (the import's default)
+//   email, phone, first_name, last_name, city, state, zip_code, country, user_id
+//   client_id       GA4 client ID of the order's browser session, when known
+//   fbc, fbp, fbclid, gclid, gbraid, wbraid, ttclid
+//   event_id        defaults to offline_<transaction_id>, so re-imports deduplicate
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+export type OfflineActionSource = Exclude<ActionSource, 'website'>;
+
+export const OFFLINE_ACTION_SOURCES: OfflineActionSource[] = ['physical_store', 'system_generated'];
+
+// Rows accepted per import
+export const MAX_IMPORT_ROWS = 10_000;
+
+// Meta rejects events older than 7 days; GA4 records anything past 72 hours as 72 hours old
+const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Entries handed to dispatchBatch at a time
+const DISPATCH_CHUNK_SIZE = 100;
+
+const USER_FIELDS = [
+  'user_id', 'email', 'phone', 'first_name', 'last_name', 'city', 'state', 'zip_code', 'country', 'fbc', 'fbp'
+] as const;
+
+const ATTRIBUTION_FIELDS = ['gclid', 'gbraid', 'wbraid', 'ttclid'] as const;
+
+// Fields that let a platform match the order to a person or an ad click
+const MATCH_KEYS = ['email', 'phone', 'user_id', 'client_id', 'fbc', 'fbp', ...ATTRIBUTION_FIELDS] as const;
+
+// One parsed row and the line it came from (CSV counts the header as line 1)
+export interface ImportRow {
+  line: number;
+  fields: Record<string, unknown>;
+}
+
+export interface ImportOptions {
+  format: ImportFormat;
+  dryRun?: boolean; // validate and report only
+  actionSource?: OfflineActionSource; // for rows without their own, default system_generated
+  now?: number;
+}
+
+export interface ImportRowReport {
+  line: number;
+  status: 'invalid' | 'valid' | 'duplicate' | 'sent' | 'failed'; // 'valid': dry run, not sent
+  transaction_id?: string;
+  event_id?: string;
+  value?: number;
+  currency?: string;
+  action_source?: OfflineActionSource;
+  match_keys?: string[]; // names of the identifiers the row carries, never their values
+  errors?: ValidationIssue[];
+  results?: DispatchResults;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  sent: number;
+  failed: number;
+  skippedDestinations: string[]; // enabled destinations that take no offline events (TikTok)
+  rows: ImportRowReport[];
+}
+
+interface MappedRow {
+  entry: DispatchEntry & { event: PurchaseEvent; actionSource: OfflineActionSource };
+  matchKeys: string[];
+}
+
+// Minimal RFC 4180 parser: quoted fields may hold commas, quotes ("") and line breaks
+function parseCsv(content: string): { cells: string[]; line: number }[] {
+  const records: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') records.push({ cells, line: recordLine });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRecord();
+  return records;
+}
+
+// Rows of a CSV (header row first) or NDJSON file, plus the lines that could not be read
+export function parseImportFile(content: string, format: ImportFormat): { rows: ImportRow[]; errors: ImportRowReport[] } {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowReport[] = [];
+
+  if (format === 'csv') {
+    const [header, ...records] = parseCsv(content.replace(/^\uFEFF/, ''));
+    const columns = (header?.cells || []).map(column => column.trim().toLowerCase());
+    for (const { cells, line } of records) {
+      rows.push({ line, fields: Object.fromEntries(columns.map((column, index) => [column, cells[index]])) });
+    }
+    return { rows, errors };
+  }
+
+  content.split('\n').forEach((text, index) => {
+    if (text.trim() === '') return;
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (!isRecord(parsed)) throw new Error('not an object');
+      rows.push({ line: index + 1, fields: parsed });
+    } catch {
+      errors.push({ line: index + 1, status: 'invalid', errors: [{ path: '', message: 'must be a JSON object' }] });
+    }
+  });
+  return { rows, errors };
+}
+
+// Trimmed string value of a column, undefined when empty
+function text(fields: Record<string, unknown>, column: string): string | undefined {
+  const value = fields[column];
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+// Numeric column: numbers as they are, numeric strings converted, NaN otherwise
+function amount(fields: Record<string, unknown>, column: string): number | undefined {
+  const value = fields[column];
+  if (typeof value === 'number') return value;
+  const raw = text(fields, column);
+  return raw === undefined ? undefined : Number(raw);
+}
+
+// Epoch seconds, epoch milliseconds or an ISO date
+function parseEventTime(value: string): number | undefined {
+  if (/^\d+$/.test(value)) return value.length <= 10 ? Number(value) * 1000 : Number(value);
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function parseItems(value: unknown, errors: ValidationIssue[]): TrackingItem[] | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (Array.isArray(value)) return value as TrackingItem[];
+  try {
+    const parsed: unknown = JSON.parse(String(value));
+    if (Array.isArray(parsed)) return parsed as TrackingItem[];
+  } catch {
+    // Reported below
+  }
+  errors.push({ path: 'items', message: 'must be a JSON array of items' });
+  return undefined;
+}
+
+// Map one row to a purchase event and its customer, validated like /api/track payloads
+function mapRow(row: ImportRow, options: ImportOptions, now: number): MappedRow | ValidationIssue[] {
+  const { fields } = row;
+  const errors: ValidationIssue[] = [];
+
+  const transactionId = text(fields, 'transaction_id');
+  if (!transactionId) errors.push({ path: 'transaction_id', message: 'is required' });
+
+  const items = parseItems(fields.items, errors) || [];
+  const value = amount(fields, 'value') ?? items.reduce((sum, item) => sum + Number(item?.price) * Number(item?.quantity), 0);
+
+  let timestamp = now;
+  const eventTime = text(fields, 'event_time');
+  if (eventTime !== undefined) {
+    const parsed = parseEventTime(eventTime);
+    if (parsed === undefined) {
+      errors.push({ path: 'event_time', message: 'must be an ISO date or an epoch timestamp' });
+    } else if (parsed < now - MAX_EVENT_AGE_MS) {
+      errors.push({ path: 'event_time', message: 'must be within the last 7 days' });
+    } else if (parsed > now + 60 * 1000) {
+      errors.push({ path: 'event_time', message: 'must not be in the future' });
+    } else {
+      timestamp = parsed;
+    }
+  }
+
+  const actionSource = (text(fields, 'action_source') ?? options.actionSource ?? 'system_generated') as OfflineActionSource;
+  if (!OFFLINE_ACTION_SOURCES.includes(actionSource)) {
+    errors.push({ path: 'action_source', message: `must be one of ${OFFLINE_ACTION_SOURCES.join(', ')}` });
+  }
+
+  // GA4 needs a client ID - orders without a browser session get one of their own
+  const user: UserData = { client_id: text(fields, 'client_id') ?? `offline.${transactionId}` };
+  for (const field of USER_FIELDS) {
+    const value = text(fields, field);
+    if (value !== undefined) user[field] = value;
+  }
+  const fbclid = text(fields, 'fbclid');
+  if (!user.fbc && fbclid) user.fbc = `fb.1.${timestamp}.${fbclid}`;
+
+  for (const field of ['email', 'phone'] as const) {
+    const value = user[field];
+    const pii = field === 'email' ? 'em' : 'ph';
+    if (value !== undefined && !isHashed(value) && normalizePII(pii, value, { country: user.country }) === undefined) {
+      errors.push({ path: field, message: `is not a valid ${field === 'email' ? 'email address' : 'phone number'}` });
+    }
+  }
+
+  const attribution: AttributionData = {};
+  for (const field of ATTRIBUTION_FIELDS) {
+    const value = text(fields, field);
+    if (value !== undefined) attribution[field] = value;
+  }
+
+  // The generated client_id does not identify anyone
+  const identifiers: Record<string, string | undefined> = { ...user, ...attribution, client_id: text(fields, 'client_id') };
+  const matchKeys = MATCH_KEYS.filter(key => identifiers[key] !== undefined);
+  if (matchKeys.length === 0) {
+    errors.push({ path: '', message: 'needs a customer identifier: email, phone, user_id, client_id or a click ID' });
+  }
+
+  const event: PurchaseEvent = {
+    event_name: 'purchase',
+    event_id: text(fields, 'event_id') ?? `offline_${transactionId}`,
+    transaction_id: transactionId ?? '',
+    currency: (text(fields, 'currency')?.toUpperCase() ?? 'PHP') as PurchaseEvent['currency'],
+    value,
+    items,
+    timestamp
+  };
+  const payload = { event, user, ...(Object.keys(attribution).length > 0 && { attribution }) };
+  const validation = validatePayload(payload);
+  if (!validation.valid) errors.push(...validation.errors);
+
+  if (errors.length > 0) return errors;
+  return { entry: { ...payload, actionSource }, matchKeys: [...matchKeys] };
+}
+
+function rowReport(row: ImportRow, mapped: MappedRow): ImportRowReport {
+  const { event, actionSource } = mapped.entry;
+  return {
+    line: row.line,
+    status: 'valid',
+    transaction_id: event.transaction_id,
+    event_id: event.event_id,
+    value: event.value,
+    currency: event.currency,
+    action_source: actionSource,
+    match_keys: mapped.matchKeys
+  };
+}
+
+export interface ImportContext {
+  dispatchOptions?: DispatchOptions;
+  dedupStore?: DedupStore; // skips orders imported before, within its window
+}
+
+// Parse, validate and (unless dry run) send a file of offline orders. Invalid rows are
+// reported and skipped; the rest are sent.
+export async function importOfflineConversions(
+  content: string,
+  options: ImportOptions,
+  context: ImportContext = {}
+): Promise<ImportReport> {
+  const now = options.now ?? Date.now();
+  const { rows, errors } = parseImportFile(content, options.format);
+  const reports: ImportRowReport[] = [...errors];
+  const ready: { report: ImportRowReport; mapped: MappedRow }[] = [];
+
+  for (const row of rows) {
+    const mapped = mapRow(row, options, now);
+    if (Array.isArray(mapped)) {
+      const transactionId = text(row.fields, 'transaction_id');
+      reports.push({ line: row.line, status: 'invalid', ...(transactionId && { transaction_id: transactionId }), errors: mapped });
+      continue;
+    }
+    const report = rowReport(row, mapped);
+    reports.push(report);
+    ready.push({ report, mapped });
+  }
+
+  if (!options.dryRun) {
+    const { dispatchOptions = {}, dedupStore } = context;
+    const fresh: typeof ready = [];
+    for (const item of ready) {
+      const { event, user } = item.mapped.entry;
+      if (dedupStore && !(await dedupStore.claim(event.event_id))) {
+        item.report.status = 'duplicate';
+        dispatchOptions.eventLog?.append(receivedRecord(event, user, 'import', 'deduplicated'));
+        continue;
+      }
+      fresh.push(item);
+      dispatchOptions.eventLog?.append(receivedRecord(event, user, 'import'));
+    }
+
+    for (const part of chunk(fresh, DISPATCH_CHUNK_SIZE)) {
+      const dispatched = await dispatchBatch(part.map(item => item.mapped.entry), dispatchOptions);
+      await Promise.all(part.map(async ({ report, mapped }, index) => {
+        const results = dispatched[index];
+        if (dedupStore) await releaseIfUndelivered(dedupStore, mapped.entry.event.event_id, results);
+        report.results = results;
+        const failed = Object.values(results).some(result => !result.success && !result.skipped && !result.queued);
+        report.status = failed ? 'failed' : 'sent';
+      }));
+    }
+  }
+
+  const skippedDestinations = getEnabledDestinations()
+    .filter(destination => ready.some(({ mapped }) => !supportsActionSource(destination, mapped.entry.actionSource)))
+    .map(destination => destination.name);
+
+  reports.sort((a, b) => a.line - b.line);
+  const count = (status: ImportRowReport['status']) => reports.filter(report => report.status === status).length;
+  return {
+    dryRun: !!options.dryRun,
+    total: reports.length,
+    valid: ready.length,
+    invalid: count('invalid'),
+    duplicates: count('duplicate'),
+    sent: count('sent'),
+    failed: count('failed'),
+    skippedDestinations,
+    rows: reports
+  };
+}
@@ -0,0 +1,107 @@
+import type { AttributionData, ConsentState, TrackingItem, UserData } from '../src/types/tracking';
+import { JsonFileWriter, readJsonFile } from './json-file';
+import { isRecord } from './utils';
+
+// Browser context of an order, saved at checkout. A payment webhook arrives without the
+// customer's cookies, IP or user agent; looking its order ID up here lets the purchase
+// carry the same click IDs and browser IDs as if the browser had reported it.
+
+// Payments can complete long after checkout (bank transfers, e-wallet approvals)
+export const DEFAULT_ORDER_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface OrderSession {
+  orderId: string;
+  user: UserData; // with the browser's fbc, fbp, IP address and user agent
+  consent?: ConsentState;
+  attribution?: AttributionData;
+  items: TrackingItem[];
+  page_location?: string;
+  createdAt: number;
+}
+
+export interface OrderSessionStore {
+  save(session: OrderSession): void;
+  get(orderId: string, now?: number): OrderSession | undefined;
+}
+
+export interface OrderSessionStoreConfig {
+  ttlMs?: number;
+  maxEntries?: number; // oldest sessions are forgotten beyond this
+}
+
+// Sessions in memory, lost on restart
+export class MemoryOrderSessionStore implements OrderSessionStore {
+  protected readonly ttlMs: number;
+  protected readonly maxEntries: number;
+  // orderId -> session, in insertion (= checkout) order
+  protected entries = new Map<string, OrderSession>();
+
+  constructor(config: OrderSessionStoreConfig = {}) {
+    this.ttlMs = config.ttlMs ?? DEFAULT_ORDER_SESSION_TTL_MS;
+    this.maxEntries = config.maxEntries ?? 100_000;
+  }
+
+  // A repeated checkout of the same order replaces its session
+  save(session: OrderSession): void {
+    this.entries.delete(session.orderId);
+    this.entries.set(session.orderId, session);
+    this.prune(session.createdAt);
+    this.onChange();
+  }
+
+  get(orderId: string, now: number = Date.now()): OrderSession | undefined {
+    const session = this.entries.get(orderId);
+    return session && now - session.createdAt < this.ttlMs ? session : undefined;
+  }
+
+  // Hook for persistent subclasses
+  protected onChange(): void {}
+
+  // Drop expired sessions and enforce the size cap - the oldest are at the front
+  protected prune(now: number): void {
+    for (const [orderId, session] of this.entries) {
+      if (now - session.createdAt < this.ttlMs && this.entries.size <= this.maxEntries) break;
+      this.entries.delete(orderId);
+    }
+  }
+}
+
+function isSessionList(value: unknown): value is [string, OrderSession][] {
+  return Array.isArray(value) && value.every(entry =>
+    Array.isArray(entry) && typeof entry[0] === 'string' && isRecord(entry[1]) && typeof entry[1].createdAt === 'number'
+  );
+}
+
+// In-memory store mirrored to a JSON file, so webhooks after a restart still find their
+// order. The file holds customer PII - keep it out of backups and version control.
+export class FileOrderSessionStore extends MemoryOrderSessionStore {
+  private readonly writer: JsonFileWriter;
+
+  constructor(filePath: string, config: OrderSessionStoreConfig = {}) {
+    super(config);
+    this.writer = new JsonFileWriter(filePath);
+    this.entries = new Map(readJsonFile(filePath, isSessionList, []));
+    this.prune(Date.now());
+  }
+
+  // Resolves once pending writes reached the file
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  protected override onChange(): void {
+    this.writer.write([...this.entries]);
+  }
+}
+
+// Store selected by environment: ORDER_SESSIONS=memory (default) or file
+// (ORDER_SESSIONS_FILE), ORDER_SESSION_TTL_MS for how long a checkout is remembered
+export function createOrderSessionStore(env: NodeJS.ProcessEnv = process.env): OrderSessionStore {
+  const config: OrderSessionStoreConfig = {};
+  if (Number(env.ORDER_SESSION_TTL_MS) > 0) config.ttlMs = Number(env.ORDER_SESSION_TTL_MS);
+
+  if (env.ORDER_SESSIONS === 'file') {
+    return new FileOrderSessionStore(env.ORDER_SESSIONS_FILE || 'data/order-sessions.json', config);
+  }
+  return new MemoryOrderSessionStore(config);
+}
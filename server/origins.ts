@@ -0,0 +1,77 @@
+import type { Request, RequestHandler } from 'express';
+
+// Origins the site is served from. Page URLs in incoming events must belong to one of
+// them, so other sites (or spoofed requests) cannot attribute events to our pixels.
+
+// Parse a comma separated list such as 'https://shop.example.com,https://www.example.com'.
+// An empty list allows every origin.
+export function parseAllowedOrigins(value: string | undefined = process.env.ALLOWED_ORIGINS): string[] {
+  if (!value) return [];
+
+  return value.split(',').map(origin => origin.trim()).filter(Boolean).flatMap(origin => {
+    const url = parseHttpUrl(origin);
+    if (url) return [url.origin];
+    console.warn(`⚠️ Ignoring invalid origin in ALLOWED_ORIGINS: ${origin}`);
+    return [];
+  });
+}
+
+// Absolute http(s) URL, or undefined
+export function parseHttpUrl(value: string): URL | undefined {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function isAllowedUrl(value: string, allowedOrigins: string[]): boolean {
+  const url = parseHttpUrl(value);
+  if (!url) return false;
+  return allowedOrigins.length === 0 || allowedOrigins.includes(url.origin);
+}
+
+// Origin of the page a request came from: the Origin header, else the Referer's origin
+// (browsers leave Origin out of same-origin GETs)
+export function requestOrigin(req: Request): string | undefined {
+  const origin = req.get('origin');
+  if (origin) return origin;
+
+  const referer = req.get('referer');
+  return referer ? parseHttpUrl(referer)?.origin : undefined;
+}
+
+// Stricter check for handing out tracking tokens: the request must name one of our
+// pages. Scripts that send neither Origin nor Referer are refused, and without an
+// allow-list no page can be verified, so no tokens are issued at all.
+export function requirePageOrigin(allowedOrigins: string[]): RequestHandler {
+  return (req, res, next) => {
+    if (allowedOrigins.length === 0) {
+      res.status(503).json({ error: 'Tracking tokens need ALLOWED_ORIGINS' });
+      return;
+    }
+
+    const origin = requestOrigin(req);
+    if (!origin || !allowedOrigins.includes(origin)) {
+      console.log(`\n🚫 Refused tracking token to ${origin ? `origin ${origin}` : 'a request without Origin or Referer'}`);
+      res.status(403).json({ error: 'Origin not allowed' });
+      return;
+    }
+    next();
+  };
+}
+
+// Browsers always send Origin on cross-site posts (beacons included), and CORS alone
+// does not stop a simple request from being delivered - so refuse it here
+export function requireAllowedOrigin(allowedOrigins: string[]): RequestHandler {
+  return (req, res, next) => {
+    const origin = req.get('origin');
+    if (origin && allowedOrigins.length > 0 && !allowedOrigins.includes(origin)) {
+      console.log(`\n🚫 Rejected request from origin ${origin}`);
+      res.status(403).json({ error: 'Origin not allowed' });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,26 @@
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+// Recorded webhook bodies per provider (fixtures/<provider>/<name>.json), replayed by the
+// local harness (npm run webhook) and the tests. ORDER-FIXTURE in a body stands for the
+// order ID being replayed.
+
+export const FIXTURE_ORDER_ID = 'ORDER-FIXTURE';
+
+const FIXTURES_DIR = fileURLToPath(new URL('./fixtures', import.meta.url));
+
+export function listFixtures(provider: string): string[] {
+  try {
+    return fs.readdirSync(`${FIXTURES_DIR}/${provider}`)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length));
+  } catch {
+    return [];
+  }
+}
+
+// Raw body of a fixture, for the given order
+export function loadFixture(provider: string, name: string, orderId: string = FIXTURE_ORDER_ID): string {
+  const body = fs.readFileSync(`${FIXTURES_DIR}/${provider}/${name}.json`, 'utf8');
+  return body.split(FIXTURE_ORDER_ID).join(orderId);
+}
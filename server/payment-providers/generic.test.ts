@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generic, SIGNATURE_HEADER } from './generic';
+import { loadFixture } from './fixtures';
+
+const NOW = Date.parse('2026-10-18T12:00:00Z');
+
+describe('generic payment provider', () => {
+  beforeEach(() => {
+    vi.stubEnv('GENERIC_WEBHOOK_SECRET', 'whsec-test');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('verify', () => {
+    const body = loadFixture('generic', 'payment-succeeded');
+
+    it('should accept a body signed with the secret', () => {
+      const headers = generic.sign(body, NOW);
+
+      expect(generic.verify(Buffer.from(body), headers, NOW)).toEqual({ valid: true });
+    });
+
+    it('should reject tampered bodies and other secrets', () => {
+      const headers = generic.sign(body, NOW);
+      const tampered = Buffer.from(body.replace('1999.5', '1.5'));
+
+      expect(generic.verify(tampered, headers, NOW)).toEqual({ valid: false, error: 'Invalid signature' });
+      vi.stubEnv('GENERIC_WEBHOOK_SECRET', 'other-secret');
+      expect(generic.verify(Buffer.from(body), headers, NOW)).toEqual({ valid: false, error: 'Invalid signature' });
+    });
+
+    it('should reject replays and missing signatures', () => {
+      const headers = generic.sign(body, NOW - 10 * 60 * 1000);
+
+      expect(generic.verify(Buffer.from(body), headers, NOW)).toEqual({
+        valid: false,
+        error: 'Signature timestamp outside the tolerance'
+      });
+      expect(generic.verify(Buffer.from(body), {}, NOW)).toEqual({ valid: false, error: 'Missing signature' });
+      expect(generic.verify(Buffer.from(body), { [SIGNATURE_HEADER]: 'v1=abc' }, NOW)).toEqual({
+        valid: false,
+        error: 'Malformed signature'
+      });
+    });
+  });
+
+  describe('parse', () => {
+    it('should read a successful payment', () => {
+      const content = generic.parse(JSON.parse(loadFixture('generic', 'payment-succeeded', 'ORDER-7')));
+
+      expect(content).toEqual({
+        kind: 'payment',
+        payment: {
+          id: 'evt_fixture_succeeded',
+          orderId: 'ORDER-7',
+          amount: 1999.5,
+          currency: 'PHP',
+          email: 'juan.delacruz@example.com',
+          phone: '+63 917 123 4567'
+        }
+      });
+    });
+
+    it('should read shipping, tax and items', () => {
+      const content = generic.parse({
+        type: 'payment.succeeded',
+        data: { order_id: 'A', amount: 3150, currency: 'php', shipping: 150, tax: 0, items: [{ id: 'SKU-1', name: 'Rice cooker', price: 1500, quantity: 2 }] }
+      });
+
+      expect(content).toMatchObject({ kind: 'payment', payment: { currency: 'PHP', shipping: 150, tax: 0, items: [{ id: 'SKU-1' }] } });
+    });
+
+    it('should ignore other notifications', () => {
+      expect(generic.parse(JSON.parse(loadFixture('generic', 'payment-failed')))).toEqual({
+        kind: 'ignored',
+        type: 'payment.failed'
+      });
+    });
+
+    it('should reject payments without order or amount', () => {
+      expect(generic.parse({ type: 'payment.succeeded', data: { amount: 10, currency: 'PHP' } })).toEqual({
+        kind: 'invalid',
+        error: 'data.order_id is required'
+      });
+      expect(generic.parse({ type: 'payment.succeeded', data: { order_id: 'A', amount: '10', currency: 'PHP' } })).toEqual({
+        kind: 'invalid',
+        error: 'data.amount must be a non-negative number'
+      });
+    });
+
+    it('should reject malformed items', () => {
+      const payment = (items: unknown) => ({ type: 'payment.succeeded', data: { order_id: 'A', amount: 10, currency: 'PHP', items } });
+
+      expect(generic.parse(payment('SKU-1'))).toEqual({ kind: 'invalid', error: 'data.items must be an array of items' });
+      expect(generic.parse(payment([{ id: 'SKU-1', name: 'Mug', price: 10, quantity: 0 }]))).toEqual({
+        kind: 'invalid',
+        error: 'data.items[0].quantity must be a positive integer'
+      });
+    });
+  });
+});
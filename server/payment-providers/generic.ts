@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import type { CurrencyCode, TrackingItem } from '../../src/types/tracking';
+import type { CompletedPayment, PaymentProvider } from '../types';
+import { isRecord } from '../utils';
+import { validateItems } from '../validation';
+import type { ValidationIssue } from '../validation';
+
+// Generic payment webhooks, for an in-house payment service or a provider without its
+// own adapter. Body:
+//
+//   { "id": "evt_1", "type": "payment.succeeded", "created": 1760700000,
+//     "data": { "order_id": "ORDER-1", "amount": 1999.5, "currency": "PHP",
+//               "shipping": 150, "tax": 0, "email": "...", "phone": "...", "items": [...] } }
+//
+// Signed like Stripe: X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">
+// with GENERIC_WEBHOOK_SECRET.
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+
+// Older signatures are rejected, so a captured delivery cannot be replayed later
+const TOLERANCE_MS = 5 * 60 * 1000;
+
+function hmac(secret: string, timestamp: string, rawBody: string | Buffer): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+export const generic: PaymentProvider = {
+  name: 'generic',
+  label: 'Generic',
+  requiredEnv: ['GENERIC_WEBHOOK_SECRET'],
+
+  isConfigured() {
+    return !!process.env.GENERIC_WEBHOOK_SECRET;
+  },
+
+  verify(rawBody, headers, now = Date.now()) {
+    const secret = process.env.GENERIC_WEBHOOK_SECRET || '';
+    const header = headers[SIGNATURE_HEADER];
+    if (typeof header !== 'string') return { valid: false, error: 'Missing signature' };
+
+    const parts = Object.fromEntries(header.split(',').map(part => {
+      const separator = part.indexOf('=');
+      return [part.slice(0, separator).trim(), part.slice(separator + 1).trim()];
+    }));
+    const { t: timestamp, v1: signature } = parts;
+    if (!timestamp || !signature) return { valid: false, error: 'Malformed signature' };
+
+    const expected = Buffer.from(hmac(secret, timestamp, rawBody));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+
+    if (!(Math.abs(now - Number(timestamp) * 1000) <= TOLERANCE_MS)) {
+      return { valid: false, error: 'Signature timestamp outside the tolerance' };
+    }
+    return { valid: true };
+  },
+
+  sign(rawBody, now = Date.now()) {
+    const timestamp = String(Math.floor(now / 1000));
+    const signature = hmac(process.env.GENERIC_WEBHOOK_SECRET || '', timestamp, rawBody);
+    return { [SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}` };
+  },
+
+  parse(body) {
+    if (!isRecord(body) || typeof body.type !== 'string') return { kind: 'invalid', error: 'Missing type' };
+    if (body.type !== 'payment.succeeded') return { kind: 'ignored', type: body.type };
+
+    const data = isRecord(body.data) ? body.data : {};
+    const orderId = optionalString(data.order_id);
+    const { amount, currency } = data;
+    if (!orderId) return { kind: 'invalid', error: 'data.order_id is required' };
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      return { kind: 'invalid', error: 'data.amount must be a non-negative number' };
+    }
+    if (typeof currency !== 'string' || !/^[A-Za-z]{3}$/.test(currency)) {
+      return { kind: 'invalid', error: 'data.currency must be an ISO 4217 code' };
+    }
+
+    const payment: CompletedPayment = {
+      id: optionalString(body.id) ?? orderId,
+      orderId,
+      amount,
+      currency: currency.toUpperCase() as CurrencyCode
+    };
+    if (typeof body.created === 'number') payment.paidAt = body.created * 1000;
+    for (const field of ['shipping', 'tax'] as const) {
+      const value = data[field];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        return { kind: 'invalid', error: `data.${field} must be a non-negative number` };
+      }
+      payment[field] = value;
+    }
+    const email = optionalString(data.email);
+    const phone = optionalString(data.phone);
+    if (email) payment.email = email;
+    if (phone) payment.phone = phone;
+    if (data.items !== undefined) {
+      const issues: ValidationIssue[] = [];
+      validateItems(data.items, 'data.items', issues);
+      if (issues.length > 0) return { kind: 'invalid', error: `${issues[0].path} ${issues[0].message}` };
+      payment.items = data.items as TrackingItem[];
+    }
+    return { kind: 'payment', payment };
+  }
+};
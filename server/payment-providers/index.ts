@@ -0,0 +1,20 @@
+import type { PaymentProvider } from '../types';
+import { generic } from './generic';
+
+// Payment provider registry - each one receives webhooks at POST /api/webhooks/<name>
+const registry: PaymentProvider[] = [generic];
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  if (registry.some(existing => existing.name === provider.name)) {
+    throw new Error(`Payment provider '${provider.name}' is already registered`);
+  }
+  registry.push(provider);
+}
+
+export function getPaymentProviders(): PaymentProvider[] {
+  return [...registry];
+}
+
+export function getPaymentProvider(name: string): PaymentProvider | undefined {
+  return registry.find(provider => provider.name === name);
+}
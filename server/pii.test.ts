@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { hashPII, isHashed, normalizePII } from './pii';
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('normalizePII', () => {
+  describe('em', () => {
+    it('should trim and lowercase', () => {
+      expect(normalizePII('em', '  John.Doe+Shop@Example.COM ')).toBe('john.doe+shop@example.com');
+    });
+
+    it('should keep Gmail dots and tags for Meta and TikTok', () => {
+      expect(normalizePII('em', 'J.Doe+shop@gmail.com', { platform: 'meta' })).toBe('j.doe+shop@gmail.com');
+      expect(normalizePII('em', 'J.Doe+shop@gmail.com', { platform: 'tiktok' })).toBe('j.doe+shop@gmail.com');
+    });
+
+    it('should canonicalize Gmail addresses for Google', () => {
+      expect(normalizePII('em', 'J.Doe+shop@gmail.com', { platform: 'google' })).toBe('jdoe@gmail.com');
+      expect(normalizePII('em', 'j.doe@googlemail.com', { platform: 'google' })).toBe('jdoe@googlemail.com');
+      expect(normalizePII('em', 'j.doe+shop@example.com', { platform: 'google' })).toBe('j.doe+shop@example.com');
+    });
+
+    it('should drop values that are not emails', () => {
+      expect(normalizePII('em', 'not-an-email')).toBeUndefined();
+      expect(normalizePII('em', 'john@')).toBeUndefined();
+      expect(normalizePII('em', 'john doe@example.com')).toBeUndefined();
+    });
+  });
+
+  describe('ph', () => {
+    it('should convert local PH numbers to E.164 digits', () => {
+      expect(normalizePII('ph', '0917 123 4567')).toBe('639171234567');
+      expect(normalizePII('ph', '917-123-4567')).toBe('639171234567');
+      expect(normalizePII('ph', '(02) 8123-4567')).toBe('63281234567');
+    });
+
+    it('should keep international numbers', () => {
+      expect(normalizePII('ph', '+63 917 123 4567')).toBe('639171234567');
+      expect(normalizePII('ph', '+1 (650) 555-1234')).toBe('16505551234');
+      expect(normalizePII('ph', '0063 917 123 4567')).toBe('639171234567');
+      expect(normalizePII('ph', '639171234567')).toBe('639171234567');
+    });
+
+    it('should use the configured default country', () => {
+      expect(normalizePII('ph', '(650) 555-1234', { defaultCountryCode: '1' })).toBe('16505551234');
+    });
+
+    it('should use the calling code of the address country', () => {
+      expect(normalizePII('ph', '(650) 555-1234', { country: 'US' })).toBe('16505551234');
+      expect(normalizePII('ph', '07911 123456', { country: 'gb' })).toBe('447911123456');
+      expect(normalizePII('ph', '0917 123 4567', { country: 'PH' })).toBe('639171234567');
+    });
+
+    it('should leave local numbers of unknown countries out', () => {
+      expect(normalizePII('ph', '0612345678', { country: 'NL' })).toBeUndefined();
+      expect(normalizePII('ph', '+31 6 12345678', { country: 'NL' })).toBe('31612345678');
+    });
+
+    it('should add the plus sign for Google only', () => {
+      expect(normalizePII('ph', '0917 123 4567', { platform: 'tiktok' })).toBe('639171234567');
+      expect(normalizePII('ph', '0917 123 4567', { platform: 'google' })).toBe('+639171234567');
+    });
+
+    it('should drop values that cannot be phone numbers', () => {
+      expect(normalizePII('ph', 'n/a')).toBeUndefined();
+      expect(normalizePII('ph', '12')).toBeUndefined();
+      expect(normalizePII('ph', '+1234567890123456')).toBeUndefined();
+    });
+  });
+
+  describe('fn / ln', () => {
+    it('should lowercase and strip punctuation and spaces', () => {
+      expect(normalizePII('fn', ' Mary-Ann ')).toBe('maryann');
+      expect(normalizePII('ln', "O'Brien Jr.")).toBe('obrienjr');
+    });
+
+    it('should keep non-Latin letters', () => {
+      expect(normalizePII('fn', 'José')).toBe('josé');
+      expect(normalizePII('ln', 'Nuñez')).toBe('nuñez');
+    });
+
+    it('should drop names without letters', () => {
+      expect(normalizePII('fn', '--')).toBeUndefined();
+    });
+  });
+
+  describe('ct / st', () => {
+    it('should lowercase and remove spaces and punctuation', () => {
+      expect(normalizePII('ct', 'Quezon City')).toBe('quezoncity');
+      expect(normalizePII('ct', 'Las Piñas')).toBe('laspiñas');
+      expect(normalizePII('st', 'Metro Manila')).toBe('metromanila');
+      expect(normalizePII('st', 'CA')).toBe('ca');
+    });
+  });
+
+  describe('zp', () => {
+    it('should remove spaces and dashes', () => {
+      expect(normalizePII('zp', ' 1100 ')).toBe('1100');
+      expect(normalizePII('zp', 'SW1A 1AA', { country: 'GB' })).toBe('sw1a1aa');
+    });
+
+    it('should use the first 5 digits for US zip codes', () => {
+      expect(normalizePII('zp', '94025-1234', { country: 'us' })).toBe('94025');
+    });
+  });
+
+  describe('country', () => {
+    it('should accept ISO alpha-2 codes in lowercase', () => {
+      expect(normalizePII('country', ' PH ')).toBe('ph');
+      expect(normalizePII('country', 'Philippines')).toBeUndefined();
+    });
+  });
+
+  describe('external_id', () => {
+    it('should only trim', () => {
+      expect(normalizePII('external_id', ' User-123 ')).toBe('User-123');
+    });
+  });
+
+  describe('ge', () => {
+    it('should map to f or m', () => {
+      expect(normalizePII('ge', 'Female')).toBe('f');
+      expect(normalizePII('ge', 'M')).toBe('m');
+      expect(normalizePII('ge', 'other')).toBeUndefined();
+    });
+  });
+
+  describe('db', () => {
+    it('should format dates as YYYYMMDD', () => {
+      expect(normalizePII('db', '1990-05-17')).toBe('19900517');
+      expect(normalizePII('db', '1990/05/17')).toBe('19900517');
+      expect(normalizePII('db', '19900517')).toBe('19900517');
+    });
+
+    it('should drop impossible or ambiguous dates', () => {
+      expect(normalizePII('db', '1990-02-31')).toBeUndefined();
+      expect(normalizePII('db', '17/05/1990')).toBeUndefined();
+    });
+  });
+
+  describe('street', () => {
+    it('should lowercase and collapse whitespace', () => {
+      expect(normalizePII('street', '  123  Ayala Ave. ')).toBe('123 ayala ave.');
+    });
+  });
+
+  it('should return undefined for empty values', () => {
+    expect(normalizePII('em', undefined)).toBeUndefined();
+    expect(normalizePII('fn', '   ')).toBeUndefined();
+  });
+});
+
+describe('hashPII', () => {
+  it('should hash the normalized value', () => {
+    expect(hashPII('em', ' Test@Example.com ')).toBe(sha256('test@example.com'));
+    expect(hashPII('ph', '0917 123 4567')).toBe(sha256('639171234567'));
+  });
+
+  it('should not hash already hashed values again', () => {
+    const hashed = sha256('test@example.com');
+
+    expect(hashPII('em', hashed)).toBe(hashed);
+    expect(hashPII('ph', hashed.toUpperCase())).toBe(hashed);
+  });
+
+  it('should return undefined for values that fail normalization', () => {
+    expect(hashPII('em', 'not-an-email')).toBeUndefined();
+    expect(hashPII('ph', undefined)).toBeUndefined();
+  });
+});
+
+describe('isHashed', () => {
+  it('should detect 64-char hex strings', () => {
+    expect(isHashed(sha256('x'))).toBe(true);
+    expect(isHashed('abc123')).toBe(false);
+    expect(isHashed('g'.repeat(64))).toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+
+// PII normalization and hashing for the ad platforms' advanced matching.
+// Every field is normalized the way the platform expects before SHA-256, otherwise
+// the hashes never match the platform's own user data:
+// - Meta:   https://developers.facebook.com/docs/marketing-api/conversions-api/parameters/customer-information-parameters
+// - TikTok: https://business-api.tiktok.com/portal/docs?id=1771101027431425
+// - Google: https://support.google.com/google-ads/answer/13262500 (enhanced conversions)
+
+export type PIIField = 'em' | 'ph' | 'fn' | 'ln' | 'db' | 'ge' | 'street' | 'ct' | 'st' | 'zp' | 'country' | 'external_id';
+
+export type PIIPlatform = 'meta' | 'tiktok' | 'google';
+
+export interface NormalizeOptions {
+  platform?: PIIPlatform; // platform-specific rules (default 'meta')
+  defaultCountryCode?: string; // calling code for local phone numbers (default: from country, else PH)
+  country?: string | undefined; // ISO country of the address, for zip code and phone rules
+}
+
+// Philippines - local numbers like 0917 123 4567 become 639171234567
+export const DEFAULT_COUNTRY_CALLING_CODE = '63';
+
+// Calling codes for local numbers of users whose address has a country. Numbers without
+// a country prefix from any other country are left out rather than given the wrong one.
+const COUNTRY_CALLING_CODES: Record<string, string> = {
+  au: '61',
+  ca: '1',
+  cn: '86',
+  gb: '44',
+  hk: '852',
+  id: '62',
+  in: '91',
+  jp: '81',
+  kr: '82',
+  my: '60',
+  nz: '64',
+  ph: '63',
+  sg: '65',
+  th: '66',
+  tw: '886',
+  us: '1',
+  vn: '84'
+};
+
+const SHA256_HEX = /^[a-f0-9]{64}$/i;
+
+// Domains where Google ignores dots and +tags in the local part
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+// Values hashed upstream (64-char hex) are passed through, never hashed twice
+export function isHashed(value: string): boolean {
+  return SHA256_HEX.test(value.trim());
+}
+
+// Lowercase letters and digits only (city, state)
+function lettersAndDigits(value: string): string {
+  return value.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function normalizeEmail(value: string, platform: PIIPlatform): string | undefined {
+  const email = value.trim().toLowerCase();
+  const at = email.lastIndexOf('@');
+  if (at < 1 || at === email.length - 1 || /\s/.test(email)) return undefined;
+
+  // Google canonicalizes Gmail addresses: j.doe+shop@gmail.com is jdoe@gmail.com
+  const domain = email.slice(at + 1);
+  if (platform === 'google' && GMAIL_DOMAINS.includes(domain)) {
+    const local = email.slice(0, at).split('+')[0].replace(/\./g, '');
+    return local ? `${local}@${domain}` : undefined;
+  }
+  return email;
+}
+
+// E.164 digits. Meta and TikTok hash the digits without '+', Google with it.
+function normalizePhone(value: string, platform: PIIPlatform, defaultCountryCode: string | undefined): string | undefined {
+  const trimmed = value.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (!digits) return undefined;
+
+  if (trimmed.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2); // international dialling prefix
+  } else if (defaultCountryCode === undefined) {
+    return undefined; // local number of a country without a known calling code
+  } else if (digits.startsWith('0')) {
+    digits = defaultCountryCode + digits.slice(1); // national trunk prefix
+  } else if (!digits.startsWith(defaultCountryCode) || digits.length <= 10) {
+    digits = defaultCountryCode + digits; // local number without trunk prefix
+  }
+
+  // E.164 allows at most 15 digits
+  if (digits.length < 8 || digits.length > 15) return undefined;
+  return platform === 'google' ? `+${digits}` : digits;
+}
+
+// Names keep letters (any script), lose punctuation and spacing: "Mary-Ann" -> "maryann"
+function normalizeName(value: string): string | undefined {
+  const name = value.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}]/gu, '');
+  return name || undefined;
+}
+
+// Date of birth as YYYYMMDD. Accepts 1990-05-17, 1990/05/17 and 19900517.
+function normalizeDateOfBirth(value: string): string | undefined {
+  const match = /^(\d{4})[-/.]?(\d{2})[-/.]?(\d{2})$/.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  // Rejects impossible dates such as 1990-02-31
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) return undefined;
+  return `${year}${month}${day}`;
+}
+
+// Street lines keep their words: lowercase, single spaces
+function normalizeStreet(value: string): string | undefined {
+  const street = value.normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' ');
+  return street || undefined;
+}
+
+// US zip codes use the first 5 digits, elsewhere lowercase without spaces or dashes
+function normalizeZip(value: string, country?: string): string | undefined {
+  const zip = value.trim().toLowerCase().replace(/[\s-]/g, '');
+  if (!zip) return undefined;
+  if (country?.trim().toLowerCase() === 'us') return zip.slice(0, 5);
+  return zip;
+}
+
+// ISO 3166-1 alpha-2, lowercase
+function normalizeCountry(value: string): string | undefined {
+  const country = value.trim().toLowerCase();
+  return /^[a-z]{2}$/.test(country) ? country : undefined;
+}
+
+// 'f' or 'm'
+function normalizeGender(value: string): string | undefined {
+  const gender = value.trim().toLowerCase();
+  if (gender === 'f' || gender === 'female') return 'f';
+  if (gender === 'm' || gender === 'male') return 'm';
+  return undefined;
+}
+
+// The address country's calling code, PH when there is no country
+function callingCode(country: string | undefined): string | undefined {
+  const iso = country?.trim().toLowerCase();
+  if (!iso) return DEFAULT_COUNTRY_CALLING_CODE;
+  return COUNTRY_CALLING_CODES[iso];
+}
+
+// Normalize one field for a platform. Returns undefined for values that cannot be
+// valid (e.g. an email without '@'), so they are left out rather than mismatched.
+export function normalizePII(field: PIIField, value: string | undefined, options: NormalizeOptions = {}): string | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+
+  const platform = options.platform || 'meta';
+  switch (field) {
+    case 'em':
+      return normalizeEmail(value, platform);
+    case 'ph':
+      return normalizePhone(value, platform, options.defaultCountryCode || callingCode(options.country));
+    case 'fn':
+    case 'ln':
+      return normalizeName(value);
+    case 'db':
+      return normalizeDateOfBirth(value);
+    case 'ge':
+      return normalizeGender(value);
+    case 'street':
+      return normalizeStreet(value);
+    case 'ct':
+    case 'st':
+      return lettersAndDigits(value) || undefined;
+    case 'zp':
+      return normalizeZip(value, options.country);
+    case 'country':
+      return normalizeCountry(value);
+    case 'external_id':
+      return value.trim();
+  }
+}
+
+// Normalize and SHA-256 hash one field. Already hashed values pass through.
+export function hashPII(field: PIIField, value: string | undefined, options: NormalizeOptions = {}): string | undefined {
+  if (value !== undefined && isHashed(value)) return value.trim().toLowerCase();
+
+  const normalized = normalizePII(field, value, options);
+  if (normalized === undefined) return undefined;
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
@@ -0,0 +1,166 @@
+import { NO_CONSENT, allowsDestination, prepareUser } from './consent';
+import type { DeliveryQueue } from './delivery-queue';
+import type { EventLog } from './event-log';
+import { getEnabledDestinations } from './destinations';
+import type { ActionSource, Destination, DestinationResult, DispatchEntry, DispatchResults } from './types';
+
+// Result reported for a destination the browser sends to itself (hybrid delivery)
+export const BROWSER_ONLY: DestinationResult = { success: false, skipped: true, error: 'Sent by the browser pixel' };
+
+// Result reported for a destination that cannot take the event's action_source
+export const UNSUPPORTED_SOURCE: DestinationResult = { success: false, skipped: true, error: 'Action source not supported' };
+
+export interface DispatchOptions {
+  queue?: DeliveryQueue | undefined; // failed sends are retried from here instead of dropped
+  eventLog?: EventLog | undefined; // records every payload sent and every skipped destination
+}
+
+function logDelivery(
+  options: DispatchOptions,
+  destination: Destination,
+  eventIds: string[],
+  result: DestinationResult,
+  payload?: unknown,
+  test = false
+): void {
+  options.eventLog?.append({
+    type: 'delivery',
+    at: Date.now(),
+    destination: destination.name,
+    event_ids: eventIds,
+    attempt: 1,
+    ...(payload !== undefined && { payload }),
+    ...(test && { test }),
+    result
+  });
+}
+
+// Send a payload, handing it to the delivery queue when it fails. Test events are
+// not retried.
+async function deliver(
+  destination: Destination,
+  payload: unknown,
+  eventIds: string[],
+  options: DispatchOptions,
+  test = false
+): Promise<DestinationResult> {
+  const sent = await destination.send(payload, { test });
+  const result = sent.success || !options.queue || test
+    ? sent
+    : options.queue.add(destination.name, payload, eventIds, sent);
+  logDelivery(options, destination, eventIds, result, payload, test);
+  return result;
+}
+
+// Result for a destination the entry is not sent to, logged as skipped
+function skip(options: DispatchOptions, destination: Destination, entry: DispatchEntry, result: DestinationResult): DestinationResult {
+  logDelivery(options, destination, [entry.event.event_id], result);
+  return result;
+}
+
+// Turn a Promise.allSettled outcome into a destination result
+function settledResult(outcome: PromiseSettledResult<DestinationResult>): DestinationResult {
+  if (outcome.status === 'fulfilled') return outcome.value;
+  return { success: false, error: String(outcome.reason) };
+}
+
+function wantsDestination(entry: DispatchEntry, destination: Destination): boolean {
+  return !entry.destinations || entry.destinations.includes(destination.name);
+}
+
+export function supportsActionSource(destination: Destination, actionSource: ActionSource = 'website'): boolean {
+  return !destination.actionSources || destination.actionSources.includes(actionSource);
+}
+
+// Why the entry is not sent to the destination, if it is not
+function skipReason(entry: DispatchEntry, destination: Destination): DestinationResult | undefined {
+  if (!wantsDestination(entry, destination)) return BROWSER_ONLY;
+  if (!supportsActionSource(destination, entry.actionSource)) return UNSUPPORTED_SOURCE;
+  if (!allowsDestination(destination, entry.consent)) return NO_CONSENT;
+  return undefined;
+}
+
+async function sendEventTo(
+  destination: Destination,
+  entry: DispatchEntry,
+  options: DispatchOptions
+): Promise<DestinationResult> {
+  const { event, user, consent, attribution, actionSource } = entry;
+  const skipped = skipReason(entry, destination);
+  if (skipped) return skip(options, destination, entry, skipped);
+
+  const payload = destination.transform(event, prepareUser(destination, user, consent), consent, attribution, actionSource);
+  return deliver(destination, payload, [event.event_id], options, !!entry.test);
+}
+
+// Send one event to every enabled destination the user consented to
+export async function dispatchEvent(entry: DispatchEntry, options: DispatchOptions = {}): Promise<DispatchResults> {
+  const destinations = getEnabledDestinations();
+  const outcomes = await Promise.allSettled(
+    destinations.map(destination => sendEventTo(destination, entry, options))
+  );
+
+  return Object.fromEntries(destinations.map((destination, i) => [destination.name, settledResult(outcomes[i])]));
+}
+
+// Send many entries to one destination, using its native multi-event payloads when
+// it has them. Returns one result per entry.
+async function sendBatchTo(
+  destination: Destination,
+  entries: DispatchEntry[],
+  options: DispatchOptions
+): Promise<DestinationResult[]> {
+  const results: DestinationResult[] = [];
+  const allowed: (DispatchEntry & { index: number })[] = [];
+
+  entries.forEach((entry, index) => {
+    const skipped = skipReason(entry, destination);
+    if (skipped) {
+      results[index] = skip(options, destination, entry, skipped);
+    } else {
+      allowed.push({ ...entry, user: prepareUser(destination, entry.user, entry.consent), index });
+    }
+  });
+  if (allowed.length === 0) return results;
+
+  if (!destination.transformBatch) {
+    await Promise.all(allowed.map(async entry => {
+      const payload = destination.transform(entry.event, entry.user, entry.consent, entry.attribution, entry.actionSource);
+      results[entry.index] = await deliver(destination, payload, [entry.event.event_id], options, !!entry.test);
+    }));
+    return results;
+  }
+
+  await Promise.all(destination.transformBatch(allowed).map(async ({ payload, indexes }) => {
+    const test = indexes.some(i => allowed[i].test);
+    const result = await deliver(destination, payload, indexes.map(i => allowed[i].event.event_id), options, test);
+    indexes.forEach(i => { results[allowed[i].index] = result; });
+  }));
+  return results;
+}
+
+// Batch version of dispatchEvent - one result set per entry, in order
+export async function dispatchBatch(entries: DispatchEntry[], options: DispatchOptions = {}): Promise<DispatchResults[]> {
+  const destinations = getEnabledDestinations();
+  const outcomes = await Promise.allSettled(
+    destinations.map(destination => sendBatchTo(destination, entries, options))
+  );
+
+  return entries.map((_, index) =>
+    Object.fromEntries(destinations.map((destination, i) => {
+      const outcome = outcomes[i];
+      return [
+        destination.name,
+        outcome.status === 'fulfilled' ? outcome.value[index] : { success: false, error: String(outcome.reason) }
+      ];
+    }))
+  );
+}
+
+// Compact ✅/❌/⏭️/🔁 summary for logs
+export function summarizeResults(results: DispatchResults): Record<string, string> {
+  return Object.fromEntries(Object.entries(results).map(([name, result]) => [
+    name,
+    result.skipped ? '⏭️' : result.success ? '✅' : result.queued ? '🔁' : '❌'
+  ]));
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import type { PurchaseEvent, RefundEvent } from '../src/types/tracking';
+import { receivedRecord } from './event-log';
+import type { LogRecord } from './event-log';
+import { buildRefund, findOrder, orderUser } from './refunds';
+import type { OrderHistory } from './refunds';
+
+const purchase: PurchaseEvent = {
+  event_name: 'purchase',
+  event_id: 'evt-purchase',
+  transaction_id: 'ORDER-1',
+  currency: 'PHP',
+  value: 250,
+  items: [
+    { id: 'SKU-1', name: 'Shirt', price: 100, quantity: 2 },
+    { id: 'SKU-2', name: 'Socks', price: 50, quantity: 1 }
+  ]
+};
+
+function refund(fields: Partial<RefundEvent>): RefundEvent {
+  return { event_name: 'refund', event_id: 'evt-refund', transaction_id: 'ORDER-1', currency: 'PHP', value: 0, ...fields };
+}
+
+function order(refunds: RefundEvent[] = []): OrderHistory {
+  return { purchase, refunds, client_id: 'client-123' };
+}
+
+describe('findOrder', () => {
+  it('should find the purchase and its later refunds', () => {
+    const records: LogRecord[] = [
+      receivedRecord(refund({ value: 10, transaction_id: 'ORDER-2' }), { client_id: 'client-9' }, 'server'),
+      receivedRecord(purchase, { client_id: 'client-123', user_id: 'user-1' }, 'server'),
+      receivedRecord(refund({ value: 50 }), { client_id: 'client-123' }, 'server')
+    ];
+
+    const found = findOrder(records, 'ORDER-1');
+
+    expect(found?.purchase).toEqual(purchase);
+    expect(found?.refunds.map(event => event.value)).toEqual([50]);
+    expect(orderUser(found)).toEqual({ client_id: 'client-123', user_id: 'user-1' });
+  });
+
+  it('should ignore events that were not dispatched', () => {
+    const records = [receivedRecord(purchase, { client_id: 'client-123' }, 'server', 'deduplicated')];
+
+    expect(findOrder(records, 'ORDER-1')).toBeUndefined();
+  });
+});
+
+describe('buildRefund', () => {
+  it('should refund what is left of the order when no items are given', () => {
+    const check = buildRefund({ transactionId: 'ORDER-1' }, order([refund({ value: 50, items: [purchase.items[1]] })]));
+
+    expect(check).toMatchObject({ valid: true, verified: true, event: { event_name: 'refund', currency: 'PHP', value: 200 } });
+    expect(check.valid && check.event.items).toBeUndefined();
+  });
+
+  it('should price a partial refund from the purchased items', () => {
+    const check = buildRefund({ transactionId: 'ORDER-1', items: [{ id: 'SKU-1', quantity: 1 }] }, order());
+
+    expect(check).toMatchObject({
+      valid: true,
+      event: { value: 100, items: [{ id: 'SKU-1', name: 'Shirt', price: 100, quantity: 1 }] }
+    });
+  });
+
+  it('should reject items beyond what is left to refund', () => {
+    const earlier = refund({ value: 100, items: [{ ...purchase.items[0], quantity: 1 }] });
+    const check = buildRefund(
+      { transactionId: 'ORDER-1', items: [{ id: 'SKU-1', quantity: 2 }, { id: 'SKU-3', quantity: 1 }] },
+      order([earlier])
+    );
+
+    expect(check).toEqual({
+      valid: false,
+      errors: [
+        { path: 'items[0].quantity', message: 'must not exceed the 1 left to refund' },
+        { path: 'items[1].id', message: 'was not purchased in this order' }
+      ]
+    });
+  });
+
+  it('should reject a value above the purchase', () => {
+    const check = buildRefund({ transactionId: 'ORDER-1', value: 300 }, order());
+
+    expect(check).toEqual({ valid: false, errors: [{ path: 'value', message: 'must not exceed the 250 left to refund' }] });
+  });
+
+  it('should reject refunds of a fully refunded order', () => {
+    const check = buildRefund({ transactionId: 'ORDER-1', items: [{ id: 'SKU-2', quantity: 1 }] }, order([refund({ value: 250 })]));
+
+    expect(check).toEqual({ valid: false, errors: [{ path: 'transaction_id', message: 'has already been fully refunded' }] });
+  });
+
+  it('should trust the request when the purchase is not logged', () => {
+    const check = buildRefund({ transactionId: 'ORDER-9', value: 80, currency: 'USD' }, undefined);
+
+    expect(check).toMatchObject({ valid: true, verified: false, event: { transaction_id: 'ORDER-9', currency: 'USD', value: 80 } });
+  });
+
+  it('should require prices and currency when the purchase is not logged', () => {
+    expect(buildRefund({ transactionId: 'ORDER-9', items: [{ id: 'SKU-1', quantity: 1 }] }, undefined)).toEqual({
+      valid: false,
+      errors: [{ path: 'items[0]', message: 'needs name and price when the purchase is not in the event log' }]
+    });
+    expect(buildRefund({ transactionId: 'ORDER-9', value: 80 }, undefined)).toEqual({
+      valid: false,
+      errors: [{ path: 'currency', message: 'is required when the purchase is not in the event log' }]
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import type { CurrencyCode, PurchaseEvent, RefundEvent, TrackingItem, UserData } from '../src/types/tracking';
+import type { LogRecord } from './event-log';
+import { generateEventId } from './utils';
+import { validateEvent } from './validation';
+import type { ValidationIssue } from './validation';
+
+// Refunds and cancellations, sent as `refund` events with the refunded amount as a
+// positive value. GA4 takes them off the order's revenue; Meta and TikTok only record a
+// custom Refund event next to the purchase, which leaves its conversion value and ROAS
+// unchanged. A refund is linked to its order by transaction_id; when the order's
+// purchase is in the event log, the refund is checked against it so no more items or
+// value are refunded than were bought.
+
+// Rounding slack when comparing amounts
+const VALUE_TOLERANCE = 0.01;
+
+// An item to refund. name and price come from the logged purchase, and are only
+// needed when the purchase is not in the log.
+export interface RefundItem {
+  id: string;
+  quantity: number;
+  name?: string;
+  price?: number;
+}
+
+export interface RefundRequest {
+  transactionId: string;
+  items?: RefundItem[] | undefined; // partial refund by item, omit for a full refund
+  value?: number | undefined; // defaults to the items' value, or what is left of the order
+  currency?: CurrencyCode | undefined; // defaults to the purchase's currency
+}
+
+// An order as recorded in the event log
+export interface OrderHistory {
+  purchase: PurchaseEvent;
+  refunds: RefundEvent[];
+  user_id?: string;
+  client_id?: string;
+}
+
+export type RefundCheck =
+  | { valid: true; event: RefundEvent; verified: boolean } // verified: checked against the logged purchase
+  | { valid: false; errors: ValidationIssue[] };
+
+// What can still be refunded: value and quantity per item id
+interface Refundable {
+  value: number;
+  items: Map<string, TrackingItem>;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Latest dispatched purchase for the transaction and the refunds dispatched since
+export function findOrder(records: LogRecord[], transactionId: string): OrderHistory | undefined {
+  let order: OrderHistory | undefined;
+
+  for (const record of records) {
+    if (record.type !== 'event' || record.outcome !== 'dispatched') continue;
+    const { event } = record;
+    if (event.event_name === 'purchase' && event.transaction_id === transactionId) {
+      order = { purchase: event, refunds: [] };
+      if (record.user_id) order.user_id = record.user_id;
+      if (record.client_id) order.client_id = record.client_id;
+    } else if (event.event_name === 'refund' && event.transaction_id === transactionId) {
+      order?.refunds.push(event);
+    }
+  }
+
+  return order;
+}
+
+// The purchase's identifiers, so a refund lands on the same GA4 client as the purchase
+export function orderUser(order: OrderHistory | undefined): UserData | undefined {
+  if (!order?.client_id) return undefined;
+  return order.user_id ? { client_id: order.client_id, user_id: order.user_id } : { client_id: order.client_id };
+}
+
+function refundable(order: OrderHistory): Refundable {
+  const items = new Map<string, TrackingItem>();
+  for (const item of order.purchase.items) {
+    const known = items.get(item.id);
+    items.set(item.id, { ...item, quantity: (known?.quantity ?? 0) + item.quantity });
+  }
+
+  let value = order.purchase.value;
+  for (const refund of order.refunds) {
+    value -= refund.value;
+    // A full refund leaves nothing to refund by item
+    for (const [id, item] of items) {
+      const refunded = refund.items
+        ? refund.items.filter(other => other.id === id).reduce((sum, other) => sum + other.quantity, 0)
+        : item.quantity;
+      items.set(id, { ...item, quantity: Math.max(0, item.quantity - refunded) });
+    }
+  }
+
+  return { value: roundAmount(Math.max(0, value)), items };
+}
+
+function refundItem(
+  item: RefundItem,
+  path: string,
+  left: Refundable | undefined,
+  errors: ValidationIssue[]
+): TrackingItem | undefined {
+  if (typeof item?.id !== 'string' || !item.id) {
+    errors.push({ path: `${path}.id`, message: 'is required' });
+    return undefined;
+  }
+  if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+    errors.push({ path: `${path}.quantity`, message: 'must be a positive whole number' });
+    return undefined;
+  }
+
+  if (left) {
+    const purchased = left.items.get(item.id);
+    if (!purchased) {
+      errors.push({ path: `${path}.id`, message: 'was not purchased in this order' });
+      return undefined;
+    }
+    if (item.quantity > purchased.quantity) {
+      errors.push({ path: `${path}.quantity`, message: `must not exceed the ${purchased.quantity} left to refund` });
+      return undefined;
+    }
+    return { ...purchased, quantity: item.quantity };
+  }
+
+  if (typeof item.name !== 'string' || typeof item.price !== 'number') {
+    errors.push({ path, message: 'needs name and price when the purchase is not in the event log' });
+    return undefined;
+  }
+  return { id: item.id, name: item.name, price: item.price, quantity: item.quantity };
+}
+
+// Build the refund event for a request, checked against the order when it is known.
+// Without the order the request is trusted, but must carry currency and value or prices.
+export function buildRefund(request: RefundRequest, order: OrderHistory | undefined, now: number = Date.now()): RefundCheck {
+  const errors: ValidationIssue[] = [];
+  const left = order && refundable(order);
+  if (left && left.value <= VALUE_TOLERANCE) {
+    return { valid: false, errors: [{ path: 'transaction_id', message: 'has already been fully refunded' }] };
+  }
+
+  let items: TrackingItem[] | undefined;
+  if (request.items !== undefined) {
+    if (!Array.isArray(request.items) || request.items.length === 0) {
+      errors.push({ path: 'items', message: 'must list at least one item, or be omitted for a full refund' });
+    } else {
+      items = request.items.flatMap((item, index) => refundItem(item, `items[${index}]`, left, errors) ?? []);
+    }
+  }
+  // Stop here rather than price the refund from a partial item list
+  if (errors.length > 0) return { valid: false, errors };
+
+  const itemsValue = items && roundAmount(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  const value = request.value ?? itemsValue ?? left?.value;
+  if (value === undefined) {
+    errors.push({ path: 'value', message: 'is required when the purchase is not in the event log' });
+  } else if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    errors.push({ path: 'value', message: 'must be a positive amount' });
+  } else if (left && value > left.value + VALUE_TOLERANCE) {
+    errors.push({ path: 'value', message: `must not exceed the ${left.value} left to refund` });
+  }
+
+  const currency = request.currency ?? order?.purchase.currency;
+  if (!currency) {
+    errors.push({ path: 'currency', message: 'is required when the purchase is not in the event log' });
+  } else if (order && currency !== order.purchase.currency) {
+    errors.push({ path: 'currency', message: `must match the purchase currency (${order.purchase.currency})` });
+  }
+
+  if (errors.length > 0 || value === undefined || !currency) return { valid: false, errors };
+
+  const event: RefundEvent = {
+    event_name: 'refund',
+    event_id: generateEventId(),
+    transaction_id: request.transactionId,
+    currency,
+    value: roundAmount(value),
+    timestamp: now,
+    ...(items && { items })
+  };
+
+  const issues = validateEvent(event, 'refund');
+  return issues.length > 0 ? { valid: false, errors: issues } : { valid: true, event, verified: !!order };
+}
@@ -0,0 +1,22 @@
+import type { Request } from 'express';
+import type { DestinationResult } from './types';
+
+// Test events. In test mode Meta and TikTok requests carry the test event code from
+// Events Manager, so they show in the Test Events tab instead of counting as
+// conversions, and GA4 goes to the /debug/mp/collect validation endpoint.
+
+export const TEST_HEADER = 'x-tracking-test';
+
+// Test mode for a request: TRACKING_TEST_MODE=true for every request, or per request
+// with an X-Tracking-Test: true header (?test=true for beacons, which cannot set headers)
+export function isTestRequest(req: Request, env: NodeJS.ProcessEnv = process.env): boolean {
+  if (env.TRACKING_TEST_MODE === 'true') return true;
+  const value = req.headers[TEST_HEADER] ?? req.query?.test;
+  return value === 'true' || value === '1';
+}
+
+// Result for a test event a platform cannot receive without its test event code -
+// sending it without one would count it as a real conversion
+export function missingTestCode(envName: string): DestinationResult {
+  return { success: false, skipped: true, error: `Test mode needs ${envName}` };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { TrackingTokens, createTrackingTokens } from './tracking-token';
+
+describe('TrackingTokens', () => {
+  const tokens = new TrackingTokens('test-secret', 1000);
+
+  it('should accept a token it issued', () => {
+    const { token, expires_at } = tokens.issue(0);
+
+    expect(expires_at).toBe(1000);
+    expect(tokens.verify(token, 500)).toEqual({ valid: true });
+  });
+
+  it('should reject expired tokens', () => {
+    const { token } = tokens.issue(0);
+
+    expect(tokens.verify(token, 1000)).toEqual({ valid: false, error: 'Tracking token expired' });
+  });
+
+  it('should reject tokens with a changed expiry or another secret', () => {
+    const [, nonce, signature] = tokens.issue(0).token.split('.');
+
+    expect(tokens.verify(`999999.${nonce}.${signature}`, 500).valid).toBe(false);
+    expect(new TrackingTokens('other-secret').verify(tokens.issue(0).token, 500)).toEqual({
+      valid: false,
+      error: 'Invalid tracking token'
+    });
+  });
+
+  it('should reject missing and malformed tokens', () => {
+    expect(tokens.verify(undefined)).toEqual({ valid: false, error: 'Missing tracking token' });
+    expect(tokens.verify('not-a-token').valid).toBe(false);
+  });
+});
+
+describe('createTrackingTokens', () => {
+  it('should require tokens once a secret is set', () => {
+    expect(createTrackingTokens({ TRACKING_TOKEN_SECRET: 'secret' })).toBeInstanceOf(TrackingTokens);
+    expect(createTrackingTokens({})).toBeNull();
+  });
+
+  it('should be switched off with TRACKING_AUTH=off', () => {
+    expect(createTrackingTokens({ TRACKING_TOKEN_SECRET: 'secret', TRACKING_AUTH: 'off' })).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import type { RequestHandler } from 'express';
+
+// Short-lived HMAC tokens for the tracking endpoints. Pages fetch one from
+// GET /api/track/token and send it with every /api/track request, so events can
+// only be posted by something that loaded a token from this server recently.
+//
+// Token format: <expires at ms>.<nonce>.<HMAC-SHA256 of "expires.nonce">
+
+export const DEFAULT_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+export const TOKEN_HEADER = 'x-tracking-token';
+
+export interface IssuedToken {
+  token: string;
+  expires_at: number; // ms since epoch
+}
+
+export type TokenCheck = { valid: true } | { valid: false; error: string };
+
+export class TrackingTokens {
+  private readonly secret: string;
+  private readonly ttlMs: number;
+
+  constructor(secret: string, ttlMs: number = DEFAULT_TOKEN_TTL_MS) {
+    this.secret = secret;
+    this.ttlMs = ttlMs;
+  }
+
+  issue(now: number = Date.now()): IssuedToken {
+    const expiresAt = now + this.ttlMs;
+    const body = `${expiresAt}.${crypto.randomBytes(12).toString('hex')}`;
+    return { token: `${body}.${this.sign(body)}`, expires_at: expiresAt };
+  }
+
+  verify(token: string | undefined, now: number = Date.now()): TokenCheck {
+    if (!token) return { valid: false, error: 'Missing tracking token' };
+
+    const parts = token.split('.');
+    if (parts.length !== 3) return { valid: false, error: 'Invalid tracking token' };
+
+    const [expiresAt, nonce, signature] = parts;
+    const expected = Buffer.from(this.sign(`${expiresAt}.${nonce}`));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return { valid: false, error: 'Invalid tracking token' };
+    }
+
+    if (!(Number(expiresAt) > now)) return { valid: false, error: 'Tracking token expired' };
+    return { valid: true };
+  }
+
+  private sign(body: string): string {
+    return crypto.createHmac('sha256', this.secret).update(body).digest('hex');
+  }
+}
+
+// Tokens are checked once TRACKING_TOKEN_SECRET is set. TRACKING_AUTH=off turns the
+// check off again, for local development.
+export function createTrackingTokens(env: NodeJS.ProcessEnv = process.env): TrackingTokens | null {
+  if (env.TRACKING_AUTH === 'off' || !env.TRACKING_TOKEN_SECRET) return null;
+  return new TrackingTokens(env.TRACKING_TOKEN_SECRET, Number(env.TRACKING_TOKEN_TTL_MS) || DEFAULT_TOKEN_TTL_MS);
+}
+
+// Reject tracking requests without a valid token. Beacons cannot set headers, so the
+// token may also come as ?token=.
+export function requireTrackingToken(tokens: TrackingTokens): RequestHandler {
+  return (req, res, next) => {
+    const query = req.query.token;
+    const token = req.get(TOKEN_HEADER) || (typeof query === 'string' ? query : undefined);
+
+    const check = tokens.verify(token);
+    if (!check.valid) {
+      console.log(`\n🚫 Rejected tracking request: ${check.error}`);
+      res.status(401).json({ error: check.error });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,159 @@
+import type { IncomingHttpHeaders } from 'http';
+import type {
+  AddPaymentInfoEvent,
+  AddShippingInfoEvent,
+  AttributionData,
+  ConsentState,
+  CurrencyCode,
+  PageViewEvent,
+  PurchaseEvent,
+  TrackingEvent,
+  TrackingItem,
+  UserData,
+  ViewItemListEvent
+} from '../src/types/tracking';
+import type { FilterReason } from './bot-filter';
+import type { ValidationIssue } from './validation';
+
+// Server-side types for the destination pipeline
+
+// Consent a destination needs: GA4 measures (analytics), Meta and TikTok advertise (ads)
+export type ConsentPurpose = 'analytics' | 'ads';
+
+// Uniform outcome of sending to one destination
+export interface DestinationResult {
+  success: boolean;
+  status?: number; // HTTP status from the platform
+  error?: string;
+  skipped?: boolean; // not sent (e.g. no consent)
+  retryAfterMs?: number; // from a 429 Retry-After header
+  queued?: boolean; // failed, retry scheduled in the delivery queue
+  deadLettered?: boolean; // failed permanently, kept in the dead-letter store
+  validationMessages?: GA4ValidationMessage[]; // GA4 debug endpoint findings (test mode)
+}
+
+// One finding of the GA4 Measurement Protocol validation server
+export interface GA4ValidationMessage {
+  fieldPath?: string;
+  description: string;
+  validationCode: string;
+}
+
+export interface SendOptions {
+  test?: boolean; // send as a test event (see test-mode.ts)
+}
+
+// Where a conversion happened, in Meta's terms: on the site, in a store, or raised by
+// the shop's own systems (refunds, confirmed phone and COD orders)
+export type ActionSource = 'website' | 'physical_store' | 'system_generated';
+
+// Results of one event, keyed by destination name
+export type DispatchResults = Record<string, DestinationResult>;
+
+// Route response for one event: its event_id plus one result per destination
+export interface TrackResponse {
+  event_id: string;
+  [destination: string]: DestinationResult | string;
+}
+
+// Response for an event_id already seen within the deduplication window
+export interface DeduplicatedEvent {
+  event_id: string;
+  deduplicated: true;
+}
+
+// Response for an event dropped by the bot filter
+export interface FilteredEvent {
+  event_id: string;
+  filtered: true;
+  reason: FilterReason;
+}
+
+// Batch result for an event that was not dispatched
+export interface RejectedEvent {
+  event_id: string | undefined;
+  error: string;
+  details?: ValidationIssue[]; // field problems when the event failed validation
+}
+
+// One event on its way to the destinations
+export interface DispatchEntry {
+  event: TrackingEvent;
+  user: UserData;
+  consent?: ConsentState | undefined; // absent when consent management is disabled
+  attribution?: AttributionData | undefined; // click IDs and UTMs, when any were captured
+  destinations?: string[] | undefined; // only these destinations, all when absent (hybrid delivery)
+  test?: boolean | undefined; // test event - not counted by the platforms, never retried
+  actionSource?: ActionSource | undefined; // 'website' when absent
+}
+
+// A native multi-event request; `indexes` points back into the batched entries
+export interface BatchRequest<TPayload> {
+  payload: TPayload;
+  indexes: number[];
+}
+
+// One ad/analytics platform. Adding a platform means writing one module with this
+// shape and registering it in destinations/index.ts - routes never change.
+export interface Destination<TPayload = unknown> {
+  name: string; // key of this destination in route results
+  label: string; // human readable name for logs
+  consentPurpose: ConsentPurpose;
+  actionSources?: ActionSource[]; // where the events it takes may happen, any when absent
+  requiredEnv: string[]; // environment variables holding the credentials
+  isConfigured(): boolean;
+  transform(
+    event: TrackingEvent,
+    user: UserData,
+    consent?: ConsentState,
+    attribution?: AttributionData,
+    actionSource?: ActionSource
+  ): TPayload;
+  transformBatch?(entries: DispatchEntry[]): BatchRequest<TPayload>[];
+  send(payload: TPayload, options?: SendOptions): Promise<DestinationResult>;
+}
+
+// A successful payment reported by a payment provider's webhook
+export interface CompletedPayment {
+  id: string; // the provider's event or payment ID, for logs
+  orderId: string; // our order ID, the purchase's transaction_id
+  amount: number; // in major units (pesos, not centavos)
+  currency: CurrencyCode;
+  shipping?: number; // parts of amount not in the items, in major units
+  tax?: number;
+  paidAt?: number; // ms
+  email?: string;
+  phone?: string;
+  items?: TrackingItem[]; // when the provider knows them, else taken from the checkout
+}
+
+export type SignatureCheck = { valid: true } | { valid: false; error: string };
+
+export type WebhookContent =
+  | { kind: 'payment'; payment: CompletedPayment }
+  | { kind: 'ignored'; type: string } // any other notification (refunds, failed payments, ...)
+  | { kind: 'invalid'; error: string };
+
+// A payment provider whose webhooks report completed payments. Adding a provider means
+// writing one module with this shape and registering it in payment-providers/index.ts.
+export interface PaymentProvider {
+  name: string; // webhook URL segment: POST /api/webhooks/<name>
+  label: string; // human readable name for logs
+  requiredEnv: string[]; // environment variables holding the signing secret
+  isConfigured(): boolean;
+  // Check the signature the provider computed over the raw request body
+  verify(rawBody: Buffer, headers: IncomingHttpHeaders, now?: number): SignatureCheck;
+  // Headers a genuine delivery of this body would carry - for the fixture harness and tests
+  sign(rawBody: string, now?: number): Record<string, string>;
+  parse(body: unknown): WebhookContent;
+}
+
+// Every optional field an event may carry, so payload builders can read them
+// without narrowing to each event type
+export type EventFields = Partial<
+  Omit<PurchaseEvent, 'event_name'> &
+    Omit<AddShippingInfoEvent, 'event_name'> &
+    Omit<AddPaymentInfoEvent, 'event_name'> &
+    Omit<ViewItemListEvent, 'event_name'> &
+    Omit<PageViewEvent, 'event_name'>
+>;
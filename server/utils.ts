@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import type { Request, RequestHandler } from 'express';
+import type { DestinationResult } from './types';
+
+// Split an array into chunks of at most `size` elements
+export function chunk<T>(array: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < array.length; i += size) {
+    chunks.push(array.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Client IP as Express resolves it: the socket address, or the hop our own proxies
+// appended to X-Forwarded-For when 'trust proxy' is set. The header itself is client
+// input - a bot can put any address there.
+export function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || '127.0.0.1';
+}
+
+// Express 'trust proxy' value from TRUST_PROXY: a hop count ("1" behind one load
+// balancer), "true", or addresses/subnets such as "loopback, 10.0.0.0/8". Off when unset.
+export function parseTrustProxy(value: string | undefined = process.env.TRUST_PROXY): boolean | number | string {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+// With 'trust proxy' off, every client behind a proxy shares the proxy's IP - in the
+// bot filter's per-IP limit and in what the platforms match on. Warn once when a
+// forwarded request shows up, the header alone does not prove there is a proxy.
+export function warnUntrustedProxy(): RequestHandler {
+  let warned = false;
+  return (req, _res, next) => {
+    if (!warned && req.headers['x-forwarded-for'] !== undefined) {
+      warned = true;
+      console.warn('⚠️ X-Forwarded-For received but TRUST_PROXY is unset - behind a proxy, set it or every client gets the proxy\'s IP');
+    }
+    next();
+  };
+}
+
+export function generateEventId(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+// event_id of an order's purchase. The purchase route and the payment webhook derive
+// the same ID, so whichever reports the order second is deduplicated.
+export function purchaseEventId(orderId: string): string {
+  return `purchase_${orderId}`;
+}
+
+// Plain JSON object (not null, not an array)
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Keep event times inside a platform's accepted window: future times become now, times
+// older than the window move just inside it (with a minute to spare for the request itself)
+export function clampEventTime(timestamp: number | undefined, maxAgeMs: number, now: number = Date.now()): number {
+  if (timestamp === undefined || timestamp > now) return now;
+  return Math.max(timestamp, now - maxAgeMs + 60 * 1000);
+}
+
+// Retry-After header (seconds or an HTTP date) in milliseconds from now
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Destination result for a non-success HTTP response, keeping Retry-After for the delivery queue
+export function failedResponse(response: Response, error: string): DestinationResult {
+  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+  return {
+    success: false,
+    status: response.status,
+    error,
+    ...(retryAfterMs !== undefined && { retryAfterMs })
+  };
+}
+
+// Runs tasks with the same key one after another, in call order. Tasks with different
+// keys run concurrently.
+export class KeyedQueue {
+  private tails = new Map<string, Promise<unknown>>();
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const result = previous.then(task, task);
+    const tail = result.catch(() => {});
+    this.tails.set(key, tail);
+    // Forget the key once nothing is queued behind this task
+    void tail.then(() => {
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    });
+    return result;
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_ITEMS_PER_EVENT, validateEvent, validatePayload } from './validation';
+
+const item = { id: 'PROD-001', name: 'Test Product', price: 50, quantity: 2 };
+
+const addToCart = {
+  event_name: 'add_to_cart',
+  event_id: 'evt-1',
+  currency: 'PHP',
+  value: 100,
+  items: [item]
+};
+
+function paths(event: unknown) {
+  return validateEvent(event).map(issue => issue.path);
+}
+
+describe('validateEvent', () => {
+  it('should accept a valid event', () => {
+    expect(validateEvent(addToCart)).toEqual([]);
+  });
+
+  it('should reject unknown event names', () => {
+    expect(paths({ ...addToCart, event_name: 'add_to_basket' })).toEqual(['event.event_name']);
+  });
+
+  it('should require event_id', () => {
+    expect(paths({ ...addToCart, event_id: '' })).toEqual(['event.event_id']);
+  });
+
+  it('should require the fields of each event type', () => {
+    expect(paths({ event_name: 'purchase', event_id: 'evt-1' })).toEqual([
+      'event.currency',
+      'event.value',
+      'event.items',
+      'event.transaction_id'
+    ]);
+    expect(paths({ event_name: 'page_view', event_id: 'evt-1' })).toEqual(['event.page_location']);
+  });
+
+  it('should allow optional fields to be omitted', () => {
+    expect(validateEvent({ event_name: 'view_item_list', event_id: 'evt-1', items: [item] })).toEqual([]);
+    expect(validateEvent({ event_name: 'refund', event_id: 'evt-1', transaction_id: 'ORDER-1', currency: 'PHP', value: 100 })).toEqual([]);
+  });
+
+  it('should require page URLs on an allowed origin', () => {
+    const allowedOrigins = ['https://shop.example.com'];
+    const onPage = (page_location: string) => validateEvent({ ...addToCart, page_location }, 'event', { allowedOrigins });
+
+    expect(onPage('https://shop.example.com/cart')).toEqual([]);
+    expect(onPage('https://evil.example.net/cart')).toEqual([{ path: 'event.page_location', message: 'must be on an allowed origin' }]);
+    expect(onPage('javascript:alert(1)')).toEqual([{ path: 'event.page_location', message: 'must be an absolute http(s) URL' }]);
+  });
+
+  it('should accept an empty referrer for direct visits', () => {
+    expect(validateEvent({ ...addToCart, page_referrer: '' })).toEqual([]);
+    expect(paths({ ...addToCart, page_referrer: 'not a url' })).toEqual(['event.page_referrer']);
+  });
+
+  it('should require ISO 4217 currency codes', () => {
+    expect(paths({ ...addToCart, currency: 'php' })).toEqual(['event.currency']);
+    expect(paths({ ...addToCart, currency: 'XYZ' })).toEqual(['event.currency']);
+  });
+
+  it('should reject negative amounts', () => {
+    expect(paths({ ...addToCart, value: -5 })).toEqual(['event.value']);
+    expect(paths({ ...addToCart, items: [{ ...item, price: -1 }] })).toEqual(['event.items[0].price']);
+  });
+
+  it('should validate every item', () => {
+    const issues = validateEvent({ ...addToCart, items: [item, { id: '', price: 10, quantity: 0.5 }] });
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      'event.items[1].id',
+      'event.items[1].name',
+      'event.items[1].quantity'
+    ]);
+  });
+
+  it('should reject a value above the items total', () => {
+    expect(validateEvent({ ...addToCart, value: 150 })).toEqual([
+      { path: 'event.value', message: 'must not exceed the items total (100.00)' }
+    ]);
+  });
+
+  it('should allow discounts, shipping and tax in the value', () => {
+    expect(validateEvent({ ...addToCart, value: 80 })).toEqual([]);
+    expect(
+      validateEvent({ ...addToCart, event_name: 'purchase', transaction_id: 'ORDER-1', value: 130, shipping: 20, tax: 10 })
+    ).toEqual([]);
+  });
+
+  it('should cap the number of items', () => {
+    const items = Array.from({ length: MAX_ITEMS_PER_EVENT + 1 }, () => ({ ...item, quantity: 1 }));
+
+    expect(paths({ ...addToCart, items, value: 0 })).toEqual(['event.items']);
+  });
+});
+
+describe('validatePayload', () => {
+  it('should return the typed payload when valid', () => {
+    const result = validatePayload({ event: addToCart, user: { client_id: 'client-123' } });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should require user.client_id', () => {
+    const result = validatePayload({ event: addToCart, user: {} });
+
+    expect(result).toEqual({ valid: false, errors: [{ path: 'user.client_id', message: 'is required' }] });
+  });
+
+  it('should require optional user fields to be strings', () => {
+    const result = validatePayload({ event: addToCart, user: { client_id: 'client-123', zip_code: 1100 } });
+
+    expect(result).toEqual({ valid: false, errors: [{ path: 'user.zip_code', message: 'must be a string' }] });
+  });
+
+  it('should require attribution fields to be strings', () => {
+    const result = validatePayload({ event: addToCart, user: { client_id: 'client-123' }, attribution: { gclid: ['G-1'] } });
+
+    expect(result).toEqual({ valid: false, errors: [{ path: 'attribution.gclid', message: 'must be a string' }] });
+  });
+
+  it('should check the consent shape when present', () => {
+    const result = validatePayload({ event: addToCart, user: { client_id: 'client-123' }, consent: { analytics: 'yes' } });
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors.map(issue => issue.path)).toEqual([
+      'consent.analytics',
+      'consent.ads',
+      'consent.ad_user_data',
+      'consent.ad_personalization'
+    ]);
+  });
+});
@@ -0,0 +1,329 @@
+import type { AttributionData, ServerEventPayload, TrackingEvent, UserData } from '../src/types/tracking';
+import { isAllowedUrl, parseHttpUrl } from './origins';
+import { isRecord } from './utils';
+
+// Runtime validation of incoming tracking payloads. The per-event rules below are
+// typed against TrackingEvent, so adding a field or event to the shared types fails
+// the type-check until it has a rule here.
+
+// GA4 rejects events with more items than this
+export const MAX_ITEMS_PER_EVENT = 200;
+
+// Rounding slack when comparing value with the items total
+const VALUE_TOLERANCE = 0.01;
+
+// A problem with one field of the payload
+export interface ValidationIssue {
+  path: string; // e.g. 'event.items[0].price'
+  message: string;
+}
+
+export interface ValidationOptions {
+  allowedOrigins?: string[]; // page_location must be on one of these (any origin when empty)
+}
+
+export type ValidationResult =
+  | { valid: true; payload: ServerEventPayload }
+  | { valid: false; errors: ValidationIssue[] };
+
+type FieldKind = 'string' | 'amount' | 'currency' | 'items' | 'page_url' | 'referrer';
+
+interface RequiredRule {
+  kind: FieldKind;
+  required: true;
+}
+
+interface OptionalRule {
+  kind: FieldKind;
+  required?: false;
+}
+
+// One rule per event field; required fields of the type must be required here too
+type EventRules<E> = {
+  [F in Exclude<keyof E, 'event_id' | 'timestamp' | 'event_name'>]-?: Partial<Pick<E, F>> extends Pick<E, F> ? OptionalRule : RequiredRule;
+};
+
+type EventSchemas = { [E in TrackingEvent as E['event_name']]: EventRules<E> };
+
+// Page the event happened on, captured by the client
+const PAGE_RULES = {
+  page_location: { kind: 'page_url' },
+  page_referrer: { kind: 'referrer' }
+} as const;
+
+const ECOMMERCE_RULES = {
+  ...PAGE_RULES,
+  currency: { kind: 'currency', required: true },
+  value: { kind: 'amount', required: true },
+  items: { kind: 'items', required: true }
+} as const;
+
+const ITEM_LIST_RULES = {
+  ...PAGE_RULES,
+  items: { kind: 'items', required: true },
+  item_list_id: { kind: 'string' },
+  item_list_name: { kind: 'string' },
+  currency: { kind: 'currency' },
+  value: { kind: 'amount' }
+} as const;
+
+const ORDER_RULES = {
+  ...PAGE_RULES,
+  transaction_id: { kind: 'string', required: true },
+  affiliation: { kind: 'string' },
+  coupon: { kind: 'string' },
+  shipping: { kind: 'amount' },
+  tax: { kind: 'amount' }
+} as const;
+
+const EVENT_SCHEMAS: EventSchemas = {
+  page_view: {
+    page_location: { kind: 'page_url', required: true },
+    page_title: { kind: 'string' },
+    page_referrer: { kind: 'referrer' }
+  },
+  view_item_list: ITEM_LIST_RULES,
+  select_item: ITEM_LIST_RULES,
+  view_item: ECOMMERCE_RULES,
+  add_to_cart: ECOMMERCE_RULES,
+  remove_from_cart: ECOMMERCE_RULES,
+  view_cart: ECOMMERCE_RULES,
+  add_to_wishlist: ECOMMERCE_RULES,
+  begin_checkout: { ...ECOMMERCE_RULES, coupon: { kind: 'string' } },
+  add_shipping_info: { ...ECOMMERCE_RULES, coupon: { kind: 'string' }, shipping_tier: { kind: 'string' } },
+  add_payment_info: { ...ECOMMERCE_RULES, coupon: { kind: 'string' }, payment_type: { kind: 'string' } },
+  purchase: { ...ECOMMERCE_RULES, ...ORDER_RULES },
+  refund: { ...ORDER_RULES, currency: { kind: 'currency', required: true }, value: { kind: 'amount', required: true }, items: { kind: 'items' } }
+};
+
+const CURRENCIES = new Set(Intl.supportedValuesOf('currency'));
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+export function validateItems(items: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!Array.isArray(items)) {
+    issues.push({ path, message: 'must be an array of items' });
+    return;
+  }
+  if (items.length === 0) {
+    issues.push({ path, message: 'must contain at least one item' });
+  }
+  if (items.length > MAX_ITEMS_PER_EVENT) {
+    issues.push({ path, message: `must contain at most ${MAX_ITEMS_PER_EVENT} items` });
+    return;
+  }
+
+  items.forEach((item: unknown, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (!isRecord(item)) {
+      issues.push({ path: itemPath, message: 'must be an object' });
+      return;
+    }
+    if (typeof item.id !== 'string' || item.id === '') {
+      issues.push({ path: `${itemPath}.id`, message: 'is required' });
+    }
+    if (typeof item.name !== 'string') {
+      issues.push({ path: `${itemPath}.name`, message: 'is required' });
+    }
+    if (!isNonNegative(item.price)) {
+      issues.push({ path: `${itemPath}.price`, message: 'must be a non-negative number' });
+    }
+    if (!Number.isInteger(item.quantity) || (item.quantity as number) < 1) {
+      issues.push({ path: `${itemPath}.quantity`, message: 'must be a positive integer' });
+    }
+    for (const field of ['category', 'variant', 'brand'] as const) {
+      if (item[field] !== undefined && typeof item[field] !== 'string') {
+        issues.push({ path: `${itemPath}.${field}`, message: 'must be a string' });
+      }
+    }
+    if (item.position !== undefined && (!Number.isInteger(item.position) || (item.position as number) < 0)) {
+      issues.push({ path: `${itemPath}.position`, message: 'must be a non-negative integer' });
+    }
+  });
+}
+
+function validateField(
+  kind: FieldKind,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  options: ValidationOptions
+): void {
+  switch (kind) {
+    case 'string':
+      if (typeof value !== 'string') issues.push({ path, message: 'must be a string' });
+      break;
+    case 'amount':
+      if (!isNonNegative(value)) issues.push({ path, message: 'must be a non-negative number' });
+      break;
+    case 'currency':
+      if (typeof value !== 'string' || !CURRENCIES.has(value)) {
+        issues.push({ path, message: 'must be an ISO 4217 currency code' });
+      }
+      break;
+    case 'items':
+      validateItems(value, path, issues);
+      break;
+    case 'page_url':
+      if (typeof value !== 'string' || !parseHttpUrl(value)) {
+        issues.push({ path, message: 'must be an absolute http(s) URL' });
+      } else if (!isAllowedUrl(value, options.allowedOrigins || [])) {
+        issues.push({ path, message: 'must be on an allowed origin' });
+      }
+      break;
+    case 'referrer':
+      // Direct visits have an empty referrer
+      if (typeof value !== 'string' || (value !== '' && !parseHttpUrl(value))) {
+        issues.push({ path, message: 'must be an absolute http(s) URL or empty' });
+      }
+      break;
+  }
+}
+
+// value may be lower than the items total (discounts) but never higher than
+// items + shipping + tax
+function validateValue(event: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  const { value, items, shipping, tax } = event;
+  if (!isNonNegative(value) || !Array.isArray(items)) return;
+
+  let total = isNonNegative(shipping) ? shipping : 0;
+  total += isNonNegative(tax) ? tax : 0;
+  for (const item of items) {
+    if (!isRecord(item) || !isNonNegative(item.price) || !isNonNegative(item.quantity)) return;
+    total += item.price * item.quantity;
+  }
+
+  if (value > total + VALUE_TOLERANCE) {
+    issues.push({ path: `${path}.value`, message: `must not exceed the items total (${total.toFixed(2)})` });
+  }
+}
+
+// Check one event against the rules for its event_name
+export function validateEvent(event: unknown, path = 'event', options: ValidationOptions = {}): ValidationIssue[] {
+  if (!isRecord(event)) return [{ path, message: 'must be an object' }];
+
+  const issues: ValidationIssue[] = [];
+  const { event_name, event_id, timestamp } = event;
+
+  if (typeof event_id !== 'string' || event_id === '') {
+    issues.push({ path: `${path}.event_id`, message: 'is required' });
+  }
+  if (timestamp !== undefined && !isNonNegative(timestamp)) {
+    issues.push({ path: `${path}.timestamp`, message: 'must be a non-negative number' });
+  }
+  if (typeof event_name !== 'string' || !Object.hasOwn(EVENT_SCHEMAS, event_name)) {
+    issues.push({ path: `${path}.event_name`, message: 'must be a supported event name' });
+    return issues;
+  }
+
+  const rules: Record<string, OptionalRule | RequiredRule> = EVENT_SCHEMAS[event_name as TrackingEvent['event_name']];
+  for (const [field, rule] of Object.entries(rules)) {
+    const value = event[field];
+    if (value === undefined) {
+      if (rule.required) issues.push({ path: `${path}.${field}`, message: 'is required' });
+      continue;
+    }
+    validateField(rule.kind, value, `${path}.${field}`, issues, options);
+  }
+
+  validateValue(event, path, issues);
+  return issues;
+}
+
+// Optional user fields are all strings; listed here so new UserData fields need a rule too
+const OPTIONAL_USER_FIELDS: Record<Exclude<keyof UserData, 'client_id'>, true> = {
+  user_id: true,
+  email: true,
+  phone: true,
+  ip_address: true,
+  user_agent: true,
+  fbc: true,
+  fbp: true,
+  first_name: true,
+  last_name: true,
+  date_of_birth: true,
+  gender: true,
+  street: true,
+  city: true,
+  state: true,
+  zip_code: true,
+  country: true
+};
+
+function validateUser(user: unknown, issues: ValidationIssue[]): void {
+  if (!isRecord(user)) {
+    issues.push({ path: 'user', message: 'must be an object' });
+    return;
+  }
+
+  if (typeof user.client_id !== 'string' || user.client_id === '') {
+    issues.push({ path: 'user.client_id', message: 'is required' });
+  }
+  for (const field of Object.keys(OPTIONAL_USER_FIELDS)) {
+    if (user[field] !== undefined && typeof user[field] !== 'string') {
+      issues.push({ path: `user.${field}`, message: 'must be a string' });
+    }
+  }
+}
+
+// Attribution fields are all optional strings
+const ATTRIBUTION_FIELDS: Record<keyof AttributionData, true> = {
+  gclid: true,
+  gbraid: true,
+  wbraid: true,
+  ttclid: true,
+  utm_source: true,
+  utm_medium: true,
+  utm_campaign: true,
+  utm_term: true,
+  utm_content: true
+};
+
+function validateAttribution(attribution: unknown, issues: ValidationIssue[]): void {
+  if (attribution === undefined) return;
+  if (!isRecord(attribution)) {
+    issues.push({ path: 'attribution', message: 'must be an object' });
+    return;
+  }
+
+  for (const field of Object.keys(ATTRIBUTION_FIELDS)) {
+    if (attribution[field] !== undefined && typeof attribution[field] !== 'string') {
+      issues.push({ path: `attribution.${field}`, message: 'must be a string' });
+    }
+  }
+}
+
+// Check a { event, user, consent, attribution } payload as posted to /api/track
+export function validatePayload(body: unknown, options: ValidationOptions = {}): ValidationResult {
+  if (!isRecord(body)) {
+    return { valid: false, errors: [{ path: '', message: 'must be an object with event and user' }] };
+  }
+
+  const errors = validateEvent(body.event, 'event', options);
+
+  validateUser(body.user, errors);
+  validateAttribution(body.attribution, errors);
+
+  if (body.destinations !== undefined) {
+    if (!Array.isArray(body.destinations) || !body.destinations.every(name => typeof name === 'string')) {
+      errors.push({ path: 'destinations', message: 'must be an array of destination names' });
+    }
+  }
+
+  if (body.consent !== undefined) {
+    if (!isRecord(body.consent)) {
+      errors.push({ path: 'consent', message: 'must be an object' });
+    } else {
+      for (const key of ['analytics', 'ads', 'ad_user_data', 'ad_personalization']) {
+        if (typeof body.consent[key] !== 'boolean') {
+          errors.push({ path: `consent.${key}`, message: 'must be a boolean' });
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, payload: body as unknown as ServerEventPayload };
+}
@@ -0,0 +1,148 @@
+import express from 'express';
+import type { PurchaseEvent, UserData } from '../src/types/tracking';
+import { UNKNOWN_CONSENT } from './consent';
+import type { DedupStore } from './dedup';
+import type { BackgroundDispatcher } from './dispatcher';
+import type { OrderSessionStore } from './order-sessions';
+import { getPaymentProvider } from './payment-providers';
+import { isTestRequest } from './test-mode';
+import type { CompletedPayment } from './types';
+import { purchaseEventId } from './utils';
+import { validateEvent } from './validation';
+import type { ValidationIssue } from './validation';
+
+// Payment webhooks: the provider tells us a payment succeeded, even when the customer
+// closed the tab before /api/purchase/complete was called. The purchase is completed with
+// the checkout's browser context and shares its event_id with the purchase route, so an
+// order reported by both is sent once.
+
+export interface WebhookContext {
+  dispatcher: BackgroundDispatcher;
+  dedupStore: DedupStore;
+  orderSessions: OrderSessionStore;
+}
+
+export type WebhookOutcome =
+  | { tracked: true; event_id: string; stitched: boolean } // stitched: matched to a checkout session
+  | { tracked: false; event_id?: string; reason: string }
+  | { tracked: false; reason: string; retry: true } // the provider should send it again later
+  | { tracked: false; event_id: string; reason: 'Invalid purchase'; errors: ValidationIssue[] };
+
+// Turn a completed payment into a purchase event, unless the order was tracked already
+export async function trackPayment(
+  payment: CompletedPayment,
+  context: WebhookContext,
+  test = false
+): Promise<WebhookOutcome> {
+  const eventId = purchaseEventId(payment.orderId);
+  if (!(await context.dedupStore.claim(eventId))) {
+    return { tracked: false, event_id: eventId, reason: 'Purchase already tracked' };
+  }
+
+  const session = context.orderSessions.get(payment.orderId);
+  const items = payment.items ?? session?.items;
+  // Untracked orders are released, so a later checkout, retry or the browser's purchase
+  // call can still track them. The webhook may have beaten /api/checkout, so the
+  // provider is asked to retry once the session is stored.
+  if (!items || items.length === 0) {
+    await context.dedupStore.release(eventId);
+    return { tracked: false, reason: `No items for order ${payment.orderId} - call /api/checkout with its orderId`, retry: true };
+  }
+
+  const event: PurchaseEvent = {
+    event_name: 'purchase',
+    event_id: eventId,
+    transaction_id: payment.orderId,
+    currency: payment.currency,
+    value: payment.amount,
+    items,
+    timestamp: payment.paidAt ?? Date.now(),
+    ...(payment.shipping !== undefined && { shipping: payment.shipping }),
+    ...(payment.tax !== undefined && { tax: payment.tax }),
+    ...(session?.page_location && { page_location: session.page_location })
+  };
+  const errors = validateEvent(event);
+  if (errors.length > 0) {
+    await context.dedupStore.release(eventId);
+    return { tracked: false, event_id: eventId, reason: 'Invalid purchase', errors };
+  }
+
+  // Orders without a checkout session still need a GA4 client ID
+  const user: UserData = { ...(session?.user || { client_id: `webhook.${payment.orderId}` }) };
+  if (payment.email && !user.email) user.email = payment.email;
+  if (payment.phone && !user.phone) user.phone = payment.phone;
+
+  // Without a session the customer's consent is unknown - a session without consent
+  // means the site does not manage consent
+  context.dispatcher.schedule({
+    event,
+    user,
+    consent: session ? session.consent : UNKNOWN_CONSENT,
+    attribution: session?.attribution,
+    test
+  }, 'webhook');
+  return { tracked: true, event_id: event.event_id, stitched: !!session };
+}
+
+// POST /api/webhooks/:provider. Mounted before express.json() - signatures cover the raw body.
+export function createWebhooksRouter(context: WebhookContext): express.Router {
+  const router = express.Router();
+
+  router.post('/:provider', express.raw({ type: () => true, limit: '1mb' }), async (req, res) => {
+    const provider = getPaymentProvider(req.params.provider);
+    if (!provider) {
+      res.status(404).json({ error: `Unknown payment provider '${req.params.provider}'` });
+      return;
+    }
+    if (!provider.isConfigured()) {
+      res.status(503).json({ error: `Webhooks from ${provider.label} disabled. Set ${provider.requiredEnv.join(' & ')}.` });
+      return;
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const signature = provider.verify(rawBody, req.headers);
+    if (!signature.valid) {
+      console.log(`\n🚫 Rejected ${provider.label} webhook: ${signature.error}`);
+      res.status(401).json({ error: signature.error });
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      res.status(400).json({ error: 'Body must be JSON' });
+      return;
+    }
+
+    const content = provider.parse(body);
+    if (content.kind === 'invalid') {
+      console.log(`\n⚠️ Invalid ${provider.label} webhook: ${content.error}`);
+      res.status(400).json({ error: content.error });
+      return;
+    }
+    // Acknowledged, so the provider does not retry notifications we do not track
+    if (content.kind === 'ignored') {
+      res.json({ received: true, tracked: false, reason: `Ignored ${content.type}` });
+      return;
+    }
+
+    const outcome = await trackPayment(content.payment, context, isTestRequest(req));
+    if ('errors' in outcome) {
+      console.log(`\n⚠️ Invalid ${provider.label} payment ${content.payment.id}: ${outcome.errors.length} issue(s)`);
+      res.status(400).json({ error: outcome.reason, details: outcome.errors });
+      return;
+    }
+    // Not acknowledged, so the provider retries - by then the checkout may be stored
+    if ('retry' in outcome) {
+      console.log(`\n⏳ ${provider.label} payment ${content.payment.id}: ${outcome.reason}`);
+      res.status(503).json({ error: outcome.reason });
+      return;
+    }
+    const detail = outcome.tracked ? `tracked${outcome.stitched ? ' (checkout session)' : ''}` : outcome.reason;
+    console.log(`\n💳 ${provider.label} Payment: ${content.payment.id} | Order: ${content.payment.orderId} | ${detail}`);
+    res.json({ received: true, ...outcome });
+  });
+
+  return router;
+}
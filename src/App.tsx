@@ -1,5 +1,6 @@
 import { BrowserRouter, Routes, Route, Link } from 'react-router-dom';
 import { TrackingProvider } from './hooks/useTracking';
+import { usePageViewTracking } from './hooks/usePageViewTracking';
 import { DemoEcommerce } from './components/DemoEcommerce';
 import type { TrackingServiceConfig } from './lib/tracking-service';
 import './App.css';
@@ -20,8 +21,17 @@ const trackingConfig: TrackingServiceConfig = {
   } : undefined,
   serverEndpoint: import.meta.env.VITE_SERVER_ENDPOINT,
   debug: import.meta.env.VITE_DEBUG_MODE === 'true',
+  pageViews: true,
+  // Signed request tokens, for servers with TRACKING_TOKEN_SECRET set
+  ...(import.meta.env.VITE_TRACKING_AUTH === 'true' ? { auth: {} } : {}),
 };
 
+// Sends a page_view on every route change
+function PageViewTracker() {
+  usePageViewTracking();
+  return null;
+}
+
 // Home page component
 function Home() {
   return (
@@ -70,6 +80,7 @@ function App() {
   return (
     <TrackingProvider config={trackingConfig}>
       <BrowserRouter>
+        <PageViewTracker />
         <div className="app">
           <nav className="navbar">
             <div className="nav-content">
@@ -100,6 +100,7 @@ export function DemoEcommerce() {
       const response = await fetch('http://localhost:3001/api/checkout', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        credentials: 'include', // the server reads the click ID and _fbp/_fbc cookies
         body: JSON.stringify({
           items: cart,
           user: {
@@ -131,6 +132,7 @@ export function DemoEcommerce() {
       const response = await fetch('http://localhost:3001/api/purchase/complete', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
         body: JSON.stringify({
           orderId,
           paymentId,
@@ -164,7 +166,13 @@ export function DemoEcommerce() {
     setUserData({
       user_id: 'demo-user-123',
       email: 'demo@example.com',
-      phone: '+1234567890'
+      phone: '+1234567890',
+      first_name: 'Juan',
+      last_name: 'Dela Cruz',
+      city: 'Makati',
+      state: 'Metro Manila',
+      zip_code: '1226',
+      country: 'PH'
     });
     logEvent('User data set for advanced matching');
   };
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { MemoryRouter, useNavigate } from 'react-router-dom';
+import { usePageViewTracking } from './usePageViewTracking';
+import { trackingService } from '../lib/tracking-service';
+import type { ReactNode } from 'react';
+
+describe('usePageViewTracking', () => {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <MemoryRouter initialEntries={['/']}>
+      {children}
+    </MemoryRouter>
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(trackingService, 'trackPageView').mockResolvedValue(undefined);
+  });
+
+  it('should track a page view on mount', () => {
+    renderHook(() => usePageViewTracking(), { wrapper });
+
+    expect(trackingService.trackPageView).toHaveBeenCalledTimes(1);
+  });
+
+  it('should track a page view on every route change', () => {
+    const { result } = renderHook(() => {
+      usePageViewTracking();
+      return useNavigate();
+    }, { wrapper });
+
+    act(() => {
+      result.current('/demo');
+    });
+    act(() => {
+      result.current('/demo?page=2');
+    });
+
+    expect(trackingService.trackPageView).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not track again when only the hash changes', () => {
+    const { result } = renderHook(() => {
+      usePageViewTracking();
+      return useNavigate();
+    }, { wrapper });
+
+    act(() => {
+      result.current('/#reviews');
+    });
+
+    expect(trackingService.trackPageView).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,16 @@
+import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { trackingService } from '../lib/tracking-service';
+
+// Fires a page_view on every react-router location change.
+// Must be rendered inside the router; pair it with `pageViews: true` in the
+// tracking config so the base pixels don't also count the first load.
+export function usePageViewTracking(): void {
+  const location = useLocation();
+
+  useEffect(() => {
+    // The service reads URL and title from the document and drops repeats,
+    // so StrictMode double effects and same-URL re-renders are harmless
+    void trackingService.trackPageView();
+  }, [location.pathname, location.search]);
+}
@@ -22,6 +22,7 @@ describe('useTracking', () => {
     vi.spyOn(trackingService, 'trackAddToCart').mockResolvedValue(undefined);
     vi.spyOn(trackingService, 'trackBeginCheckout').mockResolvedValue(undefined);
     vi.spyOn(trackingService, 'trackPurchase').mockResolvedValue(undefined);
+    vi.spyOn(trackingService, 'trackPageView').mockResolvedValue(undefined);
     vi.spyOn(trackingService, 'trackEvent').mockResolvedValue(undefined);
   });
 
@@ -126,6 +127,17 @@ describe('useTracking', () => {
       );
     });
 
+    it('should track page views', async () => {
+      const { result } = renderHook(() => useTracking());
+      const params = { page_location: 'http://localhost/demo', page_title: 'Demo' };
+
+      await act(async () => {
+        await result.current.trackPageView(params);
+      });
+
+      expect(trackingService.trackPageView).toHaveBeenCalledWith(params);
+    });
+
     it('should track generic events', async () => {
       const { result } = renderHook(() => useTracking());
       const event = {
@@ -1,6 +1,6 @@
 import React, { useCallback, useEffect, useRef, createContext, useContext, type ReactNode } from 'react';
-import { trackingService, type TrackingServiceConfig } from '../lib/tracking-service';
-import type { TrackingItem, CurrencyCode, UserData } from '../types/tracking';
+import { trackingService, type TrackingServiceConfig, type PageViewParams, type ItemListInfo } from '../lib/tracking-service';
+import type { TrackingItem, CurrencyCode, UserData, ConsentState } from '../types/tracking';
 
 // Hook configuration
 export interface UseTrackingConfig extends TrackingServiceConfig {
@@ -19,9 +19,36 @@ export interface UseTrackingReturn {
   // User data
   setUserData: (userData: Partial<UserData>) => void;
   
+  // Consent
+  setConsent: (consent: Partial<ConsentState>) => void;
+  
   // E-commerce events
+  trackViewItemList: (items: TrackingItem[], list?: ItemListInfo) => Promise<void>;
+  trackSelectItem: (item: TrackingItem, list?: ItemListInfo) => Promise<void>;
+  trackViewItem: (items: TrackingItem[], currency: CurrencyCode, value: number) => Promise<void>;
   trackAddToCart: (items: TrackingItem[], currency: CurrencyCode, value: number) => Promise<void>;
+  trackRemoveFromCart: (items: TrackingItem[], currency: CurrencyCode, value: number) => Promise<void>;
+  trackViewCart: (items: TrackingItem[], currency: CurrencyCode, value: number) => Promise<void>;
+  trackAddToWishlist: (items: TrackingItem[], currency: CurrencyCode, value: number) => Promise<void>;
   trackBeginCheckout: (items: TrackingItem[], currency: CurrencyCode, value: number, coupon?: string) => Promise<void>;
+  trackAddShippingInfo: (
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number,
+    additionalParams?: {
+      shipping_tier?: string;
+      coupon?: string;
+    }
+  ) => Promise<void>;
+  trackAddPaymentInfo: (
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number,
+    additionalParams?: {
+      payment_type?: string;
+      coupon?: string;
+    }
+  ) => Promise<void>;
   trackPurchase: (
     transactionId: string,
     items: TrackingItem[],
@@ -35,6 +62,9 @@ export interface UseTrackingReturn {
     }
   ) => Promise<void>;
   
+  // Page views
+  trackPageView: (params?: PageViewParams) => Promise<void>;
+  
   // Generic event tracking
   trackEvent: (event: Parameters<typeof trackingService.trackEvent>[0]) => Promise<void>;
 }
@@ -66,6 +96,30 @@ export function useTracking(config?: UseTrackingConfig): UseTrackingReturn {
     trackingService.setUserData(userData);
   }, []);
 
+  // Update consent
+  const setConsent = useCallback((consent: Partial<ConsentState>) => {
+    trackingService.setConsent(consent);
+  }, []);
+
+  // Track item list impression
+  const trackViewItemList = useCallback(async (items: TrackingItem[], list?: ItemListInfo) => {
+    await trackingService.trackViewItemList(items, list);
+  }, []);
+
+  // Track item selected from a list
+  const trackSelectItem = useCallback(async (item: TrackingItem, list?: ItemListInfo) => {
+    await trackingService.trackSelectItem(item, list);
+  }, []);
+
+  // Track product detail view
+  const trackViewItem = useCallback(async (
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number
+  ) => {
+    await trackingService.trackViewItem(items, currency, value);
+  }, []);
+
   // Track add to cart
   const trackAddToCart = useCallback(async (
     items: TrackingItem[],
@@ -75,6 +129,33 @@ export function useTracking(config?: UseTrackingConfig): UseTrackingReturn {
     await trackingService.trackAddToCart(items, currency, value);
   }, []);
 
+  // Track remove from cart
+  const trackRemoveFromCart = useCallback(async (
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number
+  ) => {
+    await trackingService.trackRemoveFromCart(items, currency, value);
+  }, []);
+
+  // Track cart view
+  const trackViewCart = useCallback(async (
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number
+  ) => {
+    await trackingService.trackViewCart(items, currency, value);
+  }, []);
+
+  // Track add to wishlist
+  const trackAddToWishlist = useCallback(async (
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number
+  ) => {
+    await trackingService.trackAddToWishlist(items, currency, value);
+  }, []);
+
   // Track begin checkout
   const trackBeginCheckout = useCallback(async (
     items: TrackingItem[],
@@ -85,6 +166,32 @@ export function useTracking(config?: UseTrackingConfig): UseTrackingReturn {
     await trackingService.trackBeginCheckout(items, currency, value, coupon);
   }, []);
 
+  // Track shipping step
+  const trackAddShippingInfo = useCallback(async (
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number,
+    additionalParams?: {
+      shipping_tier?: string;
+      coupon?: string;
+    }
+  ) => {
+    await trackingService.trackAddShippingInfo(items, currency, value, additionalParams);
+  }, []);
+
+  // Track payment step
+  const trackAddPaymentInfo = useCallback(async (
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number,
+    additionalParams?: {
+      payment_type?: string;
+      coupon?: string;
+    }
+  ) => {
+    await trackingService.trackAddPaymentInfo(items, currency, value, additionalParams);
+  }, []);
+
   // Track purchase
   const trackPurchase = useCallback(async (
     transactionId: string,
@@ -101,6 +208,11 @@ export function useTracking(config?: UseTrackingConfig): UseTrackingReturn {
     await trackingService.trackPurchase(transactionId, items, currency, value, additionalParams);
   }, []);
 
+  // Track page view
+  const trackPageView = useCallback(async (params?: PageViewParams) => {
+    await trackingService.trackPageView(params);
+  }, []);
+
   // Generic event tracking
   const trackEvent = useCallback(async (event: Parameters<typeof trackingService.trackEvent>[0]) => {
     await trackingService.trackEvent(event);
@@ -110,9 +222,19 @@ export function useTracking(config?: UseTrackingConfig): UseTrackingReturn {
     initialize,
     isInitialized: trackingService.isInitialized(),
     setUserData,
+    setConsent,
+    trackViewItemList,
+    trackSelectItem,
+    trackViewItem,
     trackAddToCart,
+    trackRemoveFromCart,
+    trackViewCart,
+    trackAddToWishlist,
     trackBeginCheckout,
+    trackAddShippingInfo,
+    trackAddPaymentInfo,
     trackPurchase,
+    trackPageView,
     trackEvent
   };
 }
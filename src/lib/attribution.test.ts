@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { captureAttribution, formatFbc, getAttribution, getMetaBrowserIds } from './attribution';
+
+function clearCookies() {
+  for (const cookie of document.cookie.split('; ')) {
+    const name = cookie.split('=')[0];
+    if (name) document.cookie = `${name}=; max-age=0; path=/`;
+  }
+}
+
+describe('attribution', () => {
+  beforeEach(() => {
+    clearCookies();
+  });
+
+  it('should capture click IDs from the landing URL', () => {
+    captureAttribution('https://shop.example.com/?gclid=G-1&ttclid=T-1&wbraid=W-1');
+
+    expect(getAttribution()).toEqual({ gclid: 'G-1', ttclid: 'T-1', wbraid: 'W-1' });
+  });
+
+  it('should keep click IDs across pages without parameters', () => {
+    captureAttribution('https://shop.example.com/?gclid=G-1');
+    captureAttribution('https://shop.example.com/products');
+
+    expect(getAttribution().gclid).toBe('G-1');
+  });
+
+  it('should let the latest click win', () => {
+    captureAttribution('https://shop.example.com/?gclid=G-1');
+    captureAttribution('https://shop.example.com/?gclid=G-2');
+
+    expect(getAttribution().gclid).toBe('G-2');
+  });
+
+  describe('fbc', () => {
+    it('should format fbc per Meta spec', () => {
+      expect(formatFbc('AbC123', 1700000000000)).toBe('fb.1.1700000000000.AbC123');
+    });
+
+    it('should store fbc with the time of the click', () => {
+      captureAttribution('https://shop.example.com/?fbclid=AbC123', 1700000000000);
+
+      expect(getMetaBrowserIds().fbc).toBe('fb.1.1700000000000.AbC123');
+    });
+
+    it('should keep the original timestamp when the same fbclid is seen again', () => {
+      captureAttribution('https://shop.example.com/?fbclid=AbC123', 1700000000000);
+      captureAttribution('https://shop.example.com/?fbclid=AbC123', 1700000999000);
+
+      expect(getMetaBrowserIds().fbc).toBe('fb.1.1700000000000.AbC123');
+    });
+
+    it('should read the Meta Pixel browser ID', () => {
+      document.cookie = '_fbp=fb.1.1234567890.123456';
+
+      expect(getMetaBrowserIds()).toEqual({ fbp: 'fb.1.1234567890.123456' });
+    });
+  });
+
+  describe('UTMs', () => {
+    it('should capture UTM parameters', () => {
+      captureAttribution('https://shop.example.com/?utm_source=facebook&utm_medium=cpc&utm_campaign=sale');
+
+      expect(getAttribution()).toEqual({ utm_source: 'facebook', utm_medium: 'cpc', utm_campaign: 'sale' });
+    });
+
+    it('should replace the whole UTM set on a new campaign visit', () => {
+      captureAttribution('https://shop.example.com/?utm_source=facebook&utm_campaign=sale');
+      captureAttribution('https://shop.example.com/?utm_source=newsletter');
+
+      expect(getAttribution()).toEqual({ utm_source: 'newsletter' });
+    });
+
+    it('should ignore a corrupt UTM cookie', () => {
+      document.cookie = '_trk_utm=%7Bnot%20json; path=/';
+
+      expect(getAttribution()).toEqual({});
+    });
+  });
+});
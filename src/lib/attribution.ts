@@ -0,0 +1,114 @@
+import { ATTRIBUTION_COOKIES } from '../types/tracking';
+import type { AttributionData, UserData } from '../types/tracking';
+
+// Click ID and UTM capture. Parameters are read from the landing URL once and kept in
+// first-party cookies, so events later in the visit (or a later visit) still carry them.
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+type ClickIdParam = 'gclid' | 'gbraid' | 'wbraid' | 'ttclid';
+
+type UtmParam = 'utm_source' | 'utm_medium' | 'utm_campaign' | 'utm_term' | 'utm_content';
+
+const CLICK_ID_PARAMS: ClickIdParam[] = ['gclid', 'gbraid', 'wbraid', 'ttclid'];
+
+const UTM_PARAMS: UtmParam[] = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+// Cookie lifetimes, matching each platform's longest click attribution window
+export const ATTRIBUTION_TTL_DAYS: Record<ClickIdParam | 'fbc' | 'utm', number> = {
+  fbc: 90,
+  gclid: 90,
+  gbraid: 90,
+  wbraid: 90,
+  ttclid: 28,
+  utm: 30
+};
+
+function readCookie(name: string): string | undefined {
+  if (typeof document === 'undefined') return undefined;
+
+  const prefix = `${name}=`;
+  const cookie = document.cookie.split('; ').find(part => part.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : undefined;
+}
+
+function writeCookie(name: string, value: string, ttlDays: number): void {
+  if (typeof document === 'undefined') return;
+
+  document.cookie = `${name}=${encodeURIComponent(value)}; max-age=${ttlDays * DAY_SECONDS}; path=/; SameSite=Lax`;
+}
+
+// fbc per Meta's spec: fb.{subdomain index}.{creation time in ms}.{fbclid}
+// https://developers.facebook.com/docs/marketing-api/conversions-api/parameters/fbp-and-fbc
+export function formatFbc(fbclid: string, createdAt: number): string {
+  return `fb.1.${createdAt}.${fbclid}`;
+}
+
+// Store the click IDs and UTMs of a URL. Only parameters present in the URL are
+// written - the latest ad click wins, earlier ones are kept until they expire.
+export function captureAttribution(url: string = window.location.href, now: number = Date.now()): void {
+  let params: URLSearchParams;
+  try {
+    params = new URL(url).searchParams;
+  } catch {
+    return;
+  }
+
+  // Keep the original timestamp when the same click is seen again (reloads, back navigation)
+  const fbclid = params.get('fbclid');
+  if (fbclid && !readCookie(ATTRIBUTION_COOKIES.fbc)?.endsWith(`.${fbclid}`)) {
+    writeCookie(ATTRIBUTION_COOKIES.fbc, formatFbc(fbclid, now), ATTRIBUTION_TTL_DAYS.fbc);
+  }
+
+  for (const param of CLICK_ID_PARAMS) {
+    const value = params.get(param);
+    if (value) writeCookie(ATTRIBUTION_COOKIES[param], value, ATTRIBUTION_TTL_DAYS[param]);
+  }
+
+  // A new campaign visit replaces the whole UTM set, so fields never mix across campaigns
+  const utm: AttributionData = {};
+  for (const param of UTM_PARAMS) {
+    const value = params.get(param);
+    if (value) utm[param] = value;
+  }
+  if (Object.keys(utm).length > 0) {
+    writeCookie(ATTRIBUTION_COOKIES.utm, JSON.stringify(utm), ATTRIBUTION_TTL_DAYS.utm);
+  }
+}
+
+// Stored click IDs and UTMs, for the server payload
+export function getAttribution(): AttributionData {
+  const attribution: AttributionData = {};
+
+  for (const param of CLICK_ID_PARAMS) {
+    const value = readCookie(ATTRIBUTION_COOKIES[param]);
+    if (value) attribution[param] = value;
+  }
+
+  const utm = readCookie(ATTRIBUTION_COOKIES.utm);
+  if (utm) {
+    try {
+      const parsed: unknown = JSON.parse(utm);
+      if (parsed && typeof parsed === 'object') {
+        for (const param of UTM_PARAMS) {
+          const value = (parsed as Record<string, unknown>)[param];
+          if (typeof value === 'string') attribution[param] = value;
+        }
+      }
+    } catch {
+      // Corrupt cookie - ignore the UTMs
+    }
+  }
+
+  return attribution;
+}
+
+// Meta click and browser IDs (_fbc, _fbp), whichever are set
+export function getMetaBrowserIds(): Pick<UserData, 'fbc' | 'fbp'> {
+  const ids: Pick<UserData, 'fbc' | 'fbp'> = {};
+  const fbc = readCookie(ATTRIBUTION_COOKIES.fbc);
+  const fbp = readCookie(ATTRIBUTION_COOKIES.fbp);
+  if (fbc) ids.fbc = fbc;
+  if (fbp) ids.fbp = fbp;
+  return ids;
+}
@@ -0,0 +1,64 @@
+import type { ConsentState, GtagConsentParams } from '../types/tracking';
+import type { PixelName } from './delivery-mode';
+
+// Consent configuration - when present, pixels wait for consent before loading
+export interface ConsentConfig {
+  default?: Partial<ConsentState>; // used until the user makes a choice, everything denied otherwise
+  storageKey?: string;
+}
+
+export const DEFAULT_CONSENT_STORAGE_KEY = 'tracking_consent';
+
+// Nothing is granted until the user opts in
+export const DENIED_CONSENT: ConsentState = {
+  analytics: false,
+  ads: false,
+  ad_user_data: false,
+  ad_personalization: false
+};
+
+// Behaviour without a consent config: everything allowed
+export const GRANTED_CONSENT: ConsentState = {
+  analytics: true,
+  ads: true,
+  ad_user_data: true,
+  ad_personalization: true
+};
+
+// Map our consent state to Google Consent Mode v2 parameters
+export function toGoogleConsent(state: ConsentState): GtagConsentParams {
+  const toValue = (granted: boolean) => (granted ? 'granted' : 'denied');
+
+  return {
+    analytics_storage: toValue(state.analytics),
+    ad_storage: toValue(state.ads),
+    ad_user_data: toValue(state.ad_user_data),
+    ad_personalization: toValue(state.ad_personalization)
+  };
+}
+
+// GA4 needs analytics consent, the ad pixels need ads consent
+export function allowsPixel(state: ConsentState, pixel: PixelName): boolean {
+  return pixel === 'ga4' ? state.analytics : state.ads;
+}
+
+// Read a previously stored choice, falling back to the configured default
+export function loadConsent(config: ConsentConfig): ConsentState {
+  const fallback: ConsentState = { ...DENIED_CONSENT, ...config.default };
+
+  try {
+    const stored = localStorage.getItem(config.storageKey || DEFAULT_CONSENT_STORAGE_KEY);
+    if (!stored) return fallback;
+    return { ...fallback, ...JSON.parse(stored) };
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveConsent(config: ConsentConfig, state: ConsentState): void {
+  try {
+    localStorage.setItem(config.storageKey || DEFAULT_CONSENT_STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Storage unavailable - consent only lasts for this page view
+  }
+}
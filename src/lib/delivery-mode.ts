@@ -0,0 +1,50 @@
+import type { TrackingEvent } from '../types/tracking';
+
+// Where an event is sent, per destination:
+// 'server'  - Conversions APIs only (through serverEndpoint)
+// 'browser' - the destination's pixel only
+// 'both'    - pixel and server with the same event_id, which Meta and TikTok deduplicate.
+//             GA4 does not deduplicate, so 'both' counts GA4 events twice.
+export type DeliveryMode = 'server' | 'browser' | 'both';
+
+export type PixelName = 'ga4' | 'meta' | 'tiktok';
+
+export const PIXEL_NAMES: PixelName[] = ['ga4', 'meta', 'tiktok'];
+
+// One mode for every destination, or a mode per destination (unlisted ones use the default)
+export type DeliveryModes = DeliveryMode | Partial<Record<PixelName, DeliveryMode>>;
+
+export interface DeliveryConfig {
+  default?: DeliveryModes; // all events without their own entry
+  events?: Partial<Record<TrackingEvent['event_name'], DeliveryModes>>;
+}
+
+// Page views have always gone to both the base pixels and the server - except GA4,
+// which would count each one twice, so its page views are only sent server-side
+const BUILT_IN_MODES: Partial<Record<TrackingEvent['event_name'], DeliveryModes>> = {
+  page_view: { ga4: 'server', meta: 'both', tiktok: 'both' }
+};
+
+function modeFor(modes: DeliveryModes | undefined, pixel: PixelName): DeliveryMode | undefined {
+  return typeof modes === 'string' ? modes : modes?.[pixel];
+}
+
+// Mode of one destination for an event: the event's entry, then the default, then built-ins
+export function resolveDeliveryMode(
+  config: DeliveryConfig | undefined,
+  eventName: TrackingEvent['event_name'],
+  pixel: PixelName
+): DeliveryMode {
+  return modeFor(config?.events?.[eventName], pixel)
+    ?? modeFor(config?.default, pixel)
+    ?? modeFor(BUILT_IN_MODES[eventName], pixel)
+    ?? 'server';
+}
+
+export function sendsToBrowser(mode: DeliveryMode): boolean {
+  return mode !== 'server';
+}
+
+export function sendsToServer(mode: DeliveryMode): boolean {
+  return mode !== 'browser';
+}
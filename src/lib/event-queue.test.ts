@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventQueue, getBackoffDelay } from './event-queue';
+import type { ServerEventPayload } from '../types/tracking';
+
+function createPayload(eventId: string): ServerEventPayload {
+  return {
+    event: {
+      event_name: 'add_to_cart',
+      event_id: eventId,
+      currency: 'PHP',
+      value: 99.99,
+      items: [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }]
+    },
+    user: { client_id: 'client-123' }
+  };
+}
+
+describe('EventQueue', () => {
+  let store: Record<string, string>;
+
+  beforeEach(() => {
+    // Back the mocked localStorage with a real in-memory store
+    store = {};
+    vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      store[key] = value;
+    });
+  });
+
+  describe('persistence', () => {
+    it('should persist queued events to localStorage', () => {
+      const queue = new EventQueue();
+      queue.enqueue(createPayload('evt-1'));
+
+      const stored = JSON.parse(store['tracking_event_queue']);
+      expect(stored).toHaveLength(1);
+      expect(stored[0].payload.event.event_id).toBe('evt-1');
+    });
+
+    it('should keep personal data out of localStorage', () => {
+      const payload = createPayload('evt-1');
+      payload.user = {
+        client_id: 'client-123',
+        user_id: 'user-42',
+        email: 'juan@example.com',
+        phone: '+639171234567',
+        first_name: 'Juan',
+        last_name: 'Dela Cruz',
+        street: '1 Ayala Ave',
+        city: 'Makati',
+        zip_code: '1226',
+        ip_address: '203.0.113.7'
+      };
+      const queue = new EventQueue();
+      queue.enqueue(payload);
+
+      expect(JSON.parse(store['tracking_event_queue'])[0].payload.user).toEqual({ client_id: 'client-123', user_id: 'user-42' });
+      for (const value of ['juan@example.com', '9171234567', 'Juan', 'Dela Cruz', 'Ayala', 'Makati', '1226', '203.0.113.7']) {
+        expect(store['tracking_event_queue']).not.toContain(value);
+      }
+      // The in-memory copy still has everything for retries in this page
+      expect(queue.all()[0].payload.user.email).toBe('juan@example.com');
+    });
+
+    it('should restore queued events on construction', () => {
+      new EventQueue().enqueue(createPayload('evt-1'));
+
+      const restored = new EventQueue();
+      expect(restored.size()).toBe(1);
+      expect(restored.all()[0].id).toBe('evt-1');
+    });
+
+    it('should ignore corrupt storage', () => {
+      store['tracking_event_queue'] = '{not json';
+
+      expect(new EventQueue().size()).toBe(0);
+    });
+
+    it('should not duplicate an event queued twice', () => {
+      const queue = new EventQueue();
+      queue.enqueue(createPayload('evt-1'));
+      queue.enqueue(createPayload('evt-1'));
+
+      expect(queue.size()).toBe(1);
+    });
+  });
+
+  describe('caps', () => {
+    it('should drop the oldest events beyond maxSize', () => {
+      const queue = new EventQueue({ maxSize: 2 });
+      queue.enqueue(createPayload('evt-1'));
+      queue.enqueue(createPayload('evt-2'));
+      queue.enqueue(createPayload('evt-3'));
+
+      expect(queue.all().map(entry => entry.id)).toEqual(['evt-2', 'evt-3']);
+    });
+
+    it('should discard events older than maxAgeMs', () => {
+      const queue = new EventQueue({ maxAgeMs: 1000 });
+      queue.enqueue(createPayload('evt-old'), 0);
+      queue.enqueue(createPayload('evt-new'), 5000);
+
+      expect(queue.due(5000).map(entry => entry.id)).toEqual(['evt-new']);
+    });
+  });
+
+  describe('retry scheduling', () => {
+    it('should back off exponentially up to the max delay', () => {
+      expect(getBackoffDelay(1, 1000, 10000)).toBe(1000);
+      expect(getBackoffDelay(2, 1000, 10000)).toBe(2000);
+      expect(getBackoffDelay(3, 1000, 10000)).toBe(4000);
+      expect(getBackoffDelay(10, 1000, 10000)).toBe(10000);
+    });
+
+    it('should delay failed events until their next attempt', () => {
+      const queue = new EventQueue({ baseDelayMs: 1000 });
+      queue.enqueue(createPayload('evt-1'), 0);
+      queue.recordFailure('evt-1', 0);
+
+      expect(queue.due(500)).toHaveLength(0);
+      expect(queue.due(1000)).toHaveLength(1);
+      expect(queue.nextAttemptAt()).toBe(1000);
+    });
+
+    it('should drop events after maxAttempts failures', () => {
+      const queue = new EventQueue({ maxAttempts: 2 });
+      queue.enqueue(createPayload('evt-1'));
+
+      expect(queue.recordFailure('evt-1')).not.toBeNull();
+      expect(queue.recordFailure('evt-1')).toBeNull();
+      expect(queue.size()).toBe(0);
+    });
+  });
+});
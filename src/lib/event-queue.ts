@@ -0,0 +1,156 @@
+import type { ServerEventPayload, UserData } from '../types/tracking';
+
+// Queue configuration (all values optional, defaults below)
+export interface EventQueueConfig {
+  storageKey?: string;
+  maxSize?: number; // oldest events are dropped beyond this
+  maxAgeMs?: number; // events older than this are discarded
+  maxAttempts?: number; // events are dropped after this many failed retries
+  baseDelayMs?: number; // first retry delay, doubled on every failure
+  maxDelayMs?: number; // upper bound for the retry delay
+}
+
+// A failed or offline event waiting to be re-sent
+export interface QueuedEvent {
+  id: string; // event_id of the queued event
+  payload: ServerEventPayload;
+  attempts: number;
+  enqueuedAt: number;
+  nextAttemptAt: number;
+}
+
+const DEFAULT_QUEUE_CONFIG: Required<EventQueueConfig> = {
+  storageKey: 'tracking_event_queue',
+  maxSize: 100,
+  maxAgeMs: 24 * 60 * 60 * 1000,
+  maxAttempts: 10,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000
+};
+
+// Only identifiers reach localStorage. Email, phone, names and address stay in memory
+// and are filled in again from the page's user data when a reloaded queue is replayed.
+const PERSISTED_USER_FIELDS = ['client_id', 'user_id', 'user_agent', 'fbc', 'fbp'] as const;
+
+function withoutPersonalData(entry: QueuedEvent): QueuedEvent {
+  const user = {} as UserData;
+  for (const key of PERSISTED_USER_FIELDS) {
+    if (entry.payload.user[key] !== undefined) user[key] = entry.payload.user[key];
+  }
+  return { ...entry, payload: { ...entry.payload, user } };
+}
+
+// Exponential backoff: base, 2x base, 4x base, ... capped at max
+export function getBackoffDelay(attempts: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(baseDelayMs * Math.pow(2, exponent), maxDelayMs);
+}
+
+// Durable FIFO queue persisted to localStorage so events survive reloads
+export class EventQueue {
+  private readonly config: Required<EventQueueConfig>;
+  private entries: QueuedEvent[];
+
+  constructor(config: EventQueueConfig = {}) {
+    this.config = { ...DEFAULT_QUEUE_CONFIG, ...config };
+    this.entries = this.load();
+    this.prune();
+  }
+
+  // Add an event to the queue, evicting the oldest entries when full
+  enqueue(payload: ServerEventPayload, now: number = Date.now()): QueuedEvent {
+    const id = payload.event.event_id;
+    const entry: QueuedEvent = {
+      id,
+      payload,
+      attempts: 0,
+      enqueuedAt: now,
+      nextAttemptAt: now
+    };
+
+    // Re-queueing the same event must not create a duplicate
+    this.entries = this.entries.filter(existing => existing.id !== id);
+    this.entries.push(entry);
+    this.prune(now);
+    this.persist();
+
+    return entry;
+  }
+
+  // Entries whose retry time has come, oldest first
+  due(now: number = Date.now()): QueuedEvent[] {
+    this.prune(now);
+    return this.entries.filter(entry => entry.nextAttemptAt <= now);
+  }
+
+  all(): QueuedEvent[] {
+    return [...this.entries];
+  }
+
+  remove(id: string): void {
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    this.persist();
+  }
+
+  // Schedule the next retry, or drop the event once it ran out of attempts
+  recordFailure(id: string, now: number = Date.now()): QueuedEvent | null {
+    const entry = this.entries.find(existing => existing.id === id);
+    if (!entry) return null;
+
+    entry.attempts += 1;
+    if (entry.attempts >= this.config.maxAttempts) {
+      this.remove(id);
+      return null;
+    }
+
+    entry.nextAttemptAt = now + getBackoffDelay(entry.attempts, this.config.baseDelayMs, this.config.maxDelayMs);
+    this.persist();
+    return entry;
+  }
+
+  // Earliest scheduled retry, or null when the queue is empty
+  nextAttemptAt(): number | null {
+    if (this.entries.length === 0) return null;
+    return Math.min(...this.entries.map(entry => entry.nextAttemptAt));
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.persist();
+  }
+
+  // Enforce age and size caps
+  private prune(now: number = Date.now()): void {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => now - entry.enqueuedAt <= this.config.maxAgeMs);
+
+    if (this.entries.length > this.config.maxSize) {
+      this.entries = this.entries.slice(this.entries.length - this.config.maxSize);
+    }
+
+    if (this.entries.length !== before) this.persist();
+  }
+
+  private load(): QueuedEvent[] {
+    try {
+      const stored = localStorage.getItem(this.config.storageKey);
+      if (!stored) return [];
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(this.config.storageKey, JSON.stringify(this.entries.map(withoutPersonalData)));
+    } catch {
+      // Storage full or unavailable (e.g. private mode) - keep the in-memory copy
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import type { GtagArgs, TrackingEvent, EVENT_NAME_MAPPING } from '../types/tracking';
+import type { GtagArgs, GtagConsentParams, TrackingEvent, EVENT_NAME_MAPPING } from '../types/tracking';
 
 // Extend Window interface to include dataLayer and gtag
 declare global {
@@ -25,8 +25,8 @@ export function generateEventId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
-// Initialize Google Tag with measurement ID
-export function initializeGoogleTag(measurementId: string): void {
+// Initialize Google Tag with measurement ID. Pass sendPageView = false when page views are tracked per route.
+export function initializeGoogleTag(measurementId: string, sendPageView = true): void {
   // Load gtag script
   const script = document.createElement('script');
   script.async = true;
@@ -46,10 +46,16 @@ export function initializeGoogleTag(measurementId: string): void {
 
   // Configure measurement ID
   gtagFn('config', measurementId, {
-    send_page_view: true
+    send_page_view: sendPageView
   });
 }
 
+// Google Consent Mode v2 - 'default' must be sent before the config command
+export function setGoogleConsent(mode: 'default' | 'update', params: GtagConsentParams): void {
+  const gtagFn = window.gtag || gtag;
+  gtagFn('consent', mode, params);
+}
+
 // Send tracking event to Google Analytics
 export function sendTrackingEvent(event: TrackingEvent): void {
   const { event_name, event_id, timestamp, ...params } = event;
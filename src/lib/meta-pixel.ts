@@ -1,4 +1,4 @@
-import type { TrackingEvent, EVENT_NAME_MAPPING } from '../types/tracking';
+import { EVENT_NAME_MAPPING, META_STANDARD_EVENTS, type TrackingEvent } from '../types/tracking';
 
 // Extend Window interface to include fbq
 declare global {
@@ -13,8 +13,8 @@ export interface MetaPixelConfig {
   pixelId: string;
 }
 
-// Initialize Meta Pixel
-export function initializeMetaPixel(pixelId: string): void {
+// Initialize Meta Pixel. Pass trackPageView = false when page views are tracked per route.
+export function initializeMetaPixel(pixelId: string, trackPageView = true): void {
   if (typeof window === 'undefined') return;
 
   // Meta Pixel base code
@@ -40,23 +40,25 @@ export function initializeMetaPixel(pixelId: string): void {
   
   // Initialize pixel
   window.fbq('init', pixelId);
-  window.fbq('track', 'PageView');
+  if (trackPageView) window.fbq('track', 'PageView');
 }
 
 // Convert our tracking event to Meta Pixel format
 function convertToMetaEvent(event: TrackingEvent): [string, any] {
-  const eventNameMap = {
-    add_to_cart: 'AddToCart',
-    begin_checkout: 'InitiateCheckout',
-    purchase: 'Purchase'
-  } as const;
+  const metaEventName = EVENT_NAME_MAPPING[event.event_name].meta;
 
-  const metaEventName = eventNameMap[event.event_name];
+  // Page views carry no content parameters
+  if (event.event_name === 'page_view') {
+    return [metaEventName, {}];
+  }
   
+  // Full refunds carry no items
+  const items = event.items ?? [];
+
   // Build Meta-specific parameters
   const params: any = {
-    content_ids: event.items.map(item => item.id),
-    contents: event.items.map(item => ({
+    content_ids: items.map(item => item.id),
+    contents: items.map(item => ({
       id: item.id,
       quantity: item.quantity,
       item_price: item.price
@@ -64,13 +66,13 @@ function convertToMetaEvent(event: TrackingEvent): [string, any] {
     content_type: 'product',
     currency: event.currency,
     value: event.value,
-    num_items: event.items.reduce((sum, item) => sum + item.quantity, 0),
+    num_items: items.reduce((sum, item) => sum + item.quantity, 0),
     event_id: event.event_id // For deduplication
   };
 
-  // Add purchase-specific parameters
-  if (event.event_name === 'purchase') {
-    params.order_id = (event as any).transaction_id;
+  // Add order-specific parameters
+  if (event.event_name === 'purchase' || event.event_name === 'refund') {
+    params.order_id = event.transaction_id;
   }
 
   return [metaEventName, params];
@@ -82,12 +84,22 @@ export function sendMetaPixelEvent(event: TrackingEvent): void {
 
   const [eventName, params] = convertToMetaEvent(event);
   
+  // Non-standard events (e.g. ViewCart) must go through trackCustom
+  const command = META_STANDARD_EVENTS.includes(eventName) ? 'track' : 'trackCustom';
+
   // Track the event
-  window.fbq('track', eventName, params, {
+  window.fbq(command, eventName, params, {
     eventID: event.event_id // For server-side deduplication
   });
 }
 
+// Grant or revoke consent - while revoked the pixel sets no cookies and sends nothing
+export function setMetaPixelConsent(granted: boolean): void {
+  if (typeof window === 'undefined' || !window.fbq) return;
+
+  window.fbq('consent', granted ? 'grant' : 'revoke');
+}
+
 // Track custom events
 export function trackMetaCustomEvent(eventName: string, params?: any): void {
   if (typeof window === 'undefined' || !window.fbq) return;
@@ -1,4 +1,4 @@
-import type { TrackingEvent } from '../types/tracking';
+import { EVENT_NAME_MAPPING, type TrackingEvent } from '../types/tracking';
 
 // Extend Window interface to include ttq
 declare global {
@@ -6,20 +6,22 @@ declare global {
     ttq: {
       load: (pixelId: string) => void;
       page: () => void;
-      track: (eventName: string, params?: any) => void;
+      track: (eventName: string, params?: any, options?: { event_id?: string }) => void;
       identify: (params: any) => void;
+      enableCookie?: () => void;
+      disableCookie?: () => void;
     };
   }
 }
 
-// Initialize TikTok Pixel
-export function initializeTikTokPixel(pixelId: string): void {
+// Initialize TikTok Pixel. Pass trackPageView = false when page views are tracked per route.
+export function initializeTikTokPixel(pixelId: string, trackPageView = true): void {
   if (typeof window === 'undefined') return;
 
   // Skip complex initialization if ttq is already mocked (for tests)
   if (window.ttq && typeof window.ttq.load === 'function') {
     window.ttq.load(pixelId);
-    window.ttq.page();
+    if (trackPageView) window.ttq.page();
     return;
   }
 
@@ -83,11 +85,11 @@ export function initializeTikTokPixel(pixelId: string): void {
           ttq.push(['page']);
         }
       },
-      track: (eventName: string, params?: any) => {
+      track: (eventName: string, params?: any, options?: { event_id?: string }) => {
         if (typeof ttq.track === 'function') {
-          ttq.track(eventName, params);
+          ttq.track(eventName, params, options);
         } else {
-          ttq.push(['track', eventName, params]);
+          ttq.push(['track', eventName, params, options]);
         }
       },
       identify: (params: any) => {
@@ -96,30 +98,37 @@ export function initializeTikTokPixel(pixelId: string): void {
         } else {
           ttq.push(['identify', params]);
         }
+      },
+      enableCookie: () => {
+        ttq.enableCookie();
+      },
+      disableCookie: () => {
+        ttq.disableCookie();
       }
     };
   })();
 
   // Load pixel and track page view
   window.ttq.load(pixelId);
-  window.ttq.page();
+  if (trackPageView) window.ttq.page();
 }
 
 // Convert our tracking event to TikTok format
 function convertToTikTokEvent(event: TrackingEvent): [string, any] {
-  const eventNameMap = {
-    add_to_cart: 'AddToCart',
-    begin_checkout: 'InitiateCheckout',
-    purchase: 'Purchase'
-  } as const;
+  const tiktokEventName = EVENT_NAME_MAPPING[event.event_name].tiktok;
 
-  const tiktokEventName = eventNameMap[event.event_name];
+  if (event.event_name === 'page_view') {
+    return [tiktokEventName, {}];
+  }
   
+  // Full refunds carry no items
+  const items = event.items ?? [];
+
   // Build TikTok-specific parameters
   const params: any = {
     content_type: 'product',
-    content_id: event.items[0]?.id, // TikTok uses single content_id
-    contents: event.items.map(item => ({
+    content_id: items[0]?.id, // TikTok uses single content_id
+    contents: items.map(item => ({
       content_id: item.id,
       content_name: item.name,
       content_category: item.category,
@@ -129,15 +138,15 @@ function convertToTikTokEvent(event: TrackingEvent): [string, any] {
     })),
     currency: event.currency,
     value: event.value,
-    quantity: event.items.reduce((sum, item) => sum + item.quantity, 0),
+    quantity: items.reduce((sum, item) => sum + item.quantity, 0),
     event_id: event.event_id // For deduplication
   };
 
-  // Add purchase-specific parameters
-  if (event.event_name === 'purchase') {
-    params.order_id = (event as any).transaction_id;
-    params.coupon = (event as any).coupon;
-    params.shipping = (event as any).shipping;
+  // Add order-specific parameters
+  if (event.event_name === 'purchase' || event.event_name === 'refund') {
+    params.order_id = event.transaction_id;
+    params.coupon = event.coupon;
+    params.shipping = event.shipping;
   }
 
   return [tiktokEventName, params];
@@ -147,10 +156,28 @@ function convertToTikTokEvent(event: TrackingEvent): [string, any] {
 export function sendTikTokPixelEvent(event: TrackingEvent): void {
   if (typeof window === 'undefined' || !window.ttq) return;
 
+  // ttq.page() takes no event_id, so tracked page views are sent as a Pageview event
+  // the Events API copy can be deduplicated against
+  if (event.event_name === 'page_view') {
+    window.ttq.track(EVENT_NAME_MAPPING.page_view.tiktok, {}, { event_id: event.event_id });
+    return;
+  }
+
   const [eventName, params] = convertToTikTokEvent(event);
   
-  // Track the event
-  window.ttq.track(eventName, params);
+  // TikTok deduplicates against the Events API by the event_id option
+  window.ttq.track(eventName, params, { event_id: event.event_id });
+}
+
+// Enable or disable TikTok's first-party cookie based on ad consent
+export function setTikTokCookieConsent(granted: boolean): void {
+  if (typeof window === 'undefined' || !window.ttq) return;
+
+  if (granted) {
+    window.ttq.enableCookie?.();
+  } else {
+    window.ttq.disableCookie?.();
+  }
 }
 
 // Update user data for advanced matching
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { trackingService } from './tracking-service';
 import type { TrackingServiceConfig } from './tracking-service';
 
@@ -30,10 +30,7 @@ describe('TrackingService', () => {
   beforeEach(() => {
     // Reset tracking service state
     vi.clearAllMocks();
-    // Reset the initialized state by creating a new instance
-    (trackingService as any).initialized = false;
-    (trackingService as any).config = null;
-    (trackingService as any).userData = {};
+    trackingService.reset();
     
     // Mock console methods
     vi.spyOn(console, 'log').mockImplementation(() => {});
@@ -156,7 +153,7 @@ describe('TrackingService', () => {
         'http://localhost:3001/api/track',
         {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', 'X-Tracking-Test': 'true' },
           body: expect.stringContaining('"event_name":"add_to_cart"')
         }
       );
@@ -239,6 +236,34 @@ describe('TrackingService', () => {
       });
     });
 
+    it('should track the e-commerce catalog helpers', async () => {
+      const items = [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }];
+
+      await trackingService.trackViewItemList(items, { item_list_id: 'audio', item_list_name: 'Audio' });
+      await trackingService.trackSelectItem(items[0]!, { item_list_id: 'audio' });
+      await trackingService.trackViewItem(items, 'PHP', 99.99);
+      await trackingService.trackRemoveFromCart(items, 'PHP', 99.99);
+      await trackingService.trackViewCart(items, 'PHP', 99.99);
+      await trackingService.trackAddToWishlist(items, 'PHP', 99.99);
+      await trackingService.trackAddShippingInfo(items, 'PHP', 99.99, { shipping_tier: 'Standard' });
+      await trackingService.trackAddPaymentInfo(items, 'PHP', 99.99, { payment_type: 'GCash' });
+
+      const events = vi.mocked(global.fetch).mock.calls.map(call => JSON.parse(call[1]!.body as string).event);
+      expect(events.map(event => event.event_name)).toEqual([
+        'view_item_list',
+        'select_item',
+        'view_item',
+        'remove_from_cart',
+        'view_cart',
+        'add_to_wishlist',
+        'add_shipping_info',
+        'add_payment_info'
+      ]);
+      expect(events[0]).toMatchObject({ item_list_id: 'audio', item_list_name: 'Audio' });
+      expect(events[6]).toMatchObject({ shipping_tier: 'Standard' });
+      expect(events[7]).toMatchObject({ payment_type: 'GCash' });
+    });
+
     it('should track generic events', async () => {
       await trackingService.trackEvent({
         event_name: 'view_item',
@@ -275,9 +300,7 @@ describe('TrackingService', () => {
     });
 
     it('should not track if not initialized', async () => {
-      // Reset to uninitialized state
-      (trackingService as any).initialized = false;
-      (trackingService as any).config = null;
+      trackingService.reset();
 
       await trackingService.trackAddToCart(
         [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }],
@@ -403,4 +426,593 @@ describe('TrackingService', () => {
       expect(console.log).not.toHaveBeenCalled();
     });
   });
+  describe('offline queue', () => {
+    const items = [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      trackingService.initialize(mockConfig);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.spyOn(navigator, 'onLine', 'get').mockRestore();
+    });
+
+    it('should queue events that fail with a network error', async () => {
+      vi.mocked(global.fetch).mockRejectedValueOnce(new Error('Network error'));
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(trackingService.getQueueSize()).toBe(1);
+    });
+
+    it('should queue events on 5xx responses but not on 4xx', async () => {
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce({ ok: false, status: 503, json: () => Promise.resolve({}) } as Response)
+        .mockResolvedValueOnce({ ok: false, status: 400, json: () => Promise.resolve({}) } as Response);
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(trackingService.getQueueSize()).toBe(1);
+    });
+
+    it('should queue without sending while offline', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(trackingService.getQueueSize()).toBe(1);
+    });
+
+    it('should retry queued events with the same event_id when back online', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ success: true })
+      } as Response);
+
+      window.dispatchEvent(new Event('online'));
+      await vi.runAllTimersAsync();
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(trackingService.getQueueSize()).toBe(0);
+    });
+
+    it('should retry failed events after the backoff delay', async () => {
+      vi.mocked(global.fetch)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ success: true }) } as Response);
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      const firstBody = JSON.parse(vi.mocked(global.fetch).mock.calls[0]![1]!.body as string);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const retryBody = JSON.parse(vi.mocked(global.fetch).mock.calls[1]![1]!.body as string);
+      expect(retryBody.event.event_id).toBe(firstBody.event.event_id);
+      expect(trackingService.getQueueSize()).toBe(0);
+    });
+
+    it('should keep personal data out of localStorage', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      trackingService.setUserData({ client_id: 'client-123', email: 'juan@example.com', phone: '+639171234567', first_name: 'Juan', city: 'Makati' });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      const stored = vi.mocked(localStorage.setItem).mock.calls.filter(([key]) => key === 'tracking_event_queue');
+      expect(stored.length).toBeGreaterThan(0);
+      for (const [, value] of stored) {
+        for (const personal of ['juan@example.com', '9171234567', 'Juan', 'Makati']) {
+          expect(value).not.toContain(personal);
+        }
+      }
+    });
+  });
+  describe('queue restored after a reload', () => {
+    afterEach(() => {
+      vi.mocked(localStorage.getItem).mockReset();
+    });
+
+    it('should add the page\'s user data back before replaying', async () => {
+      const stored = [{
+        id: 'evt-1',
+        payload: { event: { event_name: 'add_to_cart', event_id: 'evt-1', currency: 'PHP', value: 99.99 }, user: { client_id: 'client-123' } },
+        attempts: 1,
+        enqueuedAt: Date.now(),
+        nextAttemptAt: Date.now()
+      }];
+      vi.mocked(localStorage.getItem).mockImplementation(key => key === 'tracking_event_queue' ? JSON.stringify(stored) : null);
+      vi.mocked(global.fetch).mockResolvedValue({ ok: true, json: () => Promise.resolve({ success: true }) } as Response);
+      trackingService.setUserData({ client_id: 'client-123', email: 'juan@example.com' });
+
+      trackingService.initialize(mockConfig);
+      await trackingService.flushQueue(true);
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0]![1]!.body as string);
+      expect(body.event.event_id).toBe('evt-1');
+      expect(body.user).toMatchObject({ client_id: 'client-123', email: 'juan@example.com' });
+    });
+  });
+  describe('request tokens', () => {
+    const items = [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }];
+    const authConfig: TrackingServiceConfig = { ...mockConfig, auth: {} };
+    let issued: number;
+
+    beforeEach(() => {
+      issued = 0;
+      vi.mocked(global.fetch).mockImplementation(async input => {
+        if (String(input).endsWith('/token')) {
+          issued += 1;
+          return { ok: true, json: () => Promise.resolve({ token: `token-${issued}`, expires_at: Date.now() + 900000 }) } as Response;
+        }
+        return { ok: true, status: 200, json: () => Promise.resolve({ success: true }) } as Response;
+      });
+    });
+
+    it('should send the token from the token endpoint with every event', async () => {
+      trackingService.initialize(authConfig);
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:3001/api/track/token');
+      const trackCalls = vi.mocked(global.fetch).mock.calls.filter(([url]) => url === 'http://localhost:3001/api/track');
+      expect(trackCalls).toHaveLength(2);
+      expect(trackCalls[1]![1]!.headers).toEqual({
+        'Content-Type': 'application/json',
+        'X-Tracking-Token': 'token-1',
+        'X-Tracking-Test': 'true'
+      });
+      expect(issued).toBe(1);
+    });
+
+    it('should put the token in the query string for beacons', async () => {
+      const sendBeacon = vi.fn().mockReturnValue(true);
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+      trackingService.initialize({ ...authConfig, transport: 'beacon' });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(sendBeacon).toHaveBeenCalledWith('http://localhost:3001/api/track?token=token-1&test=true', expect.any(Blob));
+    });
+
+    it('should queue the event and fetch a new token when the server rejects it', async () => {
+      trackingService.initialize(authConfig);
+      await vi.waitFor(() => expect(issued).toBe(1));
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false, status: 401, json: () => Promise.resolve({}) } as Response);
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      expect(trackingService.getQueueSize()).toBe(1);
+
+      await trackingService.flushQueue(true);
+      expect(issued).toBe(2);
+      expect(trackingService.getQueueSize()).toBe(0);
+    });
+  });
+
+  describe('transport', () => {
+    const items = [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }];
+    let sendBeacon: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      sendBeacon = vi.fn().mockReturnValue(true);
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ success: true })
+      } as Response);
+    });
+
+    it('should use regular fetch while the page is visible', async () => {
+      trackingService.initialize(mockConfig);
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should switch to sendBeacon after pagehide', async () => {
+      trackingService.initialize(mockConfig);
+      window.dispatchEvent(new Event('pagehide'));
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(sendBeacon).toHaveBeenCalledWith('http://localhost:3001/api/track?test=true', expect.any(Blob));
+      const blob = sendBeacon.mock.calls[0]![1] as Blob;
+      expect(blob.type).toBe('text/plain');
+    });
+
+    it('should send test events only in debug mode', async () => {
+      trackingService.initialize({ ...mockConfig, debug: false });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3001/api/track',
+        expect.objectContaining({ headers: { 'Content-Type': 'application/json' } })
+      );
+    });
+
+    it('should fall back to keepalive fetch when the beacon is rejected', async () => {
+      sendBeacon.mockReturnValue(false);
+      trackingService.initialize({ ...mockConfig, transport: 'beacon' });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3001/api/track',
+        expect.objectContaining({ keepalive: true })
+      );
+    });
+
+    it('should always use keepalive fetch in keepalive mode', async () => {
+      trackingService.initialize({ ...mockConfig, transport: 'keepalive' });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3001/api/track',
+        expect.objectContaining({ keepalive: true })
+      );
+    });
+
+    it('should never use the beacon in fetch mode', async () => {
+      trackingService.initialize({ ...mockConfig, transport: 'fetch' });
+      window.dispatchEvent(new Event('pagehide'));
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+  describe('batching', () => {
+    const items = [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ results: [] })
+      } as Response);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should buffer events until maxWaitMs elapses', async () => {
+      trackingService.initialize({ ...mockConfig, batch: { maxWaitMs: 500, maxSize: 10 } });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0]!;
+      expect(url).toBe('http://localhost:3001/api/track/batch');
+      const body = JSON.parse(init!.body as string);
+      expect(body).toHaveLength(2);
+      expect(body[0].event.event_name).toBe('add_to_cart');
+    });
+
+    it('should flush as soon as maxSize events are buffered', async () => {
+      trackingService.initialize({ ...mockConfig, batch: { maxWaitMs: 10000, maxSize: 2 } });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use a custom batch endpoint', async () => {
+      trackingService.initialize({ ...mockConfig, batch: { endpoint: 'http://localhost:3001/custom/batch' } });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      await trackingService.flushBatch();
+
+      expect(vi.mocked(global.fetch).mock.calls[0]![0]).toBe('http://localhost:3001/custom/batch');
+    });
+
+    it('should queue every event of a failed batch', async () => {
+      vi.mocked(global.fetch).mockRejectedValueOnce(new Error('Network error'));
+      trackingService.initialize({ ...mockConfig, batch: {} });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      await trackingService.flushBatch();
+
+      expect(trackingService.getQueueSize()).toBe(2);
+    });
+  });
+  describe('delivery modes', () => {
+    const items = [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }];
+
+    beforeEach(() => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ success: true })
+      } as Response);
+    });
+
+    it('should send events to the server only by default', async () => {
+      trackingService.initialize(mockConfig);
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(window.fbq).not.toHaveBeenCalledWith('track', 'AddToCart', expect.anything(), expect.anything());
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0]![1]!.body as string);
+      expect(body.destinations).toBeUndefined();
+    });
+
+    it('should fire the pixel and the server with the same event_id in hybrid mode', async () => {
+      trackingService.initialize({ ...mockConfig, delivery: { events: { add_to_cart: { meta: 'both', tiktok: 'both' } } } });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0]![1]!.body as string);
+      expect(window.fbq).toHaveBeenCalledWith('track', 'AddToCart', expect.any(Object), { eventID: body.event.event_id });
+      expect(window.ttq.track).toHaveBeenCalledWith('AddToCart', expect.any(Object), { event_id: body.event.event_id });
+      expect(body.destinations).toBeUndefined();
+    });
+
+    it('should leave browser-only destinations out of the server payload', async () => {
+      trackingService.initialize({ ...mockConfig, delivery: { default: { ga4: 'browser' } } });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(window.gtag).toHaveBeenCalledWith('event', 'add_to_cart', expect.objectContaining({ value: 99.99 }));
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0]![1]!.body as string);
+      expect(body.destinations).toEqual(['meta', 'tiktok']);
+    });
+
+    it('should not call the server when every destination is browser-only', async () => {
+      trackingService.initialize({ ...mockConfig, delivery: { default: 'browser' } });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(window.fbq).toHaveBeenCalledWith('track', 'AddToCart', expect.any(Object), expect.any(Object));
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should not fire pixels without consent', async () => {
+      trackingService.initialize({ ...mockConfig, consent: {}, delivery: { default: 'both' } });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      expect(window.fbq).not.toHaveBeenCalledWith('track', 'AddToCart', expect.anything(), expect.anything());
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop firing pixels once consent is revoked', async () => {
+      trackingService.initialize({
+        ...mockConfig,
+        consent: { default: { analytics: true, ads: true } },
+        delivery: { default: 'both' },
+        pageViews: true
+      });
+      trackingService.setConsent({ analytics: false, ads: false });
+      vi.mocked(window.gtag).mockClear();
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      await trackingService.trackPageView({ page_location: 'http://localhost/demo' });
+
+      expect(window.fbq).not.toHaveBeenCalledWith('track', expect.anything(), expect.anything(), expect.anything());
+      expect(window.ttq.track).not.toHaveBeenCalled();
+      expect(window.ttq.page).not.toHaveBeenCalled();
+      expect(window.gtag).not.toHaveBeenCalledWith('event', expect.anything(), expect.anything());
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('page views', () => {
+    beforeEach(() => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ success: true })
+      } as Response);
+    });
+
+    it('should send page_view with page details to the server', async () => {
+      trackingService.initialize(mockConfig);
+
+      await trackingService.trackPageView({
+        page_location: 'http://localhost/demo',
+        page_title: 'Demo',
+        page_referrer: 'http://localhost/'
+      });
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0]![1]!.body as string);
+      expect(body.event).toMatchObject({
+        event_name: 'page_view',
+        page_location: 'http://localhost/demo',
+        page_title: 'Demo',
+        page_referrer: 'http://localhost/',
+        event_id: expect.any(String)
+      });
+    });
+
+    it('should fire the Meta and TikTok pixels with the server event_id', async () => {
+      trackingService.initialize(mockConfig);
+
+      await trackingService.trackPageView({ page_location: 'http://localhost/demo' });
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0]![1]!.body as string);
+      expect(window.fbq).toHaveBeenCalledWith('track', 'PageView', {}, { eventID: body.event.event_id });
+      expect(window.ttq.track).toHaveBeenCalledWith('Pageview', {}, { event_id: body.event.event_id });
+      expect(body.destinations).toBeUndefined();
+    });
+
+    it('should send GA4 page views server-side only', async () => {
+      trackingService.initialize({ ...mockConfig, pageViews: true });
+
+      await trackingService.trackPageView({ page_location: 'http://localhost/demo' });
+
+      expect(window.gtag).not.toHaveBeenCalledWith('event', 'page_view', expect.anything());
+    });
+
+    it('should use the previous page as referrer', async () => {
+      trackingService.initialize(mockConfig);
+
+      await trackingService.trackPageView({ page_location: 'http://localhost/' });
+      await trackingService.trackPageView({ page_location: 'http://localhost/demo' });
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[1]![1]!.body as string);
+      expect(body.event.page_referrer).toBe('http://localhost/');
+    });
+
+    it('should give later events the page and referrer of the current route', async () => {
+      trackingService.initialize(mockConfig);
+
+      await trackingService.trackPageView({ page_location: 'http://localhost/', page_referrer: 'https://google.com/' });
+      await trackingService.trackAddToCart([{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }], 'PHP', 99.99);
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[1]![1]!.body as string);
+      expect(body.event).toMatchObject({
+        page_location: window.location.href,
+        page_referrer: 'https://google.com/',
+        timestamp: expect.any(Number)
+      });
+    });
+
+    it('should ignore repeated views of the same URL', async () => {
+      trackingService.initialize(mockConfig);
+
+      await trackingService.trackPageView({ page_location: 'http://localhost/demo' });
+      await trackingService.trackPageView({ page_location: 'http://localhost/demo' });
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hold a page view fired before initialization', async () => {
+      await trackingService.trackPageView({ page_location: 'http://localhost/demo' });
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      trackingService.initialize(mockConfig);
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+    });
+
+    it('should skip the base pixel page view when page views are tracked per route', () => {
+      trackingService.initialize({ ...mockConfig, pageViews: true });
+
+      expect(window.fbq).not.toHaveBeenCalledWith('track', 'PageView');
+      expect(window.ttq.page).not.toHaveBeenCalled();
+    });
+  });
+  describe('consent', () => {
+    const consentConfig: TrackingServiceConfig = { ...mockConfig, consent: {} };
+    const items = [{ id: 'PROD-001', name: 'Test', price: 99.99, quantity: 1 }];
+
+    beforeEach(() => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ success: true })
+      } as Response);
+    });
+
+    it('should hold back all pixels until consent is given', () => {
+      trackingService.initialize(consentConfig);
+
+      expect(window.fbq).not.toHaveBeenCalledWith('init', '123456789');
+      expect(window.ttq.load).not.toHaveBeenCalled();
+      expect(window.gtag).not.toHaveBeenCalledWith('config', 'G-TEST123', expect.anything());
+    });
+
+    it('should emit Consent Mode defaults before the Google tag loads', () => {
+      trackingService.initialize(consentConfig);
+
+      expect(window.gtag).toHaveBeenCalledWith('consent', 'default', {
+        analytics_storage: 'denied',
+        ad_storage: 'denied',
+        ad_user_data: 'denied',
+        ad_personalization: 'denied'
+      });
+    });
+
+    it('should load pixels once consent is granted', () => {
+      trackingService.initialize(consentConfig);
+
+      trackingService.setConsent({ analytics: true });
+      expect(window.gtag).toHaveBeenCalledWith('consent', 'update', expect.objectContaining({
+        analytics_storage: 'granted',
+        ad_storage: 'denied'
+      }));
+      expect(window.gtag).toHaveBeenCalledWith('config', 'G-TEST123', expect.anything());
+      expect(window.ttq.load).not.toHaveBeenCalled();
+
+      trackingService.setConsent({ ads: true });
+      expect(window.fbq).toHaveBeenCalledWith('init', '123456789');
+      expect(window.ttq.load).toHaveBeenCalledWith('TEST123');
+    });
+
+    it('should revoke consent on loaded pixels', () => {
+      window.ttq.disableCookie = vi.fn();
+      trackingService.initialize({ ...mockConfig, consent: { default: { analytics: true, ads: true } } });
+
+      trackingService.setConsent({ ads: false });
+
+      expect(window.fbq).toHaveBeenCalledWith('consent', 'revoke');
+      expect(window.ttq.disableCookie).toHaveBeenCalled();
+    });
+
+    it('should apply consent set before initialization', () => {
+      trackingService.setConsent({ ads: true });
+      trackingService.initialize(consentConfig);
+
+      expect(window.fbq).toHaveBeenCalledWith('init', '123456789');
+      expect(trackingService.getConsent().ads).toBe(true);
+    });
+
+    it('should attach the consent state to server payloads', async () => {
+      trackingService.initialize(consentConfig);
+      trackingService.setConsent({ analytics: true });
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0]![1]!.body as string);
+      expect(body.consent).toEqual({
+        analytics: true,
+        ads: false,
+        ad_user_data: false,
+        ad_personalization: false
+      });
+    });
+
+    it('should capture click IDs only once ads consent is given', async () => {
+      document.cookie = '_trk_ttclid=; max-age=0; path=/';
+      window.history.pushState({}, '', '/landing?ttclid=TT-1&utm_source=tiktok');
+      trackingService.initialize(consentConfig);
+      window.history.pushState({}, '', '/');
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+      trackingService.setConsent({ ads: true });
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      const bodies = vi.mocked(global.fetch).mock.calls.map(call => JSON.parse(call[1]!.body as string));
+      expect(bodies[0].attribution).toBeUndefined();
+      expect(bodies[1].attribution).toEqual({ ttclid: 'TT-1', utm_source: 'tiktok' });
+    });
+
+    it('should not attach consent when consent management is disabled', async () => {
+      trackingService.initialize(mockConfig);
+
+      await trackingService.trackAddToCart(items, 'PHP', 99.99);
+
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0]![1]!.body as string);
+      expect(body.consent).toBeUndefined();
+      expect(trackingService.getConsent().ads).toBe(true);
+    });
+  });
 });
\ No newline at end of file
@@ -1,7 +1,29 @@
-import type { TrackingEvent, UserData, ServerEventPayload } from '../types/tracking';
-import { initializeGoogleTag, generateEventId, getClientId } from './gtag';
-import { initializeMetaPixel } from './meta-pixel';
-import { initializeTikTokPixel } from './tiktok-pixel';
+import type {
+  TrackingEvent,
+  TrackingEventInput,
+  TrackingItem,
+  CurrencyCode,
+  PageViewEvent,
+  ItemListEventParams,
+  UserData,
+  ConsentState,
+  ServerEventPayload
+} from '../types/tracking';
+import { initializeGoogleTag, generateEventId, getClientId, sendTrackingEvent, setGoogleConsent } from './gtag';
+import { initializeMetaPixel, sendMetaPixelEvent, setMetaPixelConsent } from './meta-pixel';
+import { initializeTikTokPixel, sendTikTokPixelEvent, setTikTokCookieConsent } from './tiktok-pixel';
+import { EventQueue, type EventQueueConfig } from './event-queue';
+import { resolveTransport, sendBeacon, postJson, withQueryParam, type TransportMode } from './transport';
+import { allowsPixel, loadConsent, saveConsent, toGoogleConsent, GRANTED_CONSENT, type ConsentConfig } from './consent';
+import { captureAttribution, getAttribution, getMetaBrowserIds } from './attribution';
+import {
+  resolveDeliveryMode,
+  sendsToBrowser,
+  sendsToServer,
+  PIXEL_NAMES,
+  type DeliveryConfig,
+  type PixelName
+} from './delivery-mode';
 
 // Simplified configuration
 export interface TrackingServiceConfig {
@@ -15,14 +37,73 @@ export interface TrackingServiceConfig {
     pixelId: string;
   };
   serverEndpoint: string;
-  debug?: boolean;
+  debug?: boolean; // console logging, and events are sent as platform test events (X-Tracking-Test)
+  queue?: EventQueueConfig; // offline queue and retry settings
+  transport?: TransportMode; // defaults to 'auto' (beacon during pagehide/visibilitychange)
+  batch?: BatchConfig; // buffer events and send them to the batch endpoint
+  pageViews?: boolean; // page views are tracked per route (usePageViewTracking), base pixels skip their own
+  consent?: ConsentConfig; // enables consent management - pixels load only once consent is given
+  delivery?: DeliveryConfig; // browser pixel, server or both, per destination and event type (default server)
+  auth?: AuthConfig; // fetch a signed token for the server (required when the server sets TRACKING_TOKEN_SECRET)
 }
 
+// Request authentication - the token is fetched from the server and sent with every request
+export interface AuthConfig {
+  tokenEndpoint?: string; // defaults to `${serverEndpoint}/token`
+}
+
+interface TrackingToken {
+  token: string;
+  expires_at: number;
+}
+
+// Tokens this close to expiry are replaced before use
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Browser-side senders, used for destinations in 'browser' or 'both' mode
+const PIXEL_SENDERS: Record<PixelName, (event: TrackingEvent) => void> = {
+  ga4: sendTrackingEvent,
+  meta: sendMetaPixelEvent,
+  tiktok: sendTikTokPixelEvent
+};
+
+// List a view_item_list / select_item happened in
+export type ItemListInfo = Pick<ItemListEventParams, 'item_list_id' | 'item_list_name'>;
+
+// Page details for a page_view - anything omitted is read from the document
+export type PageViewParams = Partial<Omit<PageViewEvent, 'event_name' | 'event_id' | 'timestamp'>>;
+
+// Batching mode: events are flushed every `maxWaitMs` or once `maxSize` are buffered
+export interface BatchConfig {
+  maxSize?: number;
+  maxWaitMs?: number;
+  endpoint?: string; // defaults to `${serverEndpoint}/batch`
+}
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_BATCH_WAIT_MS = 2000;
+
 // Simplified tracking service for Philippines market
 class TrackingService {
   private config: TrackingServiceConfig | null = null;
   private initialized = false;
   private userData: Partial<UserData> = {};
+  private queue: EventQueue | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+  private pageHidden = false;
+  private batchBuffer: ServerEventPayload[] = [];
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastPageLocation: string | null = null;
+  private pageReferrer: string | null = null; // referrer of the current SPA route, from its page view
+  private pendingPageView: PageViewParams | null = null;
+  private consent: ConsentState | null = null; // null while consent management is disabled
+  private pendingConsent: Partial<ConsentState> = {};
+  private loadedPixels: Record<PixelName, boolean> = { ga4: false, meta: false, tiktok: false };
+  private landingUrl: string | null = null; // click IDs are read from here once ads consent allows
+  private attributionCaptured = false;
+  private token: TrackingToken | null = null;
+  private tokenRequest: Promise<TrackingToken | null> | null = null;
 
   // Initialize base pixels only
   initialize(config: TrackingServiceConfig): void {
@@ -38,29 +119,123 @@ class TrackingService {
 
     this.config = config;
 
-    // Initialize base pixels for pageview tracking only
-    if (config.ga4?.measurementId) {
-      initializeGoogleTag(config.ga4.measurementId);
+    // Consent Mode defaults must be in place before any pixel loads
+    if (config.consent) {
+      this.consent = { ...loadConsent(config.consent), ...this.pendingConsent };
+      this.pendingConsent = {};
+      saveConsent(config.consent, this.consent);
+
+      if (config.ga4?.measurementId) {
+        setGoogleConsent('default', toGoogleConsent(this.consent));
+      }
+    }
+
+    this.loadPixels();
+
+    if (typeof window !== 'undefined') {
+      this.landingUrl = window.location.href;
+      this.captureLandingAttribution();
+    }
+
+    this.initialized = true;
+
+    // Restore events left over from a previous session and retry when back online
+    this.queue = new EventQueue(config.queue);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+
+      // Events fired while the page unloads must survive navigation
+      window.addEventListener('pagehide', this.handlePageHide);
+      window.addEventListener('pageshow', this.handlePageShow);
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    if (this.queue.size() > 0) {
+      this.scheduleRetry(0);
+    }
+
+    // Fetch the first token early, so beacons sent during unload already have one
+    if (config.auth) void this.getToken();
+
+    if (config.debug) {
+      console.log('✅ Base pixels initialized - All events will be tracked server-side');
+    }
+
+    // Page views can fire before initialization (route effects run before the provider's)
+    if (this.pendingPageView) {
+      const pending = this.pendingPageView;
+      this.pendingPageView = null;
+      void this.trackPageView(pending);
+    }
+  }
+
+  // Load the base pixels the current consent allows. Safe to call repeatedly.
+  private loadPixels(): void {
+    if (!this.config) return;
+
+    const config = this.config;
+    const consent = this.getConsent();
+
+    // Initialize base pixels for pageview tracking only.
+    // With per-route page views the pixels must not send their own initial PageView.
+    const basePageView = !config.pageViews;
+
+    if (config.ga4?.measurementId && !this.loadedPixels.ga4 && consent.analytics) {
+      initializeGoogleTag(config.ga4.measurementId, basePageView);
+      this.loadedPixels.ga4 = true;
       if (config.debug) console.log('📊 GA4 base pixel initialized');
     }
 
-    if (config.meta?.pixelId) {
-      initializeMetaPixel(config.meta.pixelId);
+    if (config.meta?.pixelId && !this.loadedPixels.meta && consent.ads) {
+      initializeMetaPixel(config.meta.pixelId, basePageView);
+      this.loadedPixels.meta = true;
       if (config.debug) console.log('📘 Meta base pixel initialized');
     }
 
-    if (config.tiktok?.pixelId) {
-      initializeTikTokPixel(config.tiktok.pixelId);
+    if (config.tiktok?.pixelId && !this.loadedPixels.tiktok && consent.ads) {
+      initializeTikTokPixel(config.tiktok.pixelId, basePageView);
+      this.loadedPixels.tiktok = true;
       if (config.debug) console.log('🎵 TikTok base pixel initialized');
     }
+  }
 
-    this.initialized = true;
+  // Click IDs are ad storage - only persisted once ads consent is given
+  private captureLandingAttribution(): void {
+    if (this.attributionCaptured || !this.landingUrl || !this.getConsent().ads) return;
 
-    if (config.debug) {
-      console.log('✅ Base pixels initialized - All events will be tracked server-side');
+    captureAttribution(this.landingUrl);
+    this.attributionCaptured = true;
+  }
+
+  // Record the user's consent choice, update the pixels and load any newly allowed ones
+  setConsent(update: Partial<ConsentState>): void {
+    if (!this.config?.consent) {
+      // Not initialized yet - applied on initialize()
+      this.pendingConsent = { ...this.pendingConsent, ...update };
+      return;
+    }
+
+    this.consent = { ...this.getConsent(), ...update };
+    saveConsent(this.config.consent, this.consent);
+
+    if (this.config.ga4?.measurementId) {
+      setGoogleConsent('update', toGoogleConsent(this.consent));
+    }
+    if (this.loadedPixels.meta) setMetaPixelConsent(this.consent.ads);
+    if (this.loadedPixels.tiktok) setTikTokCookieConsent(this.consent.ads);
+
+    this.loadPixels();
+    this.captureLandingAttribution();
+
+    if (this.config.debug) {
+      console.log('Consent updated:', this.consent);
     }
   }
 
+  // Current consent - everything is granted when consent management is disabled
+  getConsent(): ConsentState {
+    return this.consent ?? GRANTED_CONSENT;
+  }
+
   // Set user data
   setUserData(userData: Partial<UserData>): void {
     this.userData = { ...this.userData, ...userData };
@@ -70,15 +245,7 @@ class TrackingService {
     }
 
     // Collect browser IDs for better tracking
-    if (typeof window !== 'undefined') {
-      // Facebook browser ID
-      const fbpCookie = document.cookie.match(/_fbp=([^;]+)/);
-      if (fbpCookie) this.userData.fbp = fbpCookie[1];
-
-      // Facebook click ID
-      const fbclid = new URLSearchParams(window.location.search).get('fbclid');
-      if (fbclid) this.userData.fbc = `fb.1.${Date.now()}.${fbclid}`;
-    }
+    Object.assign(this.userData, getMetaBrowserIds());
 
     if (this.config?.debug) {
       console.log('User data updated:', this.userData);
@@ -86,50 +253,381 @@ class TrackingService {
   }
 
   // Send ALL events to server
-  async trackEvent(event: Omit<TrackingEvent, 'event_id'>): Promise<void> {
+  async trackEvent(event: TrackingEventInput): Promise<void> {
     if (!this.initialized || !this.config?.serverEndpoint) {
       console.error('TrackingService not properly initialized');
       return;
     }
 
-    const eventWithId: TrackingEvent = {
+    await this.dispatch(this.withEventId(event));
+  }
+
+  // Track a page view on the server and the browser pixels with one shared event_id.
+  // Repeated views of the same URL are ignored.
+  async trackPageView(params: PageViewParams = {}): Promise<void> {
+    const page: PageViewParams = {
+      page_location: params.page_location ?? window.location.href,
+      page_title: params.page_title ?? document.title,
+      page_referrer: params.page_referrer ?? this.lastPageLocation ?? document.referrer
+    };
+
+    if (!this.initialized || !this.config) {
+      this.pendingPageView = page;
+      return;
+    }
+
+    if (page.page_location === this.lastPageLocation) return;
+    this.lastPageLocation = page.page_location ?? null;
+    this.pageReferrer = page.page_referrer ?? null;
+
+    await this.dispatch(this.withEventId({ event_name: 'page_view', ...page } as TrackingEventInput));
+  }
+
+  // Fire the pixels the delivery mode asks for, then send the event to the server for
+  // the remaining destinations. Both sides share the event_id for deduplication.
+  private async dispatch(event: TrackingEvent): Promise<void> {
+    const serverDestinations: PixelName[] = [];
+
+    for (const pixel of PIXEL_NAMES) {
+      const mode = resolveDeliveryMode(this.config?.delivery, event.event_name, pixel);
+
+      // Loaded pixels stay on the page after consent is revoked - check the current choice
+      if (sendsToBrowser(mode) && this.loadedPixels[pixel] && allowsPixel(this.getConsent(), pixel)) {
+        PIXEL_SENDERS[pixel](event);
+        if (this.config?.debug) console.log(`🌐 Sent ${event.event_name} to the ${pixel} pixel`);
+      }
+      if (sendsToServer(mode)) serverDestinations.push(pixel);
+    }
+
+    if (serverDestinations.length === 0) return;
+
+    // The server sends to every destination unless told otherwise
+    const destinations = serverDestinations.length < PIXEL_NAMES.length ? serverDestinations : undefined;
+    await this.sendEvent(event, destinations);
+  }
+
+  // Time and page are captured now, so queued, batched and replayed events keep them
+  private withEventId(event: TrackingEventInput): TrackingEvent {
+    return {
+      ...this.pageContext(),
       ...event,
       event_id: generateEventId(),
       timestamp: Date.now()
     } as TrackingEvent;
+  }
+
+  private pageContext(): Pick<TrackingEvent, 'page_location' | 'page_referrer'> {
+    if (typeof window === 'undefined') return {};
+    return {
+      page_location: window.location.href,
+      page_referrer: this.pageReferrer ?? document.referrer
+    };
+  }
+
+  private async sendEvent(eventWithId: TrackingEvent, destinations?: PixelName[]): Promise<void> {
+    if (!this.config) return;
 
+    const attribution = getAttribution();
     const payload: ServerEventPayload = {
       event: eventWithId,
       user: {
         client_id: this.userData.client_id || getClientId(),
         user_agent: navigator.userAgent,
-        ...this.userData
-      }
+        ...this.userData,
+        ...getMetaBrowserIds() // read on every event, the pixel may have set them since
+      },
+      // Lets the server drop or strip events for users who opted out
+      ...(this.consent && { consent: this.consent }),
+      ...(Object.keys(attribution).length > 0 && { attribution }),
+      // Browser-only destinations were already sent by their pixel
+      ...(destinations && { destinations })
     };
 
+    if (this.config.debug) {
+      console.log(`📤 Sending ${eventWithId.event_name} to server`);
+    }
+
+    // Don't even try while offline - queue and wait for the 'online' event
+    if (!this.isOnline()) {
+      this.enqueue(payload);
+      return;
+    }
+
+    if (this.config.batch) {
+      this.addToBatch(payload);
+      return;
+    }
+
     try {
-      if (this.config.debug) {
-        console.log(`📤 Sending ${event.event_name} to server`);
-      }
+      const delivered = await this.sendPayload(payload);
+      if (!delivered) this.enqueue(payload, true);
+    } catch (error) {
+      console.error('❌ Server tracking error:', error);
+      this.enqueue(payload, true);
+    }
+  }
 
-      const response = await fetch(this.config.serverEndpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
-      });
+  // POST a payload to the server. Returns false when the server asks us to retry later.
+  private async sendPayload(payload: ServerEventPayload): Promise<boolean> {
+    if (!this.config) return false;
 
-      const result = await response.json();
-      
-      if (this.config.debug) {
-        console.log('✅ Server response:', result);
-      }
+    const response = await this.deliver(this.config.serverEndpoint, JSON.stringify(payload));
+    if (response === null) {
+      if (this.config.debug) console.log(`📡 Sent ${payload.event.event_name} via sendBeacon`);
+      return true;
+    }
+
+    return this.handleResponse(response);
+  }
+
+  // Send buffered events as one array payload to the batch endpoint
+  private async sendBatch(payloads: ServerEventPayload[]): Promise<boolean> {
+    if (!this.config) return false;
+
+    const endpoint = this.config.batch?.endpoint || `${this.config.serverEndpoint}/batch`;
+    const response = await this.deliver(endpoint, JSON.stringify(payloads));
+    if (response === null) {
+      if (this.config.debug) console.log(`📡 Sent batch of ${payloads.length} via sendBeacon`);
+      return true;
+    }
+
+    return this.handleResponse(response);
+  }
+
+  // Deliver a JSON body with the configured transport.
+  // Resolves to null when a beacon accepted it (beacons give no response).
+  private async deliver(url: string, body: string): Promise<Response | null> {
+    const transport = resolveTransport(this.config?.transport, this.pageHidden);
+    const token = await this.getToken();
+    const headers: Record<string, string> = {};
+    let beaconUrl = url;
+
+    // Beacons cannot set headers, so their token and test flag go in the query string
+    if (token) {
+      headers['X-Tracking-Token'] = token.token;
+      beaconUrl = withQueryParam(beaconUrl, 'token', token.token);
+    }
+    // Debug sessions send test events, kept out of the platforms' conversion reports
+    if (this.config?.debug) {
+      headers['X-Tracking-Test'] = 'true';
+      beaconUrl = withQueryParam(beaconUrl, 'test', 'true');
+    }
+
+    if (transport === 'beacon' && sendBeacon(beaconUrl, body)) {
+      return null;
+    }
+
+    // Rejected beacons fall back to a keepalive fetch
+    return postJson(url, body, transport !== 'fetch', headers);
+  }
+
+  // Current request token, fetched again when it is about to expire. Null without
+  // auth config or when the token endpoint is unavailable.
+  private async getToken(): Promise<TrackingToken | null> {
+    if (!this.config?.auth) return null;
+    if (this.token && this.token.expires_at - TOKEN_REFRESH_MARGIN_MS > Date.now()) return this.token;
+
+    // Concurrent sends share one token request
+    if (!this.tokenRequest) {
+      const endpoint = this.config.auth.tokenEndpoint || `${this.config.serverEndpoint}/token`;
+      this.tokenRequest = fetch(endpoint)
+        .then(async response => (response.ok ? ((await response.json()) as TrackingToken) : null))
+        .catch(() => null)
+        .then(token => {
+          this.token = token;
+          this.tokenRequest = null;
+          return token;
+        });
+    }
+    return this.tokenRequest;
+  }
+
+  private async handleResponse(response: Response): Promise<boolean> {
+    // Expired or rejected token - retry later with a fresh one
+    if (response.status === 401 && this.config?.auth) {
+      console.error('❌ Server rejected the tracking token');
+      this.token = null;
+      return false;
+    }
+
+    // 5xx and 429 are transient, anything else (e.g. 400) will never succeed
+    if (!response.ok && (response.status >= 500 || response.status === 429)) {
+      console.error('❌ Server tracking error: status', response.status);
+      return false;
+    }
+
+    const result = await response.json();
+
+    if (this.config?.debug) {
+      console.log('✅ Server response:', result);
+    }
+    return true;
+  }
+
+  private addToBatch(payload: ServerEventPayload): void {
+    this.batchBuffer.push(payload);
+
+    const maxSize = this.config?.batch?.maxSize ?? DEFAULT_BATCH_SIZE;
+    if (this.batchBuffer.length >= maxSize) {
+      void this.flushBatch();
+      return;
+    }
+
+    if (!this.batchTimer) {
+      this.batchTimer = setTimeout(() => {
+        void this.flushBatch();
+      }, this.config?.batch?.maxWaitMs ?? DEFAULT_BATCH_WAIT_MS);
+    }
+  }
+
+  // Send everything currently buffered. Failed batches go to the offline queue.
+  async flushBatch(): Promise<void> {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+
+    const payloads = this.batchBuffer;
+    this.batchBuffer = [];
+    if (payloads.length === 0) return;
+
+    if (this.config?.debug) {
+      console.log(`📦 Flushing batch of ${payloads.length} events`);
+    }
+
+    try {
+      const delivered = await this.sendBatch(payloads);
+      if (!delivered) payloads.forEach(payload => this.enqueue(payload, true));
     } catch (error) {
       console.error('❌ Server tracking error:', error);
+      payloads.forEach(payload => this.enqueue(payload, true));
+    }
+  }
+
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  // Persist an event for later delivery. Failed sends count as the first attempt.
+  private enqueue(payload: ServerEventPayload, failed = false): void {
+    if (!this.queue) return;
+
+    this.queue.enqueue(payload);
+    if (failed) this.queue.recordFailure(payload.event.event_id);
+    if (this.config?.debug) {
+      console.log(`📥 Queued ${payload.event.event_name} for retry (${this.queue.size()} pending)`);
     }
+    this.scheduleNextRetry();
+  }
+
+  private handleOnline = (): void => {
+    if (this.config?.debug) console.log('🌐 Back online - flushing event queue');
+    void this.flushQueue(true);
+  };
+
+  private handlePageHide = (): void => {
+    this.pageHidden = true;
+    // Last chance to deliver anything still buffered or queued
+    void this.flushBatch();
+    void this.flushQueue(true);
+  };
+
+  private handlePageShow = (): void => {
+    this.pageHidden = false;
+  };
+
+  private handleVisibilityChange = (): void => {
+    this.pageHidden = document.visibilityState === 'hidden';
+    if (this.pageHidden) void this.flushBatch();
+  };
+
+  // Re-send queued events. `force` ignores backoff (used when connectivity returns).
+  async flushQueue(force = false): Promise<void> {
+    if (!this.queue || !this.initialized || this.flushing || !this.isOnline()) return;
+
+    this.flushing = true;
+    try {
+      const pending = force ? this.queue.all() : this.queue.due();
+
+      for (const entry of pending) {
+        let delivered = false;
+        try {
+          delivered = await this.sendPayload(this.withUserData(entry.payload));
+        } catch (error) {
+          console.error('❌ Server tracking error:', error);
+        }
+
+        if (delivered) {
+          this.queue.remove(entry.id);
+        } else if (!this.queue.recordFailure(entry.id)) {
+          console.warn(`Dropping ${entry.payload.event.event_name} (${entry.id}) after repeated failures`);
+        }
+
+        // Stop early if we lost connectivity mid-flush
+        if (!this.isOnline()) break;
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    this.scheduleNextRetry();
+  }
+
+  // Events restored after a reload were stored without personal data. Add back what
+  // the page knows about the same client; fields the event still carries win.
+  private withUserData(payload: ServerEventPayload): ServerEventPayload {
+    if (payload.user.client_id !== this.userData.client_id) return payload;
+    return { ...payload, user: { ...this.userData, ...payload.user } };
+  }
+
+  private scheduleNextRetry(): void {
+    const nextAttemptAt = this.queue?.nextAttemptAt();
+    if (nextAttemptAt === null || nextAttemptAt === undefined) return;
+
+    this.scheduleRetry(Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private scheduleRetry(delayMs: number): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flushQueue();
+    }, delayMs);
+  }
+
+  // Number of events waiting to be re-sent
+  getQueueSize(): number {
+    return this.queue?.size() ?? 0;
   }
 
   // Helper methods
-  async trackAddToCart(items: TrackingEvent['items'], currency: TrackingEvent['currency'], value: number): Promise<void> {
+  async trackViewItemList(items: TrackingItem[], list?: ItemListInfo): Promise<void> {
+    await this.trackEvent({
+      event_name: 'view_item_list',
+      items,
+      ...list
+    });
+  }
+
+  async trackSelectItem(item: TrackingItem, list?: ItemListInfo): Promise<void> {
+    await this.trackEvent({
+      event_name: 'select_item',
+      items: [item],
+      ...list
+    });
+  }
+
+  async trackViewItem(items: TrackingItem[], currency: CurrencyCode, value: number): Promise<void> {
+    await this.trackEvent({
+      event_name: 'view_item',
+      items,
+      currency,
+      value
+    });
+  }
+
+  async trackAddToCart(items: TrackingItem[], currency: CurrencyCode, value: number): Promise<void> {
     await this.trackEvent({
       event_name: 'add_to_cart',
       items,
@@ -138,20 +636,83 @@ class TrackingService {
     });
   }
 
-  async trackBeginCheckout(items: TrackingEvent['items'], currency: TrackingEvent['currency'], value: number, coupon?: string): Promise<void> {
+  async trackRemoveFromCart(items: TrackingItem[], currency: CurrencyCode, value: number): Promise<void> {
+    await this.trackEvent({
+      event_name: 'remove_from_cart',
+      items,
+      currency,
+      value
+    });
+  }
+
+  async trackViewCart(items: TrackingItem[], currency: CurrencyCode, value: number): Promise<void> {
+    await this.trackEvent({
+      event_name: 'view_cart',
+      items,
+      currency,
+      value
+    });
+  }
+
+  async trackAddToWishlist(items: TrackingItem[], currency: CurrencyCode, value: number): Promise<void> {
+    await this.trackEvent({
+      event_name: 'add_to_wishlist',
+      items,
+      currency,
+      value
+    });
+  }
+
+  async trackBeginCheckout(items: TrackingItem[], currency: CurrencyCode, value: number, coupon?: string): Promise<void> {
     await this.trackEvent({
       event_name: 'begin_checkout',
       items,
       currency,
       value,
-      coupon
+      ...(coupon !== undefined && { coupon })
+    });
+  }
+
+  async trackAddShippingInfo(
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number,
+    additionalParams?: {
+      shipping_tier?: string;
+      coupon?: string;
+    }
+  ): Promise<void> {
+    await this.trackEvent({
+      event_name: 'add_shipping_info',
+      items,
+      currency,
+      value,
+      ...additionalParams
+    });
+  }
+
+  async trackAddPaymentInfo(
+    items: TrackingItem[],
+    currency: CurrencyCode,
+    value: number,
+    additionalParams?: {
+      payment_type?: string;
+      coupon?: string;
+    }
+  ): Promise<void> {
+    await this.trackEvent({
+      event_name: 'add_payment_info',
+      items,
+      currency,
+      value,
+      ...additionalParams
     });
   }
 
   async trackPurchase(
     transaction_id: string,
-    items: TrackingEvent['items'],
-    currency: TrackingEvent['currency'],
+    items: TrackingItem[],
+    currency: CurrencyCode,
     value: number,
     additionalParams?: {
       affiliation?: string;
@@ -170,9 +731,45 @@ class TrackingService {
     });
   }
 
+  // Refunds are not tracked from the browser - /api/track rejects them. Call the
+  // server's refund routes instead (POST /api/orders/:orderId/refund or /cancel).
+
   isInitialized(): boolean {
     return this.initialized;
   }
+
+  // Back to the state before initialize(), e.g. between tests. Buffered events and user
+  // data are dropped; events already persisted in the offline queue stay there.
+  reset(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('pagehide', this.handlePageHide);
+      window.removeEventListener('pageshow', this.handlePageShow);
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.batchTimer) clearTimeout(this.batchTimer);
+
+    this.config = null;
+    this.initialized = false;
+    this.userData = {};
+    this.queue = null;
+    this.retryTimer = null;
+    this.flushing = false;
+    this.pageHidden = false;
+    this.batchBuffer = [];
+    this.batchTimer = null;
+    this.lastPageLocation = null;
+    this.pageReferrer = null;
+    this.pendingPageView = null;
+    this.consent = null;
+    this.pendingConsent = {};
+    this.loadedPixels = { ga4: false, meta: false, tiktok: false };
+    this.landingUrl = null;
+    this.attributionCaptured = false;
+    this.token = null;
+    this.tokenRequest = null;
+  }
 }
 
 // Export singleton
@@ -0,0 +1,56 @@
+// Delivery transports for server-bound tracking payloads
+
+// 'auto'      - regular fetch, switching to sendBeacon while the page is being hidden/unloaded
+// 'fetch'     - always a regular fetch
+// 'beacon'    - always navigator.sendBeacon (keepalive fetch if the beacon is rejected)
+// 'keepalive' - always fetch with keepalive: true
+export type TransportMode = 'auto' | 'fetch' | 'beacon' | 'keepalive';
+
+export type TransportMethod = Exclude<TransportMode, 'auto'>;
+
+// Pick the concrete transport for a single send
+export function resolveTransport(mode: TransportMode = 'auto', pageHidden = false): TransportMethod {
+  if (mode === 'auto') {
+    return pageHidden ? 'beacon' : 'fetch';
+  }
+  return mode;
+}
+
+export function isBeaconSupported(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function';
+}
+
+// Add a query parameter - for values a beacon cannot send as a header
+export function withQueryParam(url: string, name: string, value: string): string {
+  return `${url}${url.includes('?') ? '&' : '?'}${name}=${encodeURIComponent(value)}`;
+}
+
+// Queue a payload with sendBeacon. Returns false when the browser refused it.
+// text/plain is a CORS-safelisted type, so no preflight is needed - the server
+// parses it as JSON.
+export function sendBeacon(url: string, body: string): boolean {
+  if (!isBeaconSupported()) return false;
+
+  try {
+    return navigator.sendBeacon(url, new Blob([body], { type: 'text/plain' }));
+  } catch {
+    return false;
+  }
+}
+
+// POST JSON with fetch, optionally letting the request outlive the page
+export function postJson(
+  url: string,
+  body: string,
+  keepalive = false,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const init: RequestInit = {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body
+  };
+  if (keepalive) init.keepalive = true;
+
+  return fetch(url, init);
+}
@@ -3,7 +3,17 @@ import {
   isAddToCartEvent,
   isBeginCheckoutEvent,
   isPurchaseEvent,
+  isViewItemListEvent,
+  isSelectItemEvent,
+  isViewItemEvent,
+  isRemoveFromCartEvent,
+  isViewCartEvent,
+  isAddToWishlistEvent,
+  isAddShippingInfoEvent,
+  isAddPaymentInfoEvent,
+  isRefundEvent,
   EVENT_NAME_MAPPING,
+  META_STANDARD_EVENTS,
   type AddToCartEvent,
   type BeginCheckoutEvent,
   type PurchaseEvent,
@@ -85,6 +95,38 @@ describe('Type Guards', () => {
       expect(isPurchaseEvent(event)).toBe(false);
     });
   });
+  describe('e-commerce catalog guards', () => {
+    const events: TrackingEvent[] = [
+      { ...baseEventData, event_name: 'view_item_list', item_list_name: 'Audio' },
+      { ...baseEventData, event_name: 'select_item', item_list_id: 'audio' },
+      { ...baseEventData, event_name: 'view_item' },
+      { ...baseEventData, event_name: 'remove_from_cart' },
+      { ...baseEventData, event_name: 'view_cart' },
+      { ...baseEventData, event_name: 'add_to_wishlist' },
+      { ...baseEventData, event_name: 'add_shipping_info', shipping_tier: 'Standard' },
+      { ...baseEventData, event_name: 'add_payment_info', payment_type: 'GCash' },
+      { event_id: 'test-123', event_name: 'refund', transaction_id: 'TXN-123', currency: 'PHP', value: 99.99 }
+    ];
+
+    const guards = [
+      isViewItemListEvent,
+      isSelectItemEvent,
+      isViewItemEvent,
+      isRemoveFromCartEvent,
+      isViewCartEvent,
+      isAddToWishlistEvent,
+      isAddShippingInfoEvent,
+      isAddPaymentInfoEvent,
+      isRefundEvent
+    ];
+
+    it('should match exactly one event each', () => {
+      guards.forEach((guard, index) => {
+        const matches = events.filter(event => guard(event));
+        expect(matches).toEqual([events[index]]);
+      });
+    });
+  });
 });
 
 describe('Event Name Mapping', () => {
@@ -100,6 +142,19 @@ describe('Event Name Mapping', () => {
     expect(EVENT_NAME_MAPPING.purchase.meta).toBe('Purchase');
   });
 
+  it('should map the full GA4 catalog to Meta and TikTok', () => {
+    expect(EVENT_NAME_MAPPING.view_item.meta).toBe('ViewContent');
+    expect(EVENT_NAME_MAPPING.view_item.tiktok).toBe('ViewContent');
+    expect(EVENT_NAME_MAPPING.add_payment_info.meta).toBe('AddPaymentInfo');
+    expect(EVENT_NAME_MAPPING.add_to_wishlist.tiktok).toBe('AddToWishlist');
+    expect(EVENT_NAME_MAPPING.refund.ga4).toBe('refund');
+  });
+
+  it('should only list Meta standard events as standard', () => {
+    expect(META_STANDARD_EVENTS).toContain(EVENT_NAME_MAPPING.view_item.meta);
+    expect(META_STANDARD_EVENTS).not.toContain(EVENT_NAME_MAPPING.view_cart.meta);
+  });
+
   it('should have correct TikTok event names', () => {
     expect(EVENT_NAME_MAPPING.add_to_cart.tiktok).toBe('AddToCart');
     expect(EVENT_NAME_MAPPING.begin_checkout.tiktok).toBe('InitiateCheckout');
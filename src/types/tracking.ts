@@ -3,7 +3,9 @@
 // Common event parameters shared across all platforms
 export interface BaseEventParams {
   event_id: string; // For deduplication
-  timestamp?: number;
+  timestamp?: number; // ms when the event happened - used as the platforms' event time
+  page_location?: string; // full URL of the page the event happened on
+  page_referrer?: string; // that page's referrer ('' for direct visits)
 }
 
 // Product/Item structure aligned with GA4, Meta, and TikTok schemas
@@ -28,17 +30,70 @@ export interface EcommerceEventParams extends BaseEventParams {
   items: TrackingItem[];
 }
 
+// List events (impressions, clicks) - value and currency are optional in GA4
+export interface ItemListEventParams extends BaseEventParams {
+  items: TrackingItem[];
+  item_list_id?: string;
+  item_list_name?: string;
+  currency?: CurrencyCode;
+  value?: number;
+}
+
+// View item list event (category pages, search results, recommendations)
+export interface ViewItemListEvent extends ItemListEventParams {
+  event_name: 'view_item_list';
+}
+
+// Select item event (item clicked in a list)
+export interface SelectItemEvent extends ItemListEventParams {
+  event_name: 'select_item';
+}
+
+// View item event (product detail page)
+export interface ViewItemEvent extends EcommerceEventParams {
+  event_name: 'view_item';
+}
+
 // Add to cart event
 export interface AddToCartEvent extends EcommerceEventParams {
   event_name: 'add_to_cart';
 }
 
+// Remove from cart event
+export interface RemoveFromCartEvent extends EcommerceEventParams {
+  event_name: 'remove_from_cart';
+}
+
+// View cart event
+export interface ViewCartEvent extends EcommerceEventParams {
+  event_name: 'view_cart';
+}
+
+// Add to wishlist event
+export interface AddToWishlistEvent extends EcommerceEventParams {
+  event_name: 'add_to_wishlist';
+}
+
 // Begin checkout event
 export interface BeginCheckoutEvent extends EcommerceEventParams {
   event_name: 'begin_checkout';
   coupon?: string;
 }
 
+// Add shipping info event (shipping step of checkout)
+export interface AddShippingInfoEvent extends EcommerceEventParams {
+  event_name: 'add_shipping_info';
+  coupon?: string;
+  shipping_tier?: string; // e.g. 'Standard', 'Same Day'
+}
+
+// Add payment info event (payment step of checkout)
+export interface AddPaymentInfoEvent extends EcommerceEventParams {
+  event_name: 'add_payment_info';
+  coupon?: string;
+  payment_type?: string; // e.g. 'GCash', 'COD', 'Credit Card'
+}
+
 // Purchase event
 export interface PurchaseEvent extends EcommerceEventParams {
   event_name: 'purchase';
@@ -49,8 +104,50 @@ export interface PurchaseEvent extends EcommerceEventParams {
   tax?: number;
 }
 
+// Refund event - omit items for a full refund
+export interface RefundEvent extends BaseEventParams {
+  event_name: 'refund';
+  transaction_id: string;
+  currency: CurrencyCode;
+  value: number; // refunded amount
+  items?: TrackingItem[];
+  affiliation?: string;
+  coupon?: string;
+  shipping?: number;
+  tax?: number;
+}
+
+// Page view event (SPA route changes)
+export interface PageViewEvent extends BaseEventParams {
+  event_name: 'page_view';
+  page_location: string; // full URL
+  page_title?: string;
+  page_referrer?: string;
+}
+
+// Union type for e-commerce events (everything except page views)
+export type EcommerceEvent =
+  | ViewItemListEvent
+  | SelectItemEvent
+  | ViewItemEvent
+  | AddToCartEvent
+  | RemoveFromCartEvent
+  | ViewCartEvent
+  | AddToWishlistEvent
+  | BeginCheckoutEvent
+  | AddShippingInfoEvent
+  | AddPaymentInfoEvent
+  | PurchaseEvent
+  | RefundEvent;
+
 // Union type for all tracking events
-export type TrackingEvent = AddToCartEvent | BeginCheckoutEvent | PurchaseEvent;
+export type TrackingEvent = EcommerceEvent | PageViewEvent;
+
+// Omit that distributes over union members (plain Omit collapses a union to its shared keys)
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// Event as passed to TrackingService.trackEvent - event_id is generated by the service
+export type TrackingEventInput = DistributiveOmit<TrackingEvent, 'event_id'>;
 
 // User data for server-side tracking
 export interface UserData {
@@ -60,33 +157,142 @@ export interface UserData {
   phone?: string; // Will be hashed
   ip_address?: string;
   user_agent?: string;
+  fbc?: string; // Meta click ID cookie (_fbc)
+  fbp?: string; // Meta browser ID cookie (_fbp)
+  // Advanced matching - all hashed server-side before reaching the platforms
+  first_name?: string;
+  last_name?: string;
+  date_of_birth?: string; // YYYY-MM-DD
+  gender?: string; // 'f' / 'm' (or 'female' / 'male')
+  street?: string; // street address line (GA4 enhanced conversions)
+  city?: string;
+  state?: string; // state / province / region
+  zip_code?: string;
+  country?: string; // ISO 3166-1 alpha-2, e.g. 'PH'
+}
+
+// Ad click IDs and campaign parameters captured on landing (Meta's fbc lives in UserData)
+export interface AttributionData {
+  gclid?: string; // Google Ads click ID
+  gbraid?: string; // Google Ads click ID for iOS app-to-web
+  wbraid?: string; // Google Ads click ID for iOS web-to-app
+  ttclid?: string; // TikTok click ID
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+}
+
+// First-party cookies holding the captured click IDs and UTMs. Set by the browser,
+// also read by server routes (same-origin requests carry them).
+export const ATTRIBUTION_COOKIES = {
+  fbc: '_fbc', // Meta's own cookie names, shared with the Meta Pixel
+  fbp: '_fbp',
+  gclid: '_trk_gclid',
+  gbraid: '_trk_gbraid',
+  wbraid: '_trk_wbraid',
+  ttclid: '_trk_ttclid',
+  utm: '_trk_utm' // JSON of the latest campaign's utm_* parameters
+} as const;
+
+// User consent, as collected by the site's consent banner
+export interface ConsentState {
+  analytics: boolean; // GA4 measurement
+  ads: boolean; // Meta and TikTok pixels / ad storage
+  ad_user_data: boolean; // sending user data (email, phone, IDs) to ad platforms
+  ad_personalization: boolean; // remarketing / personalised ads
 }
 
 // Server-side event payload
 export interface ServerEventPayload {
   event: TrackingEvent;
   user: UserData;
+  consent?: ConsentState; // absent when consent management is disabled
+  attribution?: AttributionData; // click IDs and UTMs from the landing page, when any were captured
+  destinations?: string[]; // server destinations to send to, all when absent (hybrid delivery)
 }
 
 // Platform-specific event names mapping
 export const EVENT_NAME_MAPPING = {
+  page_view: {
+    ga4: 'page_view',
+    meta: 'PageView',
+    tiktok: 'Pageview'
+  },
+  view_item_list: {
+    ga4: 'view_item_list',
+    meta: 'ViewItemList', // custom event
+    tiktok: 'ViewItemList' // custom event
+  },
+  select_item: {
+    ga4: 'select_item',
+    meta: 'SelectItem', // custom event
+    tiktok: 'SelectItem' // custom event
+  },
+  view_item: {
+    ga4: 'view_item',
+    meta: 'ViewContent',
+    tiktok: 'ViewContent'
+  },
   add_to_cart: {
     ga4: 'add_to_cart',
     meta: 'AddToCart',
     tiktok: 'AddToCart'
   },
+  remove_from_cart: {
+    ga4: 'remove_from_cart',
+    meta: 'RemoveFromCart', // custom event
+    tiktok: 'RemoveFromCart' // custom event
+  },
+  view_cart: {
+    ga4: 'view_cart',
+    meta: 'ViewCart', // custom event
+    tiktok: 'ViewCart' // custom event
+  },
+  add_to_wishlist: {
+    ga4: 'add_to_wishlist',
+    meta: 'AddToWishlist',
+    tiktok: 'AddToWishlist'
+  },
   begin_checkout: {
     ga4: 'begin_checkout',
     meta: 'InitiateCheckout',
     tiktok: 'InitiateCheckout'
   },
+  add_shipping_info: {
+    ga4: 'add_shipping_info',
+    meta: 'AddShippingInfo', // custom event
+    tiktok: 'AddShippingInfo' // custom event
+  },
+  add_payment_info: {
+    ga4: 'add_payment_info',
+    meta: 'AddPaymentInfo',
+    tiktok: 'AddPaymentInfo'
+  },
   purchase: {
     ga4: 'purchase',
     meta: 'Purchase',
     tiktok: 'Purchase'
+  },
+  refund: {
+    ga4: 'refund',
+    meta: 'Refund', // custom event
+    tiktok: 'Refund' // custom event
   }
 } as const;
 
+// Meta standard events - anything else must be sent with fbq('trackCustom')
+export const META_STANDARD_EVENTS: readonly string[] = [
+  'PageView',
+  'ViewContent',
+  'AddToCart',
+  'AddToWishlist',
+  'InitiateCheckout',
+  'AddPaymentInfo',
+  'Purchase'
+];
+
 // Google Tag (gtag) types
 export interface GtagConfig {
   send_page_view?: boolean;
@@ -94,23 +300,78 @@ export interface GtagConfig {
   [key: string]: any;
 }
 
-export type GtagCommand = 'js' | 'config' | 'event' | 'set';
+// Google Consent Mode v2 parameters
+export type GtagConsentValue = 'granted' | 'denied';
+
+export interface GtagConsentParams {
+  analytics_storage: GtagConsentValue;
+  ad_storage: GtagConsentValue;
+  ad_user_data: GtagConsentValue;
+  ad_personalization: GtagConsentValue;
+}
+
+export type GtagCommand = 'js' | 'config' | 'event' | 'set' | 'consent';
 
 export type GtagArgs = 
   | ['js', Date]
+  | ['consent', 'default' | 'update', GtagConsentParams]
   | ['config', string, GtagConfig?]
   | ['event', string, any?]
   | ['set', any];
 
 // Type guard functions
+export function isPageViewEvent(event: TrackingEvent): event is PageViewEvent {
+  return event.event_name === 'page_view';
+}
+
+export function isEcommerceEvent(event: TrackingEvent): event is EcommerceEvent {
+  return event.event_name !== 'page_view';
+}
+
+export function isViewItemListEvent(event: TrackingEvent): event is ViewItemListEvent {
+  return event.event_name === 'view_item_list';
+}
+
+export function isSelectItemEvent(event: TrackingEvent): event is SelectItemEvent {
+  return event.event_name === 'select_item';
+}
+
+export function isViewItemEvent(event: TrackingEvent): event is ViewItemEvent {
+  return event.event_name === 'view_item';
+}
+
 export function isAddToCartEvent(event: TrackingEvent): event is AddToCartEvent {
   return event.event_name === 'add_to_cart';
 }
 
+export function isRemoveFromCartEvent(event: TrackingEvent): event is RemoveFromCartEvent {
+  return event.event_name === 'remove_from_cart';
+}
+
+export function isViewCartEvent(event: TrackingEvent): event is ViewCartEvent {
+  return event.event_name === 'view_cart';
+}
+
+export function isAddToWishlistEvent(event: TrackingEvent): event is AddToWishlistEvent {
+  return event.event_name === 'add_to_wishlist';
+}
+
 export function isBeginCheckoutEvent(event: TrackingEvent): event is BeginCheckoutEvent {
   return event.event_name === 'begin_checkout';
 }
 
+export function isAddShippingInfoEvent(event: TrackingEvent): event is AddShippingInfoEvent {
+  return event.event_name === 'add_shipping_info';
+}
+
+export function isAddPaymentInfoEvent(event: TrackingEvent): event is AddPaymentInfoEvent {
+  return event.event_name === 'add_payment_info';
+}
+
 export function isPurchaseEvent(event: TrackingEvent): event is PurchaseEvent {
   return event.event_name === 'purchase';
+}
+
+export function isRefundEvent(event: TrackingEvent): event is RefundEvent {
+  return event.event_name === 'refund';
 }
\ No newline at end of file